@@ -431,6 +431,7 @@ async function validateAIService() {
 
 module.exports = {
   suggestCategory,
+  fallbackCategorization,
   validateAIService,
   DEFAULT_CATEGORIES,
 };
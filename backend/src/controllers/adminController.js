@@ -0,0 +1,103 @@
+// backend/src/controllers/adminController.js
+
+/**
+ * Admin Controller
+ * 
+ * Operational endpoints: background job history and manual job runs
+ */
+
+const { db } = require('../config/firebase');
+const { generateDueExpenses, sendDueReminders } = require('./recurringExpenseController');
+const { renewDueBudgets } = require('./budgetController');
+const { retryNotificationDeliveries } = require('./notificationController');
+
+// Jobs that can be started by hand, by name
+const RUNNABLE_JOBS = {
+  'generate-recurring': () => generateDueExpenses('manual'),
+  'send-reminders': () => sendDueReminders('manual'),
+  'renew-budgets': () => renewDueBudgets('manual'),
+  'retry-deliveries': () => retryNotificationDeliveries('manual')
+};
+
+/**
+ * READ: Recent background job runs, newest first
+ * 
+ * @route   GET /api/admin/job-runs
+ * @access  Admin
+ * @query   ?job=generate-recurring&status=failed&limit=20
+ */
+const getJobRuns = async (req, res) => {
+  try {
+    const { job, status, limit = 20 } = req.query;
+    const limitNum = parseInt(limit);
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 100'
+      });
+    }
+
+    let query = db.collection('job_runs');
+
+    if (job) {
+      query = query.where('job', '==', job);
+    }
+    if (status) {
+      query = query.where('status', '==', status);
+    }
+
+    const snapshot = await query.orderBy('startedAt', 'desc').limit(limitNum).get();
+
+    res.status(200).json({
+      runs: snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+      count: snapshot.size
+    });
+
+  } catch (error) {
+    console.error('Error fetching job runs:', error);
+    res.status(500).json({
+      error: 'Failed to fetch job runs',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * RUN: Start a background job now
+ * 
+ * @route   POST /api/admin/jobs/:job/run
+ * @access  Admin
+ */
+const runJobNow = async (req, res) => {
+  try {
+    const { job } = req.params;
+    const run = RUNNABLE_JOBS[job];
+
+    if (!run) {
+      return res.status(404).json({
+        error: 'Job not found',
+        message: `Unknown job "${job}". Available: ${Object.keys(RUNNABLE_JOBS).join(', ')}`
+      });
+    }
+
+    const result = await run();
+
+    res.status(result.success ? 200 : 500).json({
+      message: result.success ? `Job ${job} finished` : `Job ${job} failed`,
+      result
+    });
+
+  } catch (error) {
+    console.error('Error running job:', error);
+    res.status(500).json({
+      error: 'Failed to run job',
+      message: error.message
+    });
+  }
+};
+
+module.exports = {
+  getJobRuns,
+  runJobNow
+};
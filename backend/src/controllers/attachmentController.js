@@ -0,0 +1,257 @@
+// backend/src/controllers/attachmentController.js
+
+/**
+ * Attachment Controller
+ * 
+ * Upload, download and delete receipt files attached to expenses
+ * File contents live in the configured storage driver; the expense
+ * document keeps the metadata in its `attachments` array
+ */
+
+const crypto = require('crypto');
+const { db } = require('../config/firebase');
+const { FieldValue } = require('firebase-admin/firestore');
+const { getStorage } = require('../storage');
+const {
+  MAX_ATTACHMENTS_PER_EXPENSE,
+  validateAttachmentFile,
+  sanitizeFileName
+} = require('../models/attachmentModel');
+
+/**
+ * Load an expense and check it belongs to the user
+ * Sends the 404/403 response itself and returns null when access is denied
+ * 
+ * @param {string} id - Expense ID
+ * @param {string} userId - User ID
+ * @param {Response} res - Express response
+ * @returns {Object|null} - { docRef, expense }
+ */
+const getOwnedExpense = async (id, userId, res) => {
+  const docRef = db.collection('expenses').doc(id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    res.status(404).json({
+      error: 'Expense not found',
+      message: `No expense found with ID: ${id}`
+    });
+    return null;
+  }
+
+  const expense = doc.data();
+  if (expense.userId !== userId) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You do not have permission to access this expense'
+    });
+    return null;
+  }
+
+  return { docRef, expense };
+};
+
+/**
+ * Delete every stored file of an expense
+ * Used when the expense itself is deleted; failures are logged, not thrown,
+ * so a storage hiccup never blocks deleting the expense
+ * 
+ * @param {Object} expense - Expense document data
+ */
+const removeExpenseAttachments = async (expense) => {
+  const storage = getStorage();
+
+  await Promise.all((expense.attachments || []).map(async (attachment) => {
+    try {
+      await storage.remove(attachment.storageKey);
+    } catch (error) {
+      console.error(`Failed to remove attachment ${attachment.storageKey}:`, error);
+    }
+  }));
+};
+
+/**
+ * UPLOAD: Attach receipt files to an expense
+ * 
+ * @route   POST /api/expenses/:id/attachments
+ * @access  Private
+ * @body    multipart/form-data with one or more "files"
+ */
+const addAttachments = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.uid;
+    const files = req.files || [];
+
+    // Step 1: Validate files
+    if (files.length === 0) {
+      return res.status(400).json({
+        error: 'No files uploaded',
+        message: 'Send one or more files in the "files" field'
+      });
+    }
+
+    const errors = files.flatMap(file => validateAttachmentFile(file).errors);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+    }
+
+    // Step 2: Check ownership and attachment limit
+    const owned = await getOwnedExpense(id, userId, res);
+    if (!owned) return;
+
+    const existingCount = (owned.expense.attachments || []).length;
+    if (existingCount + files.length > MAX_ATTACHMENTS_PER_EXPENSE) {
+      return res.status(400).json({
+        error: 'Too many attachments',
+        message: `An expense can have at most ${MAX_ATTACHMENTS_PER_EXPENSE} attachments`
+      });
+    }
+
+    // Step 3: Store files
+    const storage = getStorage();
+    const attachments = [];
+
+    for (const file of files) {
+      const attachmentId = crypto.randomUUID();
+      const fileName = sanitizeFileName(file.originalname);
+      const storageKey = `receipts/${userId}/${id}/${attachmentId}-${fileName}`;
+
+      await storage.save(storageKey, file.buffer, file.mimetype);
+
+      attachments.push({
+        id: attachmentId,
+        fileName,
+        contentType: file.mimetype,
+        size: file.size,
+        storageKey,
+        uploadedAt: new Date().toISOString()
+      });
+    }
+
+    // Step 4: Record metadata on the expense
+    await owned.docRef.update({
+      attachments: FieldValue.arrayUnion(...attachments),
+      updatedAt: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      message: `${attachments.length} attachment(s) uploaded`,
+      attachments
+    });
+
+  } catch (error) {
+    console.error('Error uploading attachments:', error);
+    res.status(500).json({
+      error: 'Failed to upload attachments',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DOWNLOAD: Stream an attachment file
+ * 
+ * @route   GET /api/expenses/:id/attachments/:attachmentId
+ * @access  Private
+ */
+const getAttachment = async (req, res) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const owned = await getOwnedExpense(id, req.user.uid, res);
+    if (!owned) return;
+
+    const attachment = (owned.expense.attachments || []).find(a => a.id === attachmentId);
+    if (!attachment) {
+      return res.status(404).json({
+        error: 'Attachment not found',
+        message: `No attachment found with ID: ${attachmentId}`
+      });
+    }
+
+    let stream;
+    try {
+      stream = await getStorage().createReadStream(attachment.storageKey);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return res.status(404).json({
+          error: 'Attachment not found',
+          message: 'The attachment file is missing from storage'
+        });
+      }
+      throw error;
+    }
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader('Content-Disposition', `inline; filename="${attachment.fileName}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    stream.on('error', (error) => {
+      console.error('Error streaming attachment:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    res.status(500).json({
+      error: 'Failed to fetch attachment',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Remove an attachment from an expense
+ * 
+ * @route   DELETE /api/expenses/:id/attachments/:attachmentId
+ * @access  Private
+ */
+const deleteAttachment = async (req, res) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const owned = await getOwnedExpense(id, req.user.uid, res);
+    if (!owned) return;
+
+    const attachments = owned.expense.attachments || [];
+    const attachment = attachments.find(a => a.id === attachmentId);
+
+    if (!attachment) {
+      return res.status(404).json({
+        error: 'Attachment not found',
+        message: `No attachment found with ID: ${attachmentId}`
+      });
+    }
+
+    await getStorage().remove(attachment.storageKey);
+    await owned.docRef.update({
+      attachments: attachments.filter(a => a.id !== attachmentId),
+      updatedAt: new Date().toISOString()
+    });
+
+    res.status(200).json({
+      message: 'Attachment deleted successfully',
+      deletedId: attachmentId
+    });
+
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({
+      error: 'Failed to delete attachment',
+      message: error.message
+    });
+  }
+};
+
+module.exports = {
+  addAttachments,
+  getAttachment,
+  deleteAttachment,
+  removeExpenseAttachments
+};
@@ -8,13 +8,87 @@
 
 const { db } = require('../config/firebase');
 const {
+  RENEWABLE_TYPES,
   validateBudget,
   sanitizeBudget,
   validatePartialBudget
 } = require('../models/budgetModel');
+const { getCategoryAllocations } = require('../models/expenseModel');
+const { withPreferenceDefaults } = require('../models/userPreferencesModel');
+const { dispatch } = require('../notifiers/dispatcher');
+const { addDays, getAnchorDay, getNextPeriod } = require('../utils/budgetPeriods');
+const { getPeriodDays, buildForecast } = require('../utils/budgetForecast');
+const { runJob } = require('../utils/jobRuns');
+const { formatMoney } = require('../utils/currency');
+
+// Periods one run renews a budget through, so a long-idle server catches up without looping forever
+const MAX_RENEWALS = 100;
+
+// Earlier periods of the same length a forecast learns the usual pace from
+const FORECAST_HISTORY_PERIODS = 3;
+
+/**
+ * Date the day before another (YYYY-MM-DD)
+ */
+const dayBefore = (date) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() - 1);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * The budget a budget succeeds: the one it was renewed from, or else the one
+ * its period follows on from (a budget of the same type is preferred when
+ * several end that day)
+ * 
+ * @param {Object} budget - Budget data
+ * @param {string} userId - User ID
+ * @returns {Promise<Object|null>} - Previous budget data
+ */
+const findPreviousBudget = async (budget, userId) => {
+  if (budget.previousBudgetId) {
+    const previousDoc = await db.collection('budgets').doc(budget.previousBudgetId).get();
+    if (previousDoc.exists) return previousDoc.data();
+  }
+
+  const snapshot = await db.collection('budgets')
+    .where('userId', '==', userId)
+    .where('period.endDate', '==', dayBefore(budget.period.startDate))
+    .get();
+
+  const candidates = snapshot.docs.map(doc => doc.data());
+  return candidates.find(candidate => candidate.type === budget.type) || candidates[0] || null;
+};
+
+/**
+ * Amount a category carries over from the previous period's remaining
+ * Surplus mode carries unspent money, deficit mode carries overspending (as a
+ * negative amount); the cap limits either
+ * 
+ * @param {Object} catBudget - Category budget with its rollover settings
+ * @param {Object|null} previous - Previous budget data
+ * @returns {number} - Carried amount
+ */
+const getCarriedAmount = (catBudget, previous) => {
+  const previousCategory = previous && previous.categoryBudgets.find(cb => cb.category === catBudget.category);
+  if (!previousCategory) return 0;
+
+  const remaining = previousCategory.remaining;
+  let carried = 0;
+  if (catBudget.rollover === 'surplus' && remaining > 0) carried = remaining;
+  if (catBudget.rollover === 'deficit' && remaining < 0) carried = remaining;
+
+  if (catBudget.rolloverCap !== null && catBudget.rolloverCap !== undefined) {
+    carried = Math.sign(carried) * Math.min(Math.abs(carried), catBudget.rolloverCap);
+  }
+
+  return parseFloat(carried.toFixed(2));
+};
 
 /**
  * Calculate budget progress based on actual expenses
+ * Once its period has started, categories with a rollover setting have their
+ * limit adjusted by what the previous budget left over (see getCarriedAmount)
  * 
  * @param {Object} budget - Budget data
  * @param {string} userId - User ID
@@ -30,38 +104,53 @@ const calculateBudgetProgress = async (budget, userId) => {
     .where('date', '<=', endDate)
     .get();
 
-  // Convert to array
+  // Convert to array, leaving out estimated expenses until their amount is confirmed
   const expenses = [];
   expensesSnapshot.forEach(doc => {
-    expenses.push(doc.data());
+    if (doc.data().status !== 'pending') {
+      expenses.push(doc.data());
+    }
   });
 
-  // Calculate spent per category
+  // Calculate spent per category (split expenses count toward each split's category)
   const categorySpending = {};
   expenses.forEach(expense => {
-    if (!categorySpending[expense.category]) {
-      categorySpending[expense.category] = 0;
-    }
-    categorySpending[expense.category] += expense.amount;
+    getCategoryAllocations(expense).forEach(({ category, amount }) => {
+      if (!categorySpending[category]) {
+        categorySpending[category] = 0;
+      }
+      categorySpending[category] += amount;
+    });
   });
 
+  // Rollovers apply from the first day of the period; until then the previous one is still running
+  const today = new Date().toISOString().split('T')[0];
+  const hasRollover = budget.categoryBudgets.some(cb => cb.rollover && cb.rollover !== 'none');
+  const previous = hasRollover && startDate <= today ? await findPreviousBudget(budget, userId) : null;
+
   // Update category budgets with actual spending
   const updatedCategoryBudgets = budget.categoryBudgets.map(catBudget => {
     const spent = categorySpending[catBudget.category] || 0;
-    const remaining = catBudget.limit - spent;
-    const percentage = catBudget.limit > 0 ? (spent / catBudget.limit) * 100 : 0;
+    // A deficit can use up the limit but not go below zero
+    const carriedOver = Math.max(getCarriedAmount(catBudget, previous), -catBudget.limit);
+    const adjustedLimit = catBudget.limit + carriedOver;
+    const remaining = adjustedLimit - spent;
+    const percentage = adjustedLimit > 0 ? (spent / adjustedLimit) * 100 : 0;
 
     return {
       ...catBudget,
+      carriedOver,
+      adjustedLimit: parseFloat(adjustedLimit.toFixed(2)),
       spent: parseFloat(spent.toFixed(2)),
       remaining: parseFloat(remaining.toFixed(2)),
       percentage: parseFloat(percentage.toFixed(2))
     };
   });
 
-  // Calculate totals
+  // Calculate totals (totalLimit stays as configured; carried amounts are reported apart)
   const totalSpent = updatedCategoryBudgets.reduce((sum, cb) => sum + cb.spent, 0);
-  const totalRemaining = budget.totalLimit - totalSpent;
+  const totalAdjustedLimit = updatedCategoryBudgets.reduce((sum, cb) => sum + cb.adjustedLimit, 0);
+  const totalRemaining = totalAdjustedLimit - totalSpent;
 
   // Check alerts
   const updatedAlerts = budget.alerts.map(alert => {
@@ -78,12 +167,87 @@ const calculateBudgetProgress = async (budget, userId) => {
   return {
     ...budget,
     categoryBudgets: updatedCategoryBudgets,
+    totalCarriedOver: parseFloat((totalAdjustedLimit - budget.totalLimit).toFixed(2)),
+    totalAdjustedLimit: parseFloat(totalAdjustedLimit.toFixed(2)),
     totalSpent: parseFloat(totalSpent.toFixed(2)),
     totalRemaining: parseFloat(totalRemaining.toFixed(2)),
     alerts: updatedAlerts
   };
 };
 
+/**
+ * Forecast a budget's end-of-period spending (see utils/budgetForecast)
+ * Reads this period's and the previous FORECAST_HISTORY_PERIODS periods'
+ * expenses, and the user's active recurring templates
+ * 
+ * @param {Object} budget - Budget with progress (see calculateBudgetProgress)
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>} - Forecast
+ */
+const calculateBudgetForecast = async (budget, userId) => {
+  // Required here: recurringExpenseController requires this module
+  const { listPendingOccurrences } = require('./recurringExpenseController');
+
+  const today = new Date().toISOString().split('T')[0];
+  const { startDate, endDate } = budget.period;
+  const { totalDays } = getPeriodDays(budget.period, today);
+  const historyStart = addDays(startDate, -FORECAST_HISTORY_PERIODS * totalDays);
+
+  const [expensesSnapshot, templatesSnapshot] = await Promise.all([
+    db.collection('expenses')
+      .where('userId', '==', userId)
+      .where('date', '>=', historyStart)
+      .where('date', '<=', endDate)
+      .get(),
+    db.collection('recurring_expenses')
+      .where('userId', '==', userId)
+      .where('isActive', '==', true)
+      .get()
+  ]);
+
+  const discretionary = {};
+  const upcoming = {};
+  const history = { periods: 0, spending: {} };
+  const periodsWithData = new Set();
+  const add = (totals, category, amount) => {
+    totals[category] = (totals[category] || 0) + amount;
+  };
+
+  expensesSnapshot.forEach(doc => {
+    const expense = doc.data();
+    const allocations = getCategoryAllocations(expense);
+
+    if (expense.date >= startDate) {
+      // Estimated amounts are not spent yet, but are still coming
+      if (expense.status === 'pending') {
+        allocations.forEach(({ category, amount }) => add(upcoming, category, amount));
+      } else if (!expense.recurringExpenseId) {
+        allocations.forEach(({ category, amount }) => add(discretionary, category, amount));
+      }
+      return;
+    }
+
+    if (expense.status === 'pending') return;
+    periodsWithData.add(Math.floor((new Date(expense.date) - new Date(historyStart)) / (totalDays * 24 * 60 * 60 * 1000)));
+    if (!expense.recurringExpenseId) {
+      allocations.forEach(({ category, amount }) => add(history.spending, category, amount));
+    }
+  });
+  history.periods = periodsWithData.size;
+
+  // Occurrences not generated yet; confirmation-mode ones may be before today
+  templatesSnapshot.forEach(doc => {
+    const template = doc.data();
+    if (template.type === 'income' || !template.nextOccurrence) return;
+
+    listPendingOccurrences(template, { until: endDate })
+      .filter(occurrence => occurrence.date >= startDate && occurrence.date <= endDate)
+      .forEach(occurrence => add(upcoming, template.category, occurrence.amount));
+  });
+
+  return buildForecast({ budget, today, discretionary, history, upcoming });
+};
+
 /**
  * CREATE: Create a new budget
  * 
@@ -190,6 +354,7 @@ const getBudgets = async (req, res) => {
 
 /**
  * READ: Get current active budget
+ * Auto-renewing budgets the renewal job has not reached yet are renewed first
  * 
  * @route   GET /api/budgets/current
  * @access  Private
@@ -200,34 +365,39 @@ const getCurrentBudget = async (req, res) => {
     const today = new Date().toISOString().split('T')[0];
 
     // Find budget that includes today's date
-    const snapshot = await db.collection('budgets')
+    const activeBudgets = db.collection('budgets')
       .where('userId', '==', userId)
-      .where('isActive', '==', true)
-      .get();
-
-    let currentBudget = null;
-
-    for (const doc of snapshot.docs) {
-      const data = doc.data();
-      
-      // Check if today falls within the budget period
-      if (data.period.startDate <= today && data.period.endDate >= today) {
-        const budgetWithProgress = await calculateBudgetProgress(data, userId);
-        currentBudget = {
-          id: doc.id,
-          ...budgetWithProgress
-        };
-        break;
+      .where('isActive', '==', true);
+    const coversToday = (doc) => doc.data().period.startDate <= today && doc.data().period.endDate >= today;
+
+    let snapshot = await activeBudgets.get();
+    let currentDoc = snapshot.docs.find(coversToday);
+
+    // Renewing budgets that ended since the last renewal run are renewed now
+    const due = snapshot.docs.filter(doc => doc.data().autoRenew && doc.data().period.endDate < today);
+    if (!currentDoc && due.length > 0) {
+      const { weekStartsOn } = await getUserPreferences(userId);
+      for (const doc of due) {
+        await renewThrough(doc.ref, today, weekStartsOn);
       }
+
+      snapshot = await activeBudgets.get();
+      currentDoc = snapshot.docs.find(coversToday);
     }
 
-    if (!currentBudget) {
+    if (!currentDoc) {
       return res.status(404).json({
         error: 'No active budget found',
         message: 'No budget covers the current date'
       });
     }
 
+    const budgetWithProgress = await calculateBudgetProgress(currentDoc.data(), userId);
+    const currentBudget = {
+      id: currentDoc.id,
+      ...budgetWithProgress
+    };
+
     res.status(200).json({
       budget: currentBudget
     });
@@ -291,7 +461,7 @@ const getBudgetById = async (req, res) => {
 };
 
 /**
- * READ: Get budget progress (real-time calculation)
+ * READ: Get budget progress (real-time calculation) and its end-of-period forecast
  * 
  * @route   GET /api/budgets/:id/progress
  * @access  Private
@@ -321,6 +491,7 @@ const getBudgetProgress = async (req, res) => {
 
     // Calculate progress
     const budgetWithProgress = await calculateBudgetProgress(data, userId);
+    const forecast = await calculateBudgetForecast(budgetWithProgress, userId);
 
     // Return only progress-related data
     res.status(200).json({
@@ -329,8 +500,13 @@ const getBudgetProgress = async (req, res) => {
         totalSpent: budgetWithProgress.totalSpent,
         totalRemaining: budgetWithProgress.totalRemaining,
         totalLimit: budgetWithProgress.totalLimit,
-        overallPercentage: parseFloat(((budgetWithProgress.totalSpent / budgetWithProgress.totalLimit) * 100).toFixed(2)),
-        alerts: budgetWithProgress.alerts.filter(alert => alert.triggered)
+        totalCarriedOver: budgetWithProgress.totalCarriedOver,
+        totalAdjustedLimit: budgetWithProgress.totalAdjustedLimit,
+        overallPercentage: budgetWithProgress.totalAdjustedLimit > 0
+          ? parseFloat(((budgetWithProgress.totalSpent / budgetWithProgress.totalAdjustedLimit) * 100).toFixed(2))
+          : 0,
+        alerts: budgetWithProgress.alerts.filter(alert => alert.triggered),
+        forecast
       }
     });
 
@@ -384,6 +560,14 @@ const updateBudget = async (req, res) => {
       });
     }
 
+    const type = req.body.type || existingData.type;
+    if ((req.body.autoRenew ?? existingData.autoRenew) && !RENEWABLE_TYPES.includes(type)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Only monthly and weekly budgets can auto-renew']
+      });
+    }
+
     // Prepare update data
     const updateData = {
       ...req.body,
@@ -401,6 +585,12 @@ const updateBudget = async (req, res) => {
     delete updateData.id;
     delete updateData.totalSpent;
     delete updateData.totalRemaining;
+    delete updateData.totalCarriedOver;
+    delete updateData.totalAdjustedLimit;
+    delete updateData.seriesId;
+    delete updateData.anchorDay;
+    delete updateData.previousBudgetId;
+    delete updateData.renewedBudgetId;
 
     // Update in Firestore
     await docRef.update(updateData);
@@ -409,6 +599,16 @@ const updateBudget = async (req, res) => {
     const updatedDoc = await docRef.get();
     const budgetWithProgress = await calculateBudgetProgress(updatedDoc.data(), userId);
 
+    // Store fresh figures; the next period's rollover reads this budget's remaining
+    await docRef.update({
+      categoryBudgets: budgetWithProgress.categoryBudgets,
+      totalSpent: budgetWithProgress.totalSpent,
+      totalRemaining: budgetWithProgress.totalRemaining,
+      totalCarriedOver: budgetWithProgress.totalCarriedOver,
+      totalAdjustedLimit: budgetWithProgress.totalAdjustedLimit,
+      alerts: budgetWithProgress.alerts
+    });
+
     res.status(200).json({
       message: 'Budget updated successfully',
       budget: {
@@ -556,46 +756,109 @@ const configureAlerts = async (req, res) => {
   }
 };
 
+/**
+ * Notification for a budget alert that has just triggered
+ * 
+ * @param {string} budgetId - Budget ID
+ * @param {Object} budget - Budget with progress
+ * @param {Object} alert - The triggered alert
+ * @param {Object} preferences - User preferences (currency, locale)
+ * @returns {Object} - Notification
+ */
+const buildAlertNotification = (budgetId, budget, alert, preferences) => {
+  const catBudget = budget.categoryBudgets.find(cb => cb.category === alert.category);
+  const money = (amount) => formatMoney(amount, preferences.currency, preferences.locale);
+  const limit = catBudget.adjustedLimit ?? catBudget.limit;
+
+  return {
+    userId: budget.userId,
+    type: 'budget-alert',
+    title: `${alert.category} is at ${Math.round(catBudget.percentage)}% of its budget`,
+    message: `${money(catBudget.spent)} of ${money(limit)} spent on ${alert.category} in ${budget.name} ` +
+      `(alert at ${alert.threshold}%).`,
+    link: '/budgets',
+    data: {
+      budgetId,
+      category: alert.category,
+      threshold: alert.threshold,
+      percentage: catBudget.percentage,
+      spent: catBudget.spent,
+      limit
+    }
+  };
+};
+
 /**
  * Helper function to update budget progress when expenses change
  * This should be called after creating/updating/deleting expenses
+ * Pass an end date to refresh every budget overlapping a range (e.g. bulk imports)
+ * Renewed budgets are refreshed too, along with the renewals after them,
+ * since rollover carries their final figures forward
+ * Alerts that trigger with the change are sent over the user's alert channels
  * 
  * @param {string} userId - User ID
- * @param {string} expenseDate - Date of the expense
+ * @param {string} expenseDate - Date of the expense (or start of the range)
+ * @param {string} rangeEndDate - End of the range (optional, defaults to expenseDate)
  */
-const updateAffectedBudgets = async (userId, expenseDate) => {
+const updateAffectedBudgets = async (userId, expenseDate, rangeEndDate = expenseDate) => {
   try {
-    // Find budgets that include this date
     const snapshot = await db.collection('budgets')
       .where('userId', '==', userId)
-      .where('isActive', '==', true)
       .get();
 
-    const batch = db.batch();
-    let updatedCount = 0;
+    const budgets = new Map(snapshot.docs
+      .filter(doc => doc.data().isActive || doc.data().renewedBudgetId)
+      .map(doc => [doc.id, doc]));
 
-    for (const doc of snapshot.docs) {
+    // Find budgets that include this date (or range), then follow their renewals
+    const affected = new Set([...budgets.values()]
+      .filter(doc => doc.data().period.startDate <= rangeEndDate && doc.data().period.endDate >= expenseDate)
+      .map(doc => doc.id));
+
+    for (const id of affected) {
+      const nextId = budgets.get(id).data().renewedBudgetId;
+      if (nextId && budgets.has(nextId)) affected.add(nextId);
+    }
+
+    // Oldest first, and one at a time: each budget's rollover reads the one before it
+    const docs = [...affected]
+      .map(id => budgets.get(id))
+      .sort((a, b) => a.data().period.startDate.localeCompare(b.data().period.startDate));
+    const notifications = [];
+
+    for (const doc of docs) {
       const budgetData = doc.data();
-      
-      // Check if expense date falls within budget period
-      if (budgetData.period.startDate <= expenseDate && budgetData.period.endDate >= expenseDate) {
-        const budgetWithProgress = await calculateBudgetProgress(budgetData, userId);
-        
-        batch.update(doc.ref, {
-          categoryBudgets: budgetWithProgress.categoryBudgets,
-          totalSpent: budgetWithProgress.totalSpent,
-          totalRemaining: budgetWithProgress.totalRemaining,
-          alerts: budgetWithProgress.alerts,
-          updatedAt: new Date().toISOString()
-        });
-        
-        updatedCount++;
+      const budgetWithProgress = await calculateBudgetProgress(budgetData, userId);
+
+      // Alerts crossing their threshold with this change (alerts keep their order);
+      // ended periods are only brought up to date
+      if (budgetData.isActive) {
+        budgetWithProgress.alerts
+          .filter((alert, index) => alert.triggered && !budgetData.alerts[index].triggered)
+          .forEach(alert => notifications.push({ budgetId: doc.id, budget: budgetWithProgress, alert }));
       }
+
+      await doc.ref.update({
+        categoryBudgets: budgetWithProgress.categoryBudgets,
+        totalSpent: budgetWithProgress.totalSpent,
+        totalRemaining: budgetWithProgress.totalRemaining,
+        totalCarriedOver: budgetWithProgress.totalCarriedOver,
+        totalAdjustedLimit: budgetWithProgress.totalAdjustedLimit,
+        alerts: budgetWithProgress.alerts,
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    if (docs.length > 0) {
+      console.log(`✅ Updated ${docs.length} affected budgets`);
     }
 
-    if (updatedCount > 0) {
-      await batch.commit();
-      console.log(`✅ Updated ${updatedCount} affected budgets`);
+    // Sent in the background: expense handlers wait for this function
+    if (notifications.length > 0) {
+      const preferences = await getUserPreferences(userId);
+      for (const { budgetId, budget, alert } of notifications) {
+        await dispatch(buildAlertNotification(budgetId, budget, alert, preferences), { background: true });
+      }
     }
 
   } catch (error) {
@@ -603,6 +866,181 @@ const updateAffectedBudgets = async (userId, expenseDate) => {
   }
 };
 
+/**
+ * A user's preferences (first day of week for renewals, currency and locale for notifications)
+ * 
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>}
+ */
+const getUserPreferences = async (userId) => {
+  const userDoc = await db.collection('users').doc(userId).get();
+  return withPreferenceDefaults(userDoc.exists ? userDoc.data().preferences : {});
+};
+
+/**
+ * Renew an auto-renewing budget into the period that follows it
+ * The new budget keeps the name, limits, rollover and alert settings. The old
+ * one stores its final figures (the new one's rollover reads them) and is
+ * deactivated. Renewals use `<seriesId>_<startDate>` as their ID, where the
+ * series is the budget the chain started from, so each period is created once.
+ * 
+ * @param {DocumentReference} budgetRef - Budget whose period has ended
+ * @param {number} weekStartsOn - The owner's first day of the week
+ * @returns {Promise<Object|null>} - { ref, budget } of the new budget, or null if already renewed
+ */
+const renewBudget = async (budgetRef, weekStartsOn) => {
+  const doc = await budgetRef.get();
+  const budget = doc.data();
+
+  if (!budget.isActive || !budget.autoRenew || budget.renewedBudgetId) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const final = await calculateBudgetProgress(budget, budget.userId);
+
+  await budgetRef.update({
+    categoryBudgets: final.categoryBudgets,
+    totalSpent: final.totalSpent,
+    totalRemaining: final.totalRemaining,
+    totalCarriedOver: final.totalCarriedOver,
+    totalAdjustedLimit: final.totalAdjustedLimit,
+    alerts: final.alerts,
+    updatedAt: now
+  });
+
+  const seriesId = budget.seriesId || doc.id;
+  const period = getNextPeriod(budget, weekStartsOn);
+  const nextRef = db.collection('budgets').doc(`${seriesId}_${period.startDate}`);
+
+  const next = await calculateBudgetProgress({
+    name: budget.name,
+    type: budget.type,
+    period,
+    categoryBudgets: budget.categoryBudgets.map(cb => ({
+      category: cb.category,
+      limit: cb.limit,
+      rollover: cb.rollover || 'none',
+      rolloverCap: cb.rolloverCap ?? null,
+      spent: 0,
+      remaining: cb.limit,
+      percentage: 0
+    })),
+    totalLimit: budget.totalLimit,
+    totalSpent: 0,
+    totalRemaining: budget.totalLimit,
+    alerts: budget.alerts.map(alert => ({
+      category: alert.category,
+      threshold: alert.threshold,
+      triggered: false,
+      triggeredAt: null
+    })),
+    isActive: true,
+    autoRenew: true,
+    seriesId,
+    anchorDay: getAnchorDay(budget),
+    previousBudgetId: doc.id,
+    userId: budget.userId,
+    createdAt: now,
+    updatedAt: now
+  }, budget.userId);
+
+  // Another run may have renewed it meanwhile
+  const renewed = await db.runTransaction(async (transaction) => {
+    const current = (await transaction.get(budgetRef)).data();
+    if (!current.isActive || current.renewedBudgetId) {
+      return false;
+    }
+
+    transaction.create(nextRef, next);
+    transaction.update(budgetRef, {
+      isActive: false,
+      renewedBudgetId: nextRef.id,
+      updatedAt: now
+    });
+    return true;
+  });
+
+  return renewed ? { ref: nextRef, budget: next } : null;
+};
+
+/**
+ * Renew a budget period after period until one reaches today
+ * 
+ * @param {DocumentReference} budgetRef - Budget whose period has ended
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @param {number} weekStartsOn - The owner's first day of the week
+ * @returns {Promise<number>} - Number of budgets created
+ */
+const renewThrough = async (budgetRef, today, weekStartsOn) => {
+  let ref = budgetRef;
+  let created = 0;
+
+  while (created < MAX_RENEWALS) {
+    const renewed = await renewBudget(ref, weekStartsOn);
+    if (!renewed) break;
+
+    created++;
+    if (renewed.budget.period.endDate >= today) break;
+    ref = renewed.ref;
+  }
+
+  return created;
+};
+
+/**
+ * CRON JOB: Renew auto-renewing budgets whose period has ended
+ * Catches up on every period missed while the server was down
+ * and records the run in the job history
+ * 
+ * @param {string} trigger - 'cron', 'startup' or 'manual'
+ * @returns {Promise<Object>} - { success, runId, renewed, ... }
+ */
+const renewDueBudgets = async (trigger = 'cron') => {
+  const run = await runJob('renew-budgets', trigger, async () => {
+    const today = new Date().toISOString().split('T')[0];
+
+    const snapshot = await db.collection('budgets')
+      .where('isActive', '==', true)
+      .where('autoRenew', '==', true)
+      .where('period.endDate', '<', today)
+      .get();
+
+    const result = {
+      budgets: snapshot.size,
+      renewed: 0,
+      failures: []
+    };
+    const weekStartsOnByUser = new Map();
+
+    // Each budget on its own so a failure only affects that budget
+    for (const doc of snapshot.docs) {
+      const { userId } = doc.data();
+
+      try {
+        if (!weekStartsOnByUser.has(userId)) {
+          weekStartsOnByUser.set(userId, (await getUserPreferences(userId)).weekStartsOn);
+        }
+        result.renewed += await renewThrough(doc.ref, today, weekStartsOnByUser.get(userId));
+      } catch (error) {
+        console.error(`[CRON] Failed to renew budget ${doc.id}:`, error);
+        result.failures.push({ budgetId: doc.id, error: error.message });
+      }
+    }
+
+    console.log(`[CRON] Created ${result.renewed} budgets from ${result.budgets} ended budgets`);
+    return result;
+  });
+
+  return {
+    success: run.status !== 'failed',
+    runId: run.runId,
+    status: run.status,
+    ...run.result,
+    error: run.error
+  };
+};
+
 module.exports = {
   createBudget,
   getBudgets,
@@ -613,5 +1051,6 @@ module.exports = {
   deleteBudget,
   configureAlerts,
   updateAffectedBudgets,
-  calculateBudgetProgress
+  calculateBudgetProgress,
+  renewDueBudgets
 };
\ No newline at end of file
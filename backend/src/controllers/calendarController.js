@@ -0,0 +1,227 @@
+// backend/src/controllers/calendarController.js
+
+/**
+ * Calendar Feed Controller
+ *
+ * Publishes upcoming recurring expenses and budget period ends as an
+ * iCalendar feed that calendar apps subscribe to. Calendar apps cannot sign
+ * in, so the feed URL carries a random per-user token that can be rotated
+ * or revoked from settings.
+ */
+
+const crypto = require('crypto');
+const { db } = require('../config/firebase');
+const { FieldValue } = require('firebase-admin/firestore');
+const { withPreferenceDefaults } = require('../models/userPreferencesModel');
+const { formatMoney } = require('../utils/currency');
+const { buildCalendar } = require('../utils/ical');
+const { listPendingOccurrences } = require('./recurringExpenseController');
+
+// How far ahead recurring occurrences are listed
+const FEED_HORIZON_DAYS = 365;
+
+// Per template, so daily templates do not flood the calendar
+const MAX_FEED_OCCURRENCES = 60;
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+/**
+ * Date a number of days from today (YYYY-MM-DD)
+ */
+const daysFromToday = (days) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Calendar events of a template's upcoming occurrences, exceptions applied
+ *
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @param {Object} preferences - User preferences (currency, locale)
+ * @returns {Array<Object>} - Events (see utils/ical)
+ */
+const buildTemplateEvents = (templateId, template, preferences) => {
+  const occurrences = listPendingOccurrences(template, {
+    until: daysFromToday(FEED_HORIZON_DAYS),
+    limit: MAX_FEED_OCCURRENCES
+  });
+  const sign = template.type === 'income' ? '+' : '';
+  const approx = template.amountMode === 'estimated' ? '~' : '';
+  const description = [
+    template.description,
+    `Category: ${template.category}`,
+    approx && 'Estimated amount; confirm the real one when it is generated'
+  ].filter(Boolean).join('\n');
+
+  return occurrences.map(occurrence => ({
+    uid: `${templateId}-${occurrence.occurrenceDate}@paisa`,
+    date: occurrence.date,
+    summary: `${template.templateName} ${sign}${approx}${formatMoney(occurrence.amount, preferences.currency, preferences.locale)}`,
+    description,
+    alarmDays: template.reminderDays || 0
+  }));
+};
+
+/**
+ * Calendar event for the last day of a budget period
+ */
+const buildBudgetEvent = (budgetId, budget, preferences) => ({
+  uid: `budget-${budgetId}@paisa`,
+  date: budget.period.endDate,
+  summary: `Budget ends: ${budget.name}`,
+  description: `${formatMoney(budget.totalSpent || 0, preferences.currency, preferences.locale)} of ` +
+    `${formatMoney(budget.totalLimit, preferences.currency, preferences.locale)} spent`
+});
+
+/**
+ * READ: Whether the logged-in user has a calendar feed, and its token
+ *
+ * @route   GET /api/user/calendar-feed
+ * @access  Private
+ */
+const getCalendarFeedStatus = async (req, res) => {
+  try {
+    const userDoc = await db.collection('users').doc(req.user.uid).get();
+
+    res.status(200).json({
+      calendarFeed: (userDoc.exists && userDoc.data().calendarFeed) || null
+    });
+
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({
+      error: 'Failed to fetch calendar feed',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * CREATE: Issue a new feed token; any previous feed URL stops working
+ *
+ * @route   POST /api/user/calendar-feed
+ * @access  Private
+ */
+const createCalendarFeed = async (req, res) => {
+  try {
+    const calendarFeed = {
+      token: crypto.randomBytes(24).toString('base64url'),
+      createdAt: new Date().toISOString()
+    };
+
+    await db.collection('users').doc(req.user.uid).set({
+      calendarFeed,
+      updatedAt: calendarFeed.createdAt
+    }, { merge: true });
+
+    res.status(201).json({
+      message: 'Calendar feed created',
+      calendarFeed
+    });
+
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({
+      error: 'Failed to create calendar feed',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Revoke the feed token
+ *
+ * @route   DELETE /api/user/calendar-feed
+ * @access  Private
+ */
+const revokeCalendarFeed = async (req, res) => {
+  try {
+    await db.collection('users').doc(req.user.uid).set({
+      calendarFeed: FieldValue.delete(),
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+
+    res.status(200).json({
+      message: 'Calendar feed revoked'
+    });
+
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    res.status(500).json({
+      error: 'Failed to revoke calendar feed',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: The iCalendar feed of a token's owner
+ * Upcoming occurrences of active recurring templates (reminderDays as alarms)
+ * and the end dates of active budgets
+ *
+ * @route   GET /api/calendar/:token.ics
+ * @access  Public (the token is the credential)
+ */
+const getCalendarFeed = async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    const userSnapshot = TOKEN_PATTERN.test(token)
+      ? await db.collection('users').where('calendarFeed.token', '==', token).limit(1).get()
+      : null;
+
+    if (!userSnapshot || userSnapshot.empty) {
+      return res.status(404).json({
+        error: 'Calendar feed not found'
+      });
+    }
+
+    const userDoc = userSnapshot.docs[0];
+    const userId = userDoc.id;
+    const preferences = withPreferenceDefaults(userDoc.data().preferences);
+    const today = daysFromToday(0);
+
+    const [templatesSnapshot, budgetsSnapshot] = await Promise.all([
+      db.collection('recurring_expenses')
+        .where('userId', '==', userId)
+        .where('isActive', '==', true)
+        .get(),
+      db.collection('budgets')
+        .where('userId', '==', userId)
+        .where('isActive', '==', true)
+        .get()
+    ]);
+
+    const events = [
+      ...templatesSnapshot.docs
+        .filter(doc => doc.data().nextOccurrence)
+        .flatMap(doc => buildTemplateEvents(doc.id, doc.data(), preferences)),
+      ...budgetsSnapshot.docs
+        .filter(doc => doc.data().period.endDate >= today)
+        .map(doc => buildBudgetEvent(doc.id, doc.data(), preferences))
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="paisa.ics"',
+      'Cache-Control': 'private, max-age=900'
+    });
+    res.status(200).send(buildCalendar({ name: 'Paisa bills & budgets', events }));
+
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({
+      error: 'Failed to build calendar feed',
+      message: error.message
+    });
+  }
+};
+
+module.exports = {
+  getCalendarFeedStatus,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeed
+};
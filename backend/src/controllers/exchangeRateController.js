@@ -0,0 +1,333 @@
+// backend/src/controllers/exchangeRateController.js
+
+/**
+ * Exchange Rate Controller
+ * 
+ * Maintains each user's exchange-rate table and converts
+ * foreign-currency expenses into the user's home currency
+ */
+
+const { db } = require('../config/firebase');
+const { validateExchangeRate, sanitizeExchangeRate } = require('../models/exchangeRateModel');
+const { getRateProvider } = require('../rates');
+const { DEFAULT_CURRENCY, isValidCurrencyCode, buildConversion } = require('../utils/currency');
+
+/**
+ * Get the user's home currency from their profile preferences
+ * 
+ * @param {string} userId - User ID
+ * @returns {Promise<string>} - Currency code
+ */
+const getHomeCurrency = async (userId) => {
+  const userDoc = await db.collection('users').doc(userId).get();
+  const currency = userDoc.exists ? userDoc.data().preferences?.currency : null;
+  return isValidCurrencyCode(currency) ? currency : DEFAULT_CURRENCY;
+};
+
+/**
+ * Find the stored rate for a pair closest to a date
+ * Prefers the latest rate on or before the date, falling back to the earliest
+ * one after it. Checks both directions, inverting EUR→USD to answer USD→EUR
+ * 
+ * @returns {Promise<Object|null>} - { rate, date, source }
+ */
+const findStoredRate = async (userId, from, to, date) => {
+  const nearest = (base, quote, operator, direction) => db.collection('exchange_rates')
+    .where('userId', '==', userId)
+    .where('base', '==', base)
+    .where('quote', '==', quote)
+    .where('date', operator, date)
+    .orderBy('date', direction)
+    .limit(1)
+    .get();
+
+  const pick = async (operator, direction) => {
+    const [direct, inverse] = await Promise.all([
+      nearest(from, to, operator, direction),
+      nearest(to, from, operator, direction)
+    ]);
+
+    const candidates = [];
+    if (!direct.empty) {
+      const data = direct.docs[0].data();
+      candidates.push({ rate: data.rate, date: data.date, source: data.source });
+    }
+    if (!inverse.empty) {
+      const data = inverse.docs[0].data();
+      candidates.push({ rate: 1 / data.rate, date: data.date, source: data.source });
+    }
+
+    // Closest date wins; the direct pair wins a tie
+    candidates.sort((a, b) => direction === 'desc'
+      ? b.date.localeCompare(a.date)
+      : a.date.localeCompare(b.date));
+    return candidates[0] || null;
+  };
+
+  return (await pick('<=', 'desc')) || pick('>', 'asc');
+};
+
+/**
+ * Get the exchange rate between two currencies on a date
+ * 
+ * Order of preference:
+ * 1. A stored rate (manual or previously fetched) for exactly that date
+ * 2. The configured rate provider (result is cached in the table)
+ * 3. The stored rate closest to that date
+ * 
+ * @param {string} userId - User ID
+ * @param {string} from - Currency converting from
+ * @param {string} to - Currency converting to
+ * @param {string} date - Date (YYYY-MM-DD)
+ * @returns {Promise<Object|null>} - { rate, date, source } or null if unknown
+ */
+const getExchangeRate = async (userId, from, to, date) => {
+  if (from === to) {
+    return { rate: 1, date, source: 'identity' };
+  }
+
+  const stored = await findStoredRate(userId, from, to, date);
+  if (stored && stored.date === date) {
+    return stored;
+  }
+
+  const providerRate = await getRateProvider().getRate(from, to, date);
+  if (providerRate) {
+    await db.collection('exchange_rates').add({
+      userId,
+      base: from,
+      quote: to,
+      rate: providerRate,
+      date,
+      source: 'provider',
+      createdAt: new Date().toISOString()
+    });
+    return { rate: providerRate, date, source: 'provider' };
+  }
+
+  return stored;
+};
+
+/**
+ * Convert an amount into the user's home currency
+ * 
+ * @param {string} userId - User ID
+ * @param {number} amount - Amount in `currency`
+ * @param {string|undefined} currency - Expense currency (defaults to home currency)
+ * @param {string} date - Expense date, used to pick the rate
+ * @returns {Promise<Object>} - { conversion } or { error } when no rate is known
+ */
+const convertToHomeCurrency = async (userId, amount, currency, date) => {
+  const homeCurrency = await getHomeCurrency(userId);
+  const expenseCurrency = currency || homeCurrency;
+  const rate = await getExchangeRate(userId, expenseCurrency, homeCurrency, date.split('T')[0]);
+
+  if (!rate) {
+    return {
+      error: `No ${expenseCurrency} → ${homeCurrency} exchange rate is available for ${date}. Add one in your exchange rates.`
+    };
+  }
+
+  return {
+    conversion: buildConversion(amount, expenseCurrency, rate.rate, homeCurrency)
+  };
+};
+
+/**
+ * READ: List the user's exchange rates
+ * 
+ * @route   GET /api/exchange-rates
+ * @access  Private
+ * @query   ?base=EUR&quote=USD
+ */
+const getExchangeRates = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { base, quote } = req.query;
+
+    let query = db.collection('exchange_rates').where('userId', '==', userId);
+
+    if (base) {
+      query = query.where('base', '==', base.toUpperCase());
+    }
+    if (quote) {
+      query = query.where('quote', '==', quote.toUpperCase());
+    }
+
+    const snapshot = await query.get();
+
+    const rates = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    res.status(200).json({
+      rates,
+      homeCurrency: await getHomeCurrency(userId),
+      provider: getRateProvider().name
+    });
+
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({
+      error: 'Failed to fetch exchange rates',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * CREATE: Add (or replace) a manual exchange rate
+ * A rate for the same pair and date is overwritten
+ * 
+ * @route   POST /api/exchange-rates
+ * @access  Private
+ * @body    { base, quote, rate, date }
+ */
+const createExchangeRate = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+
+    // Step 1: Validate input
+    const validation = validateExchangeRate(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const sanitizedData = sanitizeExchangeRate(req.body);
+
+    // Step 2: Replace an existing rate for the same pair and date
+    const existing = await db.collection('exchange_rates')
+      .where('userId', '==', userId)
+      .where('base', '==', sanitizedData.base)
+      .where('quote', '==', sanitizedData.quote)
+      .where('date', '==', sanitizedData.date)
+      .limit(1)
+      .get();
+
+    const rateData = {
+      ...sanitizedData,
+      userId,
+      source: 'manual',
+      createdAt: new Date().toISOString()
+    };
+
+    const docRef = existing.empty
+      ? db.collection('exchange_rates').doc()
+      : existing.docs[0].ref;
+
+    await docRef.set(rateData);
+
+    res.status(201).json({
+      message: 'Exchange rate saved successfully',
+      rate: {
+        id: docRef.id,
+        ...rateData
+      }
+    });
+
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    res.status(500).json({
+      error: 'Failed to save exchange rate',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Remove an exchange rate
+ * 
+ * @route   DELETE /api/exchange-rates/:id
+ * @access  Private
+ */
+const deleteExchangeRate = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const docRef = db.collection('exchange_rates').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Exchange rate not found',
+        message: `No exchange rate found with ID: ${id}`
+      });
+    }
+
+    if (doc.data().userId !== req.user.uid) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to delete this exchange rate'
+      });
+    }
+
+    await docRef.delete();
+
+    res.status(200).json({
+      message: 'Exchange rate deleted successfully',
+      deletedId: id
+    });
+
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({
+      error: 'Failed to delete exchange rate',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * LOOKUP: Resolve the rate that would be used for a conversion
+ * Lets the expense form preview the home-currency amount
+ * 
+ * @route   GET /api/exchange-rates/lookup
+ * @access  Private
+ * @query   ?from=EUR&to=USD&date=2026-03-01 (to defaults to the home currency, date to today)
+ */
+const lookupExchangeRate = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const from = (req.query.from || '').toUpperCase();
+    const to = (req.query.to || await getHomeCurrency(userId)).toUpperCase();
+    const date = req.query.date || new Date().toISOString().split('T')[0];
+
+    if (!isValidCurrencyCode(from) || !isValidCurrencyCode(to)) {
+      return res.status(400).json({
+        error: 'Invalid currency',
+        message: 'from and to must be 3-letter currency codes'
+      });
+    }
+
+    const rate = await getExchangeRate(userId, from, to, date);
+
+    if (!rate) {
+      return res.status(404).json({
+        error: 'Exchange rate not found',
+        message: `No ${from} → ${to} exchange rate is available for ${date}`
+      });
+    }
+
+    res.status(200).json({ from, to, ...rate });
+
+  } catch (error) {
+    console.error('Error looking up exchange rate:', error);
+    res.status(500).json({
+      error: 'Failed to look up exchange rate',
+      message: error.message
+    });
+  }
+};
+
+module.exports = {
+  getHomeCurrency,
+  getExchangeRate,
+  convertToHomeCurrency,
+  getExchangeRates,
+  createExchangeRate,
+  deleteExchangeRate,
+  lookupExchangeRate
+};
@@ -8,8 +8,37 @@
  */
 
 const { db } = require('../config/firebase');
-const { validateExpense, sanitizeExpense, validatePartialExpense } = require('../models/expenseModel');
+const {
+  validateExpense,
+  sanitizeExpense,
+  validatePartialExpense,
+  validateSplitTotal,
+  sanitizeSplits,
+  normalizeTag,
+  sanitizeTags,
+  getCategoryAllocations
+} = require('../models/expenseModel');
+const {
+  MAX_IMPORT_ROWS,
+  CREDIT_ROW_ERROR,
+  MAX_AI_CATEGORIZATIONS,
+  AI_CONCURRENCY,
+  guessImportMapping,
+  validateImportMapping,
+  guessAmountSign,
+  mapImportRow
+} = require('../models/importModel');
 const { updateAffectedBudgets } = require('./budgetController');
+const { removeExpenseAttachments } = require('./attachmentController');
+const { getHomeCurrency, convertToHomeCurrency } = require('./exchangeRateController');
+const { suggestCategory, fallbackCategorization, DEFAULT_CATEGORIES } = require('../config/ai');
+const { parseCsv, toCsvRow } = require('../utils/csv');
+const { buildConversion } = require('../utils/currency');
+const { AggregateField } = require('firebase-admin/firestore');
+const ExcelJS = require('exceljs');
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
 
 /**
  * CREATE: Add a new expense
@@ -32,21 +61,37 @@ const createExpense = async (req, res) => {
     // Step 2: Sanitize data (trim, parse, etc.)
     const sanitizedData = sanitizeExpense(req.body);
 
-    // Step 3: Add server-side fields
+    // Step 3: Convert into the home currency (amount as entered is kept in originalAmount)
+    const { conversion, error: conversionError } = await convertToHomeCurrency(
+      req.user.uid,
+      sanitizedData.amount,
+      sanitizedData.currency,
+      sanitizedData.date
+    );
+
+    if (conversionError) {
+      return res.status(400).json({
+        error: 'Exchange rate not found',
+        message: conversionError
+      });
+    }
+
+    // Step 4: Add server-side fields
     const expenseData = {
       ...sanitizedData,
+      ...conversion,
       userId: req.user.uid,  // From auth middleware
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
 
-    // Step 4: Save to Firestore
+    // Step 5: Save to Firestore
     // addDoc generates a unique ID automatically
     const docRef = await db.collection('expenses').add(expenseData);
 
     // Update affected budgets
     await updateAffectedBudgets(req.user.uid, expenseData.date);
-    // Step 5: Return created expense with ID
+    // Step 6: Return created expense with ID
     res.status(201).json({
       message: 'Expense created successfully',
       expense: {
@@ -65,97 +110,224 @@ const createExpense = async (req, res) => {
 };
 
 /**
- * READ: Get all expenses for the logged-in user
+ * Columns written by the expense export
+ */
+const EXPORT_COLUMNS = [
+  { header: 'Date', key: 'date', width: 12 },
+  { header: 'Description', key: 'description', width: 40 },
+  { header: 'Category', key: 'category', width: 20 },
+  { header: 'Amount', key: 'amount', width: 12 },
+  { header: 'Currency', key: 'currency', width: 10 },
+  { header: 'Original Amount', key: 'originalAmount', width: 16 },
+  { header: 'Home Currency', key: 'homeCurrency', width: 14 },
+  { header: 'AI Suggested', key: 'aiSuggested', width: 14 },
+  { header: 'Tags', key: 'tags', width: 30 },
+  { header: 'Splits', key: 'splits', width: 40 },
+  { header: 'Created At', key: 'createdAt', width: 26 }
+];
+
+const EXPORT_FORMATS = ['csv', 'json', 'xlsx'];
+
+/**
+ * Flatten an expense into a CSV/XLSX row
+ * Tags are comma-separated; split lines are written as "Category: amount" pairs
+ * 
+ * @param {Object} data - Expense document data
+ * @returns {Object} - Row keyed by EXPORT_COLUMNS keys
+ */
+const toExportRow = (data) => ({
+  ...data,
+  tags: (data.tags || []).join(', '),
+  splits: (data.splits || [])
+    .map(split => `${split.category}: ${split.amount.toFixed(2)}`)
+    .join('; ')
+});
+
+// Firestore 'in' filters accept at most 30 values
+const MAX_CATEGORY_FILTERS = 30;
+const SORT_FIELDS = ['date', 'amount', 'category'];
+
+/**
+ * Parse the category filters from list query parameters
+ * Supports a single ?category= or a comma-separated ?categories=
+ * 
+ * @param {Object} filters - Query parameters
+ * @returns {Array<string>} - Category names
+ */
+const parseCategoryFilters = ({ category, categories }) => {
+  const values = [];
+  if (category) values.push(category);
+  if (categories) {
+    const list = Array.isArray(categories) ? categories : String(categories).split(',');
+    values.push(...list);
+  }
+  return [...new Set(values.map(c => c.trim()).filter(Boolean))];
+};
+
+/**
+ * Check whether an expense description matches a search term
+ * 
+ * @param {Object} expense - Expense data
+ * @param {string} search - Lowercased search term
+ * @returns {boolean}
+ */
+const matchesSearch = (expense, search) => {
+  return (expense.description || '').toLowerCase().includes(search);
+};
+
+/**
+ * Build a Firestore query for a user's expenses from list filters
+ * Requires the composite indexes in firestore.indexes.json
+ * 
+ * @param {string} userId - User ID
+ * @param {Object} filters - { category?, categories?, startDate?, endDate?, sortBy?, order? }
+ * @returns {Query} - Firestore query
+ */
+const buildExpenseQuery = (userId, filters = {}) => {
+  const { startDate, endDate, sortBy = 'date', order = 'desc' } = filters;
+  const categoryFilters = parseCategoryFilters(filters);
+
+  let query = db.collection('expenses').where('userId', '==', userId);
+
+  if (categoryFilters.length === 1) {
+    query = query.where('category', '==', categoryFilters[0]);
+  } else if (categoryFilters.length > 1) {
+    query = query.where('category', 'in', categoryFilters.slice(0, MAX_CATEGORY_FILTERS));
+  }
+  if (filters.tag) {
+    query = query.where('tags', 'array-contains', normalizeTag(filters.tag));
+  }
+  if (startDate) {
+    query = query.where('date', '>=', startDate);
+  }
+  if (endDate) {
+    query = query.where('date', '<=', endDate);
+  }
+
+  const sortField = SORT_FIELDS.includes(sortBy) ? sortBy : 'date';
+  const sortOrder = order === 'asc' ? 'asc' : 'desc';
+
+  return query.orderBy(sortField, sortOrder);
+};
+
+/**
+ * READ: Get expenses for the logged-in user (cursor-based pagination)
+ * Filtering, sorting and paging all run in Firestore; pass the returned
+ * nextCursor back as ?cursor= to fetch the following page.
+ * Description search cannot be expressed as a Firestore filter, so the filtered
+ * query is scanned in order until the page is full (totals are omitted then)
  * 
  * @route   GET /api/expenses
  * @access  Private
- * @query   ?page=1&limit=10&category=Food&startDate=2026-01-01&endDate=2026-01-31
+ * @query   ?limit=50&cursor=<expenseId>&categories=Food,Bills&tag=trip-goa-2026&startDate=2026-01-01&endDate=2026-01-31&search=uber&sortBy=date|amount|category&order=desc
  */
 const getExpenses = async (req, res) => {
   try {
     const userId = req.user.uid;
+    const { limit = 50, cursor } = req.query;
 
-    // Extract query parameters
-    const {
-      page = 1,
-      limit = 50,
-      category,
-      startDate,
-      endDate,
-      sortBy = 'date',
-      order = 'desc'
-    } = req.query;
-
-    // Convert to numbers
-    const pageNum = parseInt(page);
+    // Convert to number
     const limitNum = parseInt(limit);
+    const search = (req.query.search || '').trim().toLowerCase();
 
     // Validate pagination
-    if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
       return res.status(400).json({
         error: 'Invalid pagination parameters',
-        message: 'Page must be >= 1, limit must be between 1 and 100'
+        message: 'Limit must be between 1 and 100'
       });
     }
 
-    // Step 1: Build base query - ONLY userId filter
-    let query = db.collection('expenses').where('userId', '==', userId);
-
-    // Step 2: Execute query and get all user's expenses
-    const snapshot = await query.get();
-
-    // Step 3: Convert to array
-    let allExpenses = [];
-    snapshot.forEach(doc => {
-      allExpenses.push({
-        id: doc.id,
-        ...doc.data()
+    if (parseCategoryFilters(req.query).length > MAX_CATEGORY_FILTERS) {
+      return res.status(400).json({
+        error: 'Too many categories',
+        message: `At most ${MAX_CATEGORY_FILTERS} categories can be filtered at once`
       });
-    });
+    }
 
-    // Step 4: Apply filters in JavaScript (instead of Firestore query)
-    if (category) {
-      allExpenses = allExpenses.filter(exp => exp.category === category);
+    if (req.query.tag !== undefined && typeof req.query.tag !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid tag filter',
+        message: 'Filter by one tag at a time'
+      });
     }
 
-    if (startDate) {
-      allExpenses = allExpenses.filter(exp => exp.date >= startDate);
+    // Step 1: Build filtered + sorted query
+    const baseQuery = buildExpenseQuery(userId, req.query);
+    let pageQuery = baseQuery;
+
+    // Step 2: Resume after the cursor document
+    if (cursor) {
+      const cursorDoc = await db.collection('expenses').doc(cursor).get();
+
+      if (!cursorDoc.exists || cursorDoc.data().userId !== userId) {
+        return res.status(400).json({
+          error: 'Invalid cursor',
+          message: 'The pagination cursor is invalid or has expired'
+        });
+      }
+
+      pageQuery = pageQuery.startAfter(cursorDoc);
     }
 
-    if (endDate) {
-      allExpenses = allExpenses.filter(exp => exp.date <= endDate);
+    // Step 3a: Description search - scan in order and keep matches until the page is full
+    if (search) {
+      const matches = [];
+
+      for await (const doc of pageQuery.stream()) {
+        if (matchesSearch(doc.data(), search)) {
+          matches.push(doc);
+          if (matches.length > limitNum) break;
+        }
+      }
+
+      const docs = matches.slice(0, limitNum);
+      const hasMore = matches.length > limitNum;
+
+      return res.status(200).json({
+        expenses: docs.map(doc => ({ id: doc.id, ...doc.data() })),
+        pagination: {
+          limit: limitNum,
+          nextCursor: hasMore ? docs[docs.length - 1].id : null,
+          hasMore: hasMore,
+          total: null
+        },
+        summary: null
+      });
     }
 
-    // Step 5: Sort in JavaScript
-    const sortField = sortBy === 'amount' ? 'amount' : 'date';
-    const sortOrder = order === 'asc' ? 1 : -1;
-    
-    allExpenses.sort((a, b) => {
-      if (a[sortField] < b[sortField]) return -1 * sortOrder;
-      if (a[sortField] > b[sortField]) return 1 * sortOrder;
-      return 0;
-    });
+    // Step 3b: Fetch one extra document to know if there is another page,
+    // and aggregate totals for the whole filtered set in parallel
+    const [snapshot, aggregateSnapshot] = await Promise.all([
+      pageQuery.limit(limitNum + 1).get(),
+      baseQuery.aggregate({
+        count: AggregateField.count(),
+        totalAmount: AggregateField.sum('amount')
+      }).get()
+    ]);
 
-    // Step 6: Apply pagination
-    const startIndex = (pageNum - 1) * limitNum;
-    const endIndex = startIndex + limitNum;
-    const paginatedExpenses = allExpenses.slice(startIndex, endIndex);
+    const docs = snapshot.docs.slice(0, limitNum);
+    const hasMore = snapshot.docs.length > limitNum;
 
-    // Step 7: Calculate totals
-    const total = allExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const expenses = docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
 
-    // Step 8: Return response
+    const { count, totalAmount } = aggregateSnapshot.data();
+
+    // Step 4: Return response
     res.status(200).json({
-      expenses: paginatedExpenses,
+      expenses: expenses,
       pagination: {
-        page: pageNum,
         limit: limitNum,
-        total: allExpenses.length,
-        totalPages: Math.ceil(allExpenses.length / limitNum)
+        nextCursor: hasMore ? docs[docs.length - 1].id : null,
+        hasMore: hasMore,
+        total: count
       },
       summary: {
-        totalExpenses: allExpenses.length,
-        totalAmount: parseFloat(total.toFixed(2))
+        totalExpenses: count,
+        totalAmount: parseFloat((totalAmount || 0).toFixed(2))
       }
     });
 
@@ -258,21 +430,69 @@ const updateExpense = async (req, res) => {
       });
     }
 
-    // Step 4: Prepare update data
+    // Step 4: Make sure splits still add up once merged with the stored expense
+    // (amounts sent by clients are in the expense currency, like originalAmount)
+    const enteredAmount = req.body.amount !== undefined
+      ? req.body.amount
+      : (existingData.originalAmount ?? existingData.amount);
+
+    const splitTotalError = validateSplitTotal(
+      enteredAmount,
+      req.body.splits !== undefined ? req.body.splits : existingData.splits
+    );
+
+    if (splitTotalError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [splitTotalError]
+      });
+    }
+
+    // Step 5: Prepare update data
     const updateData = {
       ...req.body,
       updatedAt: new Date().toISOString()
     };
 
+    if (req.body.splits !== undefined) {
+      updateData.splits = sanitizeSplits(req.body.splits);
+    }
+    if (req.body.tags !== undefined) {
+      updateData.tags = sanitizeTags(req.body.tags);
+    }
+
+    // Re-convert when the amount, currency or date (and so the rate) changes
+    if (req.body.amount !== undefined || req.body.currency !== undefined || req.body.date !== undefined) {
+      const { conversion, error: conversionError } = await convertToHomeCurrency(
+        userId,
+        enteredAmount,
+        req.body.currency ? req.body.currency.toUpperCase() : existingData.currency,
+        req.body.date || existingData.date
+      );
+
+      if (conversionError) {
+        return res.status(400).json({
+          error: 'Exchange rate not found',
+          message: conversionError
+        });
+      }
+
+      Object.assign(updateData, conversion);
+    }
+
     // Remove fields that shouldn't be updated
     delete updateData.userId;
     delete updateData.createdAt;
     delete updateData.id;
+    delete updateData.attachments; // Managed by the attachment endpoints
+    delete updateData.originalAmount;
+    delete updateData.exchangeRate;
+    delete updateData.homeCurrency;
 
-    // Step 5: Update in Firestore
+    // Step 6: Update in Firestore
     await docRef.update(updateData);
 
-    // Step 6: Get updated document
+    // Step 7: Get updated document
     const updatedDoc = await docRef.get();
     // Update affected budgets
     await updateAffectedBudgets(req.user.uid, updateData.date || existingData.date);
@@ -324,8 +544,9 @@ const deleteExpense = async (req, res) => {
       });
     }
 
-    // Step 3: Delete from Firestore
+    // Step 3: Delete from Firestore, then its receipt files
     await docRef.delete();
+    await removeExpenseAttachments(expenseData);
     // Update affected budgets after deletion
     await updateAffectedBudgets(userId, expenseData.date);
     res.status(200).json({
@@ -363,28 +584,32 @@ const getExpenseStats = async (req, res) => {
       query = query.where('date', '<=', endDate);
     }
 
-    // Get all expenses
+    // Get all expenses, leaving out estimated ones until their amount is confirmed
     const snapshot = await query.get();
     
     const expenses = [];
     snapshot.forEach(doc => {
-      expenses.push(doc.data());
+      if (doc.data().status !== 'pending') {
+        expenses.push(doc.data());
+      }
     });
 
     // Calculate statistics
     const totalExpenses = expenses.length;
     const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount, 0);
     
-    // Group by category
+    // Group by category (split expenses count toward each split's category)
     const categoryBreakdown = expenses.reduce((acc, exp) => {
-      if (!acc[exp.category]) {
-        acc[exp.category] = {
-          count: 0,
-          total: 0
-        };
-      }
-      acc[exp.category].count += 1;
-      acc[exp.category].total += exp.amount;
+      getCategoryAllocations(exp).forEach(({ category, amount }) => {
+        if (!acc[category]) {
+          acc[category] = {
+            count: 0,
+            total: 0
+          };
+        }
+        acc[category].count += 1;
+        acc[category].total += amount;
+      });
       return acc;
     }, {});
 
@@ -395,6 +620,7 @@ const getExpenseStats = async (req, res) => {
       summary: {
         totalExpenses,
         totalAmount: parseFloat(totalAmount.toFixed(2)),
+        currency: await getHomeCurrency(userId),
         averageExpense: parseFloat(averageExpense.toFixed(2)),
         dateRange: {
           start: startDate || 'all time',
@@ -418,11 +644,509 @@ const getExpenseStats = async (req, res) => {
   }
 };
 
+/**
+ * STATS: Spending breakdown per tag
+ * Shows the total cost of tagged projects (e.g. a trip) across categories
+ * 
+ * @route   GET /api/expenses/stats/tags
+ * @access  Private
+ * @query   ?startDate=2026-01-01&endDate=2026-12-31&tag=trip-goa-2026
+ */
+const getTagStats = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { startDate, endDate, tag } = req.query;
+
+    if (tag !== undefined && typeof tag !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid tag filter',
+        message: 'Filter by one tag at a time'
+      });
+    }
+
+    // Build query
+    let query = db.collection('expenses').where('userId', '==', userId);
+
+    if (tag) {
+      query = query.where('tags', 'array-contains', normalizeTag(tag));
+    }
+    if (startDate) {
+      query = query.where('date', '>=', startDate);
+    }
+    if (endDate) {
+      query = query.where('date', '<=', endDate);
+    }
+
+    const snapshot = await query.get();
+
+    // Group by tag, keeping a per-category breakdown for each
+    const tagBreakdown = {};
+    snapshot.forEach(doc => {
+      const expense = doc.data();
+
+      (expense.tags || []).forEach(expenseTag => {
+        if (tag && expenseTag !== normalizeTag(tag)) return;
+
+        if (!tagBreakdown[expenseTag]) {
+          tagBreakdown[expenseTag] = {
+            count: 0,
+            total: 0,
+            firstDate: expense.date,
+            lastDate: expense.date,
+            categories: {}
+          };
+        }
+
+        const entry = tagBreakdown[expenseTag];
+        entry.count += 1;
+        entry.total += expense.amount;
+        if (expense.date < entry.firstDate) entry.firstDate = expense.date;
+        if (expense.date > entry.lastDate) entry.lastDate = expense.date;
+
+        getCategoryAllocations(expense).forEach(({ category, amount }) => {
+          entry.categories[category] = (entry.categories[category] || 0) + amount;
+        });
+      });
+    });
+
+    const tags = Object.entries(tagBreakdown)
+      .map(([name, data]) => ({
+        tag: name,
+        count: data.count,
+        total: parseFloat(data.total.toFixed(2)),
+        firstDate: data.firstDate,
+        lastDate: data.lastDate,
+        categoryBreakdown: Object.entries(data.categories)
+          .map(([category, total]) => ({
+            category,
+            total: parseFloat(total.toFixed(2))
+          }))
+          .sort((a, b) => b.total - a.total)
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    res.status(200).json({
+      tags,
+      dateRange: {
+        start: startDate || 'all time',
+        end: endDate || 'present'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error calculating tag stats:', error);
+    res.status(500).json({
+      error: 'Failed to calculate tag statistics',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Write a chunk to the response, waiting for the socket to drain when full
+ * A client that disconnects never drains, so closing ends the wait too
+ * 
+ * @param {Response} res - Express response
+ * @param {string} chunk - Data to write
+ * @returns {Promise<boolean>} - Whether the response is still open
+ */
+const writeChunk = async (res, chunk) => {
+  if (res.destroyed) return false;
+
+  if (!res.write(chunk)) {
+    await new Promise(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+
+  return !res.destroyed;
+};
+
+/**
+ * EXPORT: Download expenses as CSV, JSON or XLSX
+ * Streams documents straight from Firestore so large exports are never buffered
+ * 
+ * @route   GET /api/expenses/export
+ * @access  Private
+ * @query   ?format=csv|json|xlsx&categories=Food,Bills&tag=trip-goa-2026&startDate=2026-01-01&endDate=2026-01-31&search=uber&sortBy=date&order=desc
+ */
+const exportExpenses = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { format = 'csv' } = req.query;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid export format',
+        message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    if (req.query.tag !== undefined && typeof req.query.tag !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid tag filter',
+        message: 'Filter by one tag at a time'
+      });
+    }
+
+    const search = (req.query.search || '').trim().toLowerCase();
+    const stream = buildExpenseQuery(userId, req.query).stream();
+    const filename = `paisa-expenses-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+      const worksheet = workbook.addWorksheet('Expenses');
+      worksheet.columns = EXPORT_COLUMNS;
+
+      for await (const doc of stream) {
+        if (res.destroyed) {
+          stream.destroy();
+          return;
+        }
+        if (search && !matchesSearch(doc.data(), search)) continue;
+        worksheet.addRow(toExportRow(doc.data())).commit();
+      }
+
+      worksheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      if (!(await writeChunk(res, '['))) {
+        stream.destroy();
+        return;
+      }
+
+      let first = true;
+      for await (const doc of stream) {
+        const data = doc.data();
+        if (search && !matchesSearch(data, search)) continue;
+        const expense = { id: doc.id, ...data };
+        delete expense.userId;
+        if (!(await writeChunk(res, (first ? '' : ',') + JSON.stringify(expense)))) {
+          stream.destroy();
+          return;
+        }
+        first = false;
+      }
+
+      res.end(']');
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    if (!(await writeChunk(res, toCsvRow(EXPORT_COLUMNS.map(col => col.header))))) {
+      stream.destroy();
+      return;
+    }
+
+    for await (const doc of stream) {
+      const data = doc.data();
+      if (search && !matchesSearch(data, search)) continue;
+      const row = toExportRow(data);
+      if (!(await writeChunk(res, toCsvRow(EXPORT_COLUMNS.map(col => row[col.key]))))) {
+        stream.destroy();
+        return;
+      }
+    }
+
+    res.end();
+
+  } catch (error) {
+    console.error('Error exporting expenses:', error);
+
+    // Headers are already sent once streaming starts, so just close the connection
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+
+    res.status(500).json({
+      error: 'Failed to export expenses',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Parse the CSV payload of an import request and map every row
+ * 
+ * @param {Object} body - { csv, mapping? }
+ * @returns {Object} - { error?, headers, mapping, rows }
+ */
+const parseImportPayload = (body) => {
+  const { csv } = body;
+
+  if (!csv || typeof csv !== 'string') {
+    return { error: 'CSV content is required' };
+  }
+
+  const [headers, ...dataRows] = parseCsv(csv);
+
+  if (!headers || dataRows.length === 0) {
+    return { error: 'CSV must contain a header row and at least one data row' };
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return { error: `CSV cannot contain more than ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  const trimmedHeaders = headers.map(h => h.trim());
+  let mapping = body.mapping || guessImportMapping(trimmedHeaders);
+  const mappingValidation = validateImportMapping(mapping, trimmedHeaders);
+
+  if (!mappingValidation.isValid) {
+    return {
+      error: 'Invalid column mapping',
+      details: mappingValidation.errors,
+      headers: trimmedHeaders,
+      mapping
+    };
+  }
+
+  if (!mapping.amountSign) {
+    const amountIndex = trimmedHeaders.indexOf(mapping.amount);
+    mapping = { ...mapping, amountSign: guessAmountSign(dataRows.map(cells => cells[amountIndex])) };
+  }
+
+  const rows = dataRows.map((cells, index) => ({
+    rowNumber: index + 2, // 1-based, after the header row
+    ...mapImportRow(cells, trimmedHeaders, mapping)
+  }));
+
+  return { headers: trimmedHeaders, mapping, rows };
+};
+
+/**
+ * Validate a mapped import row
+ * Rows without a category pass with a placeholder (they are categorized on import);
+ * credits and refunds are rejected
+ * 
+ * @param {Object} row - { data, isCredit }
+ * @returns {Object} - { needsCategory, isValid, errors }
+ */
+const checkImportRow = ({ data, isCredit }) => {
+  const needsCategory = !data.category;
+  const validation = validateExpense(needsCategory ? { ...data, category: 'pending' } : data);
+  const errors = isCredit ? [CREDIT_ROW_ERROR, ...validation.errors] : validation.errors;
+
+  return { needsCategory, isValid: errors.length === 0, errors };
+};
+
+/**
+ * Categorize import rows that have no category, once per distinct description
+ * Up to MAX_AI_CATEGORIZATIONS descriptions go to the AI, AI_CONCURRENCY at a
+ * time; the rest use the keyword rules
+ * 
+ * @param {Array<Object>} rows - Valid import rows without a category
+ * @param {Array<string>} categories - User's categories
+ */
+const categorizeImportRows = async (rows, categories) => {
+  const descriptions = new Map();
+  rows.forEach(({ data }) => {
+    const key = data.description.toLowerCase();
+    if (!descriptions.has(key)) descriptions.set(key, data);
+  });
+
+  const entries = [...descriptions.entries()];
+  const aiEntries = entries.slice(0, MAX_AI_CATEGORIZATIONS);
+  const suggestions = new Map();
+
+  entries.slice(MAX_AI_CATEGORIZATIONS).forEach(([key, data]) => {
+    suggestions.set(key, fallbackCategorization(data.description, categories).category);
+  });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < aiEntries.length) {
+      const [key, data] = aiEntries[next++];
+      const suggestion = await suggestCategory(data.description, data.amount, categories);
+      suggestions.set(key, suggestion.category);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(AI_CONCURRENCY, aiEntries.length) }, worker));
+
+  rows.forEach(({ data }) => {
+    data.category = suggestions.get(data.description.toLowerCase());
+    data.aiSuggested = true;
+  });
+};
+
+/**
+ * Get the user's categories (falls back to defaults)
+ * 
+ * @param {string} userId - User ID
+ * @returns {Promise<Array>} - Category names
+ */
+const getUserCategories = async (userId) => {
+  try {
+    const userDoc = await db.collection('users').doc(userId).get();
+    if (userDoc.exists) {
+      const userData = userDoc.data();
+      if (userData.preferences && userData.preferences.defaultCategories) {
+        return userData.preferences.defaultCategories;
+      }
+    }
+  } catch (error) {
+    console.log('Could not fetch user categories, using defaults');
+  }
+  return DEFAULT_CATEGORIES;
+};
+
+/**
+ * IMPORT: Preview a CSV bank statement before importing
+ * Rows without a category are flagged for AI categorization on import
+ * 
+ * @route   POST /api/expenses/import/preview
+ * @access  Private
+ * @body    { csv, mapping?: { amount, date, description, category?, dateFormat?, amountSign? } }
+ */
+const previewImport = async (req, res) => {
+  try {
+    const parsed = parseImportPayload(req.body);
+
+    if (parsed.error) {
+      return res.status(400).json({
+        error: parsed.error,
+        details: parsed.details,
+        headers: parsed.headers,
+        mapping: parsed.mapping
+      });
+    }
+
+    const rows = parsed.rows.map(row => ({
+      rowNumber: row.rowNumber,
+      data: row.data,
+      isCredit: row.isCredit,
+      ...checkImportRow(row)
+    }));
+
+    res.status(200).json({
+      headers: parsed.headers,
+      mapping: parsed.mapping,
+      rows: rows,
+      summary: {
+        total: rows.length,
+        valid: rows.filter(r => r.isValid).length,
+        invalid: rows.filter(r => !r.isValid).length,
+        credits: rows.filter(r => r.isCredit).length,
+        needsCategory: rows.filter(r => r.isValid && r.needsCategory).length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error previewing import:', error);
+    res.status(500).json({
+      error: 'Failed to preview import',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * IMPORT: Import expenses from a CSV bank statement
+ * Invalid rows are skipped and reported back
+ * 
+ * @route   POST /api/expenses/import
+ * @access  Private
+ * @body    { csv, mapping?: { amount, date, description, category?, dateFormat?, amountSign? } }
+ */
+const importExpenses = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const parsed = parseImportPayload(req.body);
+
+    if (parsed.error) {
+      return res.status(400).json({
+        error: parsed.error,
+        details: parsed.details
+      });
+    }
+
+    // Step 1: Validate each row (credits and refunds are skipped)
+    const validRows = [];
+    const skipped = [];
+
+    parsed.rows.forEach(row => {
+      const check = checkImportRow(row);
+      if (check.isValid) {
+        validRows.push(row);
+      } else {
+        skipped.push({ rowNumber: row.rowNumber, errors: check.errors });
+      }
+    });
+
+    if (validRows.length === 0) {
+      return res.status(400).json({
+        error: 'No valid rows to import',
+        skipped: skipped
+      });
+    }
+
+    // Step 2: Categorize valid rows without a category
+    const uncategorized = validRows.filter(row => !row.data.category);
+    if (uncategorized.length > 0) {
+      await categorizeImportRows(uncategorized, await getUserCategories(userId));
+    }
+
+    // Step 3: Write in batches (bank statements are in the home currency)
+    const expenses = validRows.map(row => sanitizeExpense(row.data));
+    const now = new Date().toISOString();
+    const homeCurrency = await getHomeCurrency(userId);
+    for (let i = 0; i < expenses.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      expenses.slice(i, i + BATCH_LIMIT).forEach(expense => {
+        batch.set(db.collection('expenses').doc(), {
+          ...expense,
+          ...buildConversion(expense.amount, homeCurrency, 1, homeCurrency),
+          userId: userId,
+          createdAt: now,
+          updatedAt: now
+        });
+      });
+      await batch.commit();
+    }
+
+    // Step 4: Refresh budgets once for the whole imported date range
+    const dates = expenses.map(exp => exp.date).sort();
+    await updateAffectedBudgets(userId, dates[0], dates[dates.length - 1]);
+
+    res.status(201).json({
+      message: `Imported ${expenses.length} expenses`,
+      imported: expenses.length,
+      skipped: skipped,
+      aiCategorized: uncategorized.length
+    });
+
+  } catch (error) {
+    console.error('Error importing expenses:', error);
+    res.status(500).json({
+      error: 'Failed to import expenses',
+      message: error.message
+    });
+  }
+};
+
 module.exports = {
   createExpense,
   getExpenses,
   getExpenseById,
   updateExpense,
   deleteExpense,
-  getExpenseStats
+  getExpenseStats,
+  getTagStats,
+  exportExpenses,
+  previewImport,
+  importExpenses
 };
\ No newline at end of file
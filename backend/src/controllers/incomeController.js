@@ -0,0 +1,436 @@
+// backend/src/controllers/incomeController.js
+
+/**
+ * Income Controller
+ * 
+ * Handles income CRUD and the monthly cash-flow summary
+ * (income vs expenses, net savings and savings rate)
+ */
+
+const { db } = require('../config/firebase');
+const {
+  INCOME_CATEGORIES,
+  validateIncome,
+  sanitizeIncome,
+  validatePartialIncome
+} = require('../models/incomeModel');
+const { getHomeCurrency, convertToHomeCurrency } = require('./exchangeRateController');
+const { roundMoney } = require('../utils/currency');
+
+const MAX_CASH_FLOW_MONTHS = 24;
+
+/**
+ * CREATE: Record income
+ * 
+ * @route   POST /api/income
+ * @access  Private
+ * @body    { amount, category, description, date, currency? }
+ */
+const createIncome = async (req, res) => {
+  try {
+    // Step 1: Validate input data
+    const validation = validateIncome(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    // Step 2: Sanitize data
+    const sanitizedData = sanitizeIncome(req.body);
+
+    // Step 3: Convert into the home currency
+    const { conversion, error: conversionError } = await convertToHomeCurrency(
+      req.user.uid,
+      sanitizedData.amount,
+      sanitizedData.currency,
+      sanitizedData.date
+    );
+
+    if (conversionError) {
+      return res.status(400).json({
+        error: 'Exchange rate not found',
+        message: conversionError
+      });
+    }
+
+    // Step 4: Save to Firestore
+    const incomeData = {
+      ...sanitizedData,
+      ...conversion,
+      userId: req.user.uid,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    const docRef = await db.collection('income').add(incomeData);
+
+    res.status(201).json({
+      message: 'Income recorded successfully',
+      income: {
+        id: docRef.id,
+        ...incomeData
+      }
+    });
+
+  } catch (error) {
+    console.error('Error creating income:', error);
+    res.status(500).json({
+      error: 'Failed to record income',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: Get income for the logged-in user, newest first
+ * 
+ * @route   GET /api/income
+ * @access  Private
+ * @query   ?limit=50&cursor=<incomeId>&category=Salary&startDate=2026-01-01&endDate=2026-01-31
+ */
+const getIncome = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { limit = 50, cursor, category, startDate, endDate } = req.query;
+    const limitNum = parseInt(limit);
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        error: 'Invalid pagination parameters',
+        message: 'Limit must be between 1 and 100'
+      });
+    }
+
+    // Step 1: Build filtered query
+    let query = db.collection('income').where('userId', '==', userId);
+
+    if (category) {
+      query = query.where('category', '==', category);
+    }
+    if (startDate) {
+      query = query.where('date', '>=', startDate);
+    }
+    if (endDate) {
+      query = query.where('date', '<=', endDate);
+    }
+
+    query = query.orderBy('date', 'desc');
+
+    // Step 2: Resume after the cursor document
+    if (cursor) {
+      const cursorDoc = await db.collection('income').doc(cursor).get();
+
+      if (!cursorDoc.exists || cursorDoc.data().userId !== userId) {
+        return res.status(400).json({
+          error: 'Invalid cursor',
+          message: 'The pagination cursor is invalid or has expired'
+        });
+      }
+
+      query = query.startAfter(cursorDoc);
+    }
+
+    // Step 3: Fetch one extra document to know if there is another page
+    const snapshot = await query.limit(limitNum + 1).get();
+    const docs = snapshot.docs.slice(0, limitNum);
+    const hasMore = snapshot.docs.length > limitNum;
+
+    res.status(200).json({
+      income: docs.map(doc => ({ id: doc.id, ...doc.data() })),
+      pagination: {
+        limit: limitNum,
+        nextCursor: hasMore ? docs[docs.length - 1].id : null,
+        hasMore: hasMore
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching income:', error);
+    res.status(500).json({
+      error: 'Failed to fetch income',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Update an income entry
+ * 
+ * @route   PUT /api/income/:id
+ * @access  Private
+ */
+const updateIncome = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.uid;
+
+    // Step 1: Validate partial data
+    const validation = validatePartialIncome(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    // Step 2: Get existing entry and check ownership
+    const docRef = db.collection('income').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Income not found',
+        message: `No income found with ID: ${id}`
+      });
+    }
+
+    const existingData = doc.data();
+    if (existingData.userId !== userId) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this income'
+      });
+    }
+
+    // Step 3: Prepare update data
+    const updateData = {
+      ...req.body,
+      updatedAt: new Date().toISOString()
+    };
+
+    if (req.body.category !== undefined) updateData.category = req.body.category.trim();
+    if (req.body.description !== undefined) updateData.description = req.body.description.trim();
+
+    // Re-convert when the amount, currency or date (and so the rate) changes
+    if (req.body.amount !== undefined || req.body.currency !== undefined || req.body.date !== undefined) {
+      const { conversion, error: conversionError } = await convertToHomeCurrency(
+        userId,
+        req.body.amount !== undefined ? req.body.amount : (existingData.originalAmount ?? existingData.amount),
+        req.body.currency ? req.body.currency.toUpperCase() : existingData.currency,
+        req.body.date || existingData.date
+      );
+
+      if (conversionError) {
+        return res.status(400).json({
+          error: 'Exchange rate not found',
+          message: conversionError
+        });
+      }
+
+      Object.assign(updateData, conversion);
+    }
+
+    // Remove fields that shouldn't be updated
+    delete updateData.userId;
+    delete updateData.createdAt;
+    delete updateData.id;
+    delete updateData.originalAmount;
+    delete updateData.exchangeRate;
+    delete updateData.homeCurrency;
+    delete updateData.recurringExpenseId;
+
+    // Step 4: Update in Firestore
+    await docRef.update(updateData);
+    const updatedDoc = await docRef.get();
+
+    res.status(200).json({
+      message: 'Income updated successfully',
+      income: {
+        id: updatedDoc.id,
+        ...updatedDoc.data()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error updating income:', error);
+    res.status(500).json({
+      error: 'Failed to update income',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Delete an income entry
+ * 
+ * @route   DELETE /api/income/:id
+ * @access  Private
+ */
+const deleteIncome = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.uid;
+
+    const docRef = db.collection('income').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Income not found',
+        message: `No income found with ID: ${id}`
+      });
+    }
+
+    if (doc.data().userId !== userId) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to delete this income'
+      });
+    }
+
+    await docRef.delete();
+
+    res.status(200).json({
+      message: 'Income deleted successfully',
+      deletedId: id
+    });
+
+  } catch (error) {
+    console.error('Error deleting income:', error);
+    res.status(500).json({
+      error: 'Failed to delete income',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Savings rate: share of income left after expenses (null without income)
+ * 
+ * @param {number} income - Income total
+ * @param {number} expenses - Expense total
+ * @returns {number|null} - Percentage
+ */
+const calculateSavingsRate = (income, expenses) => {
+  if (income <= 0) return null;
+  return parseFloat((((income - expenses) / income) * 100).toFixed(2));
+};
+
+/**
+ * ANALYTICS: Monthly cash flow
+ * Income, expenses, net savings and savings rate for the last N months
+ * (current month included), oldest first
+ * 
+ * @route   GET /api/income/cash-flow
+ * @access  Private
+ * @query   ?months=6
+ */
+const getCashFlow = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const months = parseInt(req.query.months || 6);
+
+    if (isNaN(months) || months < 1 || months > MAX_CASH_FLOW_MONTHS) {
+      return res.status(400).json({
+        error: 'Invalid months',
+        message: `Months must be between 1 and ${MAX_CASH_FLOW_MONTHS}`
+      });
+    }
+
+    // Step 1: Work out the month buckets (YYYY-MM)
+    const now = new Date();
+    const monthKeys = [];
+    for (let i = months - 1; i >= 0; i--) {
+      const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+      monthKeys.push(month.toISOString().slice(0, 7));
+    }
+    const startDate = `${monthKeys[0]}-01`;
+    const endDate = `${monthKeys[monthKeys.length - 1]}-31`;
+
+    // Step 2: Load income and expenses for the whole range
+    const [incomeSnapshot, expenseSnapshot] = await Promise.all([
+      db.collection('income')
+        .where('userId', '==', userId)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .get(),
+      db.collection('expenses')
+        .where('userId', '==', userId)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .get()
+    ]);
+
+    // Step 3: Sum per month
+    const buckets = Object.fromEntries(monthKeys.map(key => [key, { income: 0, expenses: 0 }]));
+    const incomeByCategory = {};
+
+    incomeSnapshot.forEach(doc => {
+      const income = doc.data();
+      const bucket = buckets[income.date.slice(0, 7)];
+      if (!bucket) return;
+      bucket.income += income.amount;
+      incomeByCategory[income.category] = (incomeByCategory[income.category] || 0) + income.amount;
+    });
+
+    // Estimated expenses count once their amount is confirmed
+    expenseSnapshot.forEach(doc => {
+      const expense = doc.data();
+      if (expense.status === 'pending') return;
+      const bucket = buckets[expense.date.slice(0, 7)];
+      if (bucket) bucket.expenses += expense.amount;
+    });
+
+    const monthly = monthKeys.map(month => {
+      const { income, expenses } = buckets[month];
+      return {
+        month,
+        income: roundMoney(income),
+        expenses: roundMoney(expenses),
+        net: roundMoney(income - expenses),
+        savingsRate: calculateSavingsRate(income, expenses)
+      };
+    });
+
+    const totalIncome = monthly.reduce((sum, m) => sum + m.income, 0);
+    const totalExpenses = monthly.reduce((sum, m) => sum + m.expenses, 0);
+
+    res.status(200).json({
+      monthly,
+      summary: {
+        totalIncome: roundMoney(totalIncome),
+        totalExpenses: roundMoney(totalExpenses),
+        net: roundMoney(totalIncome - totalExpenses),
+        savingsRate: calculateSavingsRate(totalIncome, totalExpenses),
+        currency: await getHomeCurrency(userId)
+      },
+      incomeByCategory: Object.entries(incomeByCategory)
+        .map(([category, total]) => ({ category, total: roundMoney(total) }))
+        .sort((a, b) => b.total - a.total),
+      dateRange: {
+        start: startDate,
+        end: endDate
+      }
+    });
+
+  } catch (error) {
+    console.error('Error calculating cash flow:', error);
+    res.status(500).json({
+      error: 'Failed to calculate cash flow',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: Suggested income categories
+ * 
+ * @route   GET /api/income/categories
+ * @access  Private
+ */
+const getIncomeCategories = (req, res) => {
+  res.status(200).json({ categories: INCOME_CATEGORIES });
+};
+
+module.exports = {
+  createIncome,
+  getIncome,
+  updateIncome,
+  deleteIncome,
+  getCashFlow,
+  getIncomeCategories
+};
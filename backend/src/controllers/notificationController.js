@@ -0,0 +1,574 @@
+// backend/src/controllers/notificationController.js
+
+/**
+ * Notification Controller
+ *
+ * The in-app notification feed: recurring reminders and budget alerts stored
+ * in the `notifications` collection by the in-app notifier, with read/unread state.
+ * Also the channels notifications go out on, the user's outgoing webhooks and
+ * the log of deliveries (see notifiers/dispatcher)
+ */
+
+const crypto = require('crypto');
+const { db } = require('../config/firebase');
+const {
+  ALERT_CHANNELS,
+  MAX_WEBHOOKS,
+  validateAlertChannels,
+  withAlertChannelDefaults,
+  validateWebhook,
+  sanitizeWebhook
+} = require('../models/notificationModel');
+const { getNotifiers } = require('../notifiers');
+const { hasDueDeliveries, retryDueDeliveries } = require('../notifiers/dispatcher');
+const { runJob } = require('../utils/jobRuns');
+const { checkPublicUrl } = require('../utils/publicAddress');
+
+// Firestore batches take at most 500 writes
+const BATCH_LIMIT = 500;
+
+/**
+ * Number of unread notifications of a user
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<number>}
+ */
+const countUnread = async (userId) => {
+  const snapshot = await db.collection('notifications')
+    .where('userId', '==', userId)
+    .where('read', '==', false)
+    .count()
+    .get();
+
+  return snapshot.data().count;
+};
+
+/**
+ * READ: The logged-in user's notifications, newest first
+ *
+ * @route   GET /api/notifications
+ * @access  Private
+ * @query   ?unread=true&limit=20
+ */
+const getNotifications = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { unread, limit = 20 } = req.query;
+    const limitNum = parseInt(limit);
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 100'
+      });
+    }
+
+    let query = db.collection('notifications').where('userId', '==', userId);
+
+    if (unread === 'true') {
+      query = query.where('read', '==', false);
+    }
+
+    const [snapshot, unreadCount] = await Promise.all([
+      query.orderBy('createdAt', 'desc').limit(limitNum).get(),
+      countUnread(userId)
+    ]);
+
+    res.status(200).json({
+      notifications: snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })),
+      unreadCount
+    });
+
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      error: 'Failed to fetch notifications',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Mark a notification as read or unread
+ *
+ * @route   PATCH /api/notifications/:id
+ * @access  Private
+ * @body    { read: boolean }
+ */
+const updateNotification = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { read } = req.body;
+
+    if (typeof read !== 'boolean') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['read must be a boolean']
+      });
+    }
+
+    const docRef = db.collection('notifications').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Notification not found'
+      });
+    }
+
+    if (doc.data().userId !== req.user.uid) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this notification'
+      });
+    }
+
+    const updateData = {
+      read,
+      readAt: read ? new Date().toISOString() : null
+    };
+    await docRef.update(updateData);
+
+    res.status(200).json({
+      message: `Notification marked as ${read ? 'read' : 'unread'}`,
+      notification: {
+        id,
+        ...doc.data(),
+        ...updateData
+      },
+      unreadCount: await countUnread(req.user.uid)
+    });
+
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    res.status(500).json({
+      error: 'Failed to update notification',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Mark all of the logged-in user's notifications as read
+ *
+ * @route   POST /api/notifications/read-all
+ * @access  Private
+ */
+const markAllNotificationsRead = async (req, res) => {
+  try {
+    const readAt = new Date().toISOString();
+
+    const snapshot = await db.collection('notifications')
+      .where('userId', '==', req.user.uid)
+      .where('read', '==', false)
+      .get();
+
+    for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.update(doc.ref, { read: true, readAt }));
+      await batch.commit();
+    }
+
+    const updated = snapshot.size;
+
+    res.status(200).json({
+      message: `${updated} notification${updated === 1 ? '' : 's'} marked as read`,
+      updated
+    });
+
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({
+      error: 'Failed to mark notifications as read',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: Notification channels, the channels the server has configured, and webhooks
+ *
+ * @route   GET /api/notifications/settings
+ * @access  Private
+ */
+const getNotificationSettings = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+
+    const [userDoc, webhooksSnapshot] = await Promise.all([
+      db.collection('users').doc(userId).get(),
+      db.collection('webhooks').where('userId', '==', userId).get()
+    ]);
+
+    const webhooks = webhooksSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    res.status(200).json({
+      alertChannels: withAlertChannelDefaults(userDoc.exists ? userDoc.data().alertChannels : undefined),
+      availableChannels: getNotifiers().map(notifier => notifier.name).filter(name => ALERT_CHANNELS.includes(name)),
+      webhooks
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification settings:', error);
+    res.status(500).json({
+      error: 'Failed to fetch notification settings',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Choose the channels notifications are sent on
+ *
+ * @route   PUT /api/notifications/settings
+ * @access  Private
+ * @body    { alertChannels: ['in-app', 'smtp', 'webhook'] }
+ */
+const updateNotificationSettings = async (req, res) => {
+  try {
+    const validation = validateAlertChannels(req.body.alertChannels);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const alertChannels = [...new Set(req.body.alertChannels)];
+
+    await db.collection('users').doc(req.user.uid).set({
+      alertChannels,
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+
+    res.status(200).json({
+      message: 'Notification settings updated',
+      alertChannels
+    });
+
+  } catch (error) {
+    console.error('Error updating notification settings:', error);
+    res.status(500).json({
+      error: 'Failed to update notification settings',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Load a webhook of the logged-in user
+ * Answers the request itself (404/403) and returns null when it cannot go on
+ *
+ * @returns {Promise<Object|null>} - { ref, webhook }
+ */
+const loadWebhook = async (req, res) => {
+  const ref = db.collection('webhooks').doc(req.params.id);
+  const doc = await ref.get();
+
+  if (!doc.exists) {
+    res.status(404).json({
+      error: 'Webhook not found'
+    });
+    return null;
+  }
+
+  if (doc.data().userId !== req.user.uid) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You do not have permission to access this webhook'
+    });
+    return null;
+  }
+
+  return { ref, webhook: { id: doc.id, ...doc.data() } };
+};
+
+/**
+ * CREATE: Add an outgoing webhook for notifications
+ * Its secret signs every request (see notifiers/webhookNotifier), and its URL
+ * must be https and resolve to a public address (see utils/publicAddress)
+ *
+ * @route   POST /api/notifications/webhooks
+ * @access  Private
+ * @body    { url, description? }
+ */
+const createWebhook = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const validation = validateWebhook(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const urlError = await checkPublicUrl(req.body.url.trim());
+    if (urlError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [urlError]
+      });
+    }
+
+    const existing = await db.collection('webhooks').where('userId', '==', userId).get();
+    if (existing.size >= MAX_WEBHOOKS) {
+      return res.status(400).json({
+        error: 'Too many webhooks',
+        message: `You can add up to ${MAX_WEBHOOKS} webhooks`
+      });
+    }
+
+    const now = new Date().toISOString();
+    const webhookData = {
+      description: null,
+      enabled: true,
+      ...sanitizeWebhook(req.body),
+      secret: `whsec_${crypto.randomBytes(24).toString('base64url')}`,
+      userId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const docRef = await db.collection('webhooks').add(webhookData);
+
+    res.status(201).json({
+      message: 'Webhook created',
+      webhook: {
+        id: docRef.id,
+        ...webhookData
+      }
+    });
+
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      error: 'Failed to create webhook',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Change a webhook's URL or description, or turn it on or off
+ *
+ * @route   PATCH /api/notifications/webhooks/:id
+ * @access  Private
+ * @body    { url?, description?, enabled? }
+ */
+const updateWebhook = async (req, res) => {
+  try {
+    const validation = validateWebhook(req.body, true);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    if (req.body.url !== undefined) {
+      const urlError = await checkPublicUrl(req.body.url.trim());
+      if (urlError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: [urlError]
+        });
+      }
+    }
+
+    const loaded = await loadWebhook(req, res);
+    if (!loaded) return;
+
+    const updateData = {
+      ...sanitizeWebhook(req.body),
+      updatedAt: new Date().toISOString()
+    };
+    await loaded.ref.update(updateData);
+
+    res.status(200).json({
+      message: 'Webhook updated',
+      webhook: {
+        ...loaded.webhook,
+        ...updateData
+      }
+    });
+
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({
+      error: 'Failed to update webhook',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Remove a webhook (pending retries to it are dropped)
+ *
+ * @route   DELETE /api/notifications/webhooks/:id
+ * @access  Private
+ */
+const deleteWebhook = async (req, res) => {
+  try {
+    const loaded = await loadWebhook(req, res);
+    if (!loaded) return;
+
+    await loaded.ref.delete();
+
+    res.status(200).json({
+      message: 'Webhook deleted'
+    });
+
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      error: 'Failed to delete webhook',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * CREATE: Send a signed test event to a webhook (once, not retried or logged)
+ *
+ * @route   POST /api/notifications/webhooks/:id/test
+ * @access  Private
+ */
+const testWebhook = async (req, res) => {
+  try {
+    const notifier = getNotifiers().find(candidate => candidate.name === 'webhook');
+    if (!notifier) {
+      return res.status(400).json({
+        error: 'Webhooks are not enabled',
+        message: 'The server does not have the webhook channel in NOTIFIERS'
+      });
+    }
+
+    const loaded = await loadWebhook(req, res);
+    if (!loaded) return;
+
+    try {
+      await notifier.deliver(loaded.webhook, {
+        type: 'test',
+        title: 'Test event',
+        message: 'This webhook is set up to receive Paisa notifications.',
+        link: '/settings'
+      }, {
+        id: `test_${crypto.randomUUID()}`,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error(`Webhook test ${loaded.webhook.id} failed:`, error.message);
+      return res.status(502).json({
+        error: 'Webhook delivery failed',
+        message: 'The test event was not delivered. Check that the URL is reachable over https and answers with a 2xx status'
+      });
+    }
+
+    res.status(200).json({
+      message: 'Test event delivered'
+    });
+
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    res.status(500).json({
+      error: 'Failed to test webhook',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: Delivery log of the logged-in user's notifications, newest first
+ *
+ * @route   GET /api/notifications/deliveries
+ * @access  Private
+ * @query   ?limit=20
+ */
+const getNotificationDeliveries = async (req, res) => {
+  try {
+    const { limit = 20 } = req.query;
+    const limitNum = parseInt(limit);
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 100'
+      });
+    }
+
+    const snapshot = await db.collection('notification_deliveries')
+      .where('userId', '==', req.user.uid)
+      .orderBy('createdAt', 'desc')
+      .limit(limitNum)
+      .get();
+
+    // The stored notification is only needed for retries
+    const deliveries = snapshot.docs.map(doc => {
+      const { notification, ...delivery } = doc.data();
+      return { id: doc.id, ...delivery };
+    });
+
+    res.status(200).json({
+      deliveries
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification deliveries:', error);
+    res.status(500).json({
+      error: 'Failed to fetch notification deliveries',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * CRON JOB: Retry notification deliveries whose next attempt is due
+ * and record the run in the job history
+ * The cron runs every few minutes, so its runs are only recorded
+ * when something is due
+ *
+ * @param {string} trigger - 'cron', 'startup' or 'manual'
+ * @returns {Promise<Object>} - { success, runId, sent, ... }
+ */
+const retryNotificationDeliveries = async (trigger = 'cron') => {
+  if (trigger === 'cron' && !(await hasDueDeliveries())) {
+    return { success: true, runId: null, status: 'idle', due: 0, sent: 0, retrying: 0, failures: [] };
+  }
+
+  const run = await runJob('retry-deliveries', trigger, async () => {
+    const result = await retryDueDeliveries();
+    console.log(`[CRON] Retried ${result.due} notification deliveries, ${result.sent} sent`);
+    return result;
+  });
+
+  return {
+    success: run.status !== 'failed',
+    runId: run.runId,
+    status: run.status,
+    ...run.result,
+    error: run.error
+  };
+};
+
+module.exports = {
+  getNotifications,
+  updateNotification,
+  markAllNotificationsRead,
+  getNotificationSettings,
+  updateNotificationSettings,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  testWebhook,
+  getNotificationDeliveries,
+  retryNotificationDeliveries
+};
@@ -7,43 +7,463 @@
  */
 
 const { db } = require('../config/firebase');
+const { FieldValue } = require('firebase-admin/firestore');
 const {
   validateRecurringExpense,
   sanitizeRecurringExpense,
-  validatePartialRecurringExpense
+  validatePartialRecurringExpense,
+  validateSchedulePreview,
+  validateOccurrenceException,
+  sanitizeOccurrenceException,
+  sanitizeSchedule,
+  MAX_REMINDER_DAYS
 } = require('../models/recurringExpenseModel');
+const { withPreferenceDefaults } = require('../models/userPreferencesModel');
+const {
+  getTemplateRule,
+  listOccurrences,
+  getNextOccurrence,
+  occurrencesPerYear
+} = require('../utils/recurrence');
+const { runJob } = require('../utils/jobRuns');
+const { formatMoney } = require('../utils/currency');
+const { normalizeMerchant, detectSubscriptions, getCoveredOccurrence } = require('../utils/subscriptions');
+const { startPriceHistory, recordPrice, getRecentIncrease } = require('../utils/priceHistory');
+const { dispatch } = require('../notifiers/dispatcher');
+const { updateAffectedBudgets } = require('./budgetController');
+
+// Upper bound on occurrences one template can catch up in a single run;
+// anything beyond is picked up by the next run
+const MAX_CATCH_UP_OCCURRENCES = 366;
+
+// Past amounts averaged for the estimate of an estimated-amount template
+const ESTIMATE_WINDOW = 3;
+
+// Price increases within this many days are shown in the summary
+const RECENT_INCREASE_DAYS = 90;
+
+// Months of expense history scanned for subscriptions
+const DEFAULT_DETECTION_MONTHS = 12;
+const MAX_DETECTION_MONTHS = 36;
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+// Occurrences returned by the schedule endpoints
+const DEFAULT_SCHEDULE_COUNT = 12;
+const MAX_SCHEDULE_COUNT = 100;
+
+/**
+ * Date a number of days after another (YYYY-MM-DD)
+ */
+const addDays = (date, days) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Build the expense (or income, for income templates) a template generates
+ * Templates saved before income support have no type and generate expenses
+ * 
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @param {Object} occurrence - { occurrenceDate, date, amount, estimated? } (see toOccurrence)
+ * @returns {Object} - { collection, entry }
+ */
+const buildGeneratedEntry = (templateId, template, occurrence) => {
+  const entry = {
+    userId: template.userId,
+    amount: occurrence.amount,
+    category: template.category,
+    description: template.description,
+    date: occurrence.date,
+    recurringExpenseId: templateId, // Link to recurring template
+    occurrenceDate: occurrence.occurrenceDate, // Scheduled date, differs from date when moved
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+
+  if (template.type === 'income') {
+    return { collection: 'income', entry };
+  }
+
+  // Estimates wait in the confirmation inbox and do not count toward budgets yet
+  if (occurrence.estimated) {
+    entry.status = 'pending';
+    entry.estimatedAmount = occurrence.amount;
+  }
+
+  return { collection: 'expenses', entry: { ...entry, aiSuggested: false } };
+};
+
+/**
+ * Record the amounts of generated occurrences in a template's price history
+ * Estimates are left out until they are confirmed, and one-off amounts
+ * (occurrence overrides) are left out entirely so the next regular charge
+ * is not compared against them
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {Array<Object>} occurrences - Generated occurrences (see toOccurrence)
+ * @returns {Object} - { priceHistory?, changes: flagged history entries }
+ */
+const recordCharges = (template, occurrences) => {
+  let current = template;
+  const changes = [];
+
+  occurrences
+    .filter(occurrence => !occurrence.estimated && !occurrence.overridden)
+    .forEach(occurrence => {
+      const recorded = recordPrice(current, { amount: occurrence.amount, date: occurrence.date, source: 'charge' });
+      if (!recorded) return;
+      current = { ...current, priceHistory: recorded.priceHistory };
+      if (recorded.entry.flagged) changes.push(recorded.entry);
+    });
+
+  return current === template ? { changes } : { priceHistory: current.priceHistory, changes };
+};
+
+/**
+ * User preferences used to word notifications (currency, locale)
+ * 
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>}
+ */
+const getNotificationPreferences = async (userId) => {
+  const userDoc = await db.collection('users').doc(userId).get();
+  return withPreferenceDefaults(userDoc.exists ? userDoc.data().preferences : {});
+};
+
+/**
+ * Tell the user a template's charge went up by more than its alert threshold
+ * Sent in the background, since template edits and confirmations wait for it
+ * 
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @param {Object} change - Flagged price history entry
+ */
+const notifyPriceIncrease = async (templateId, template, change) => {
+  if (change.changePercent <= 0) return;
+
+  const { currency, locale } = await getNotificationPreferences(template.userId);
+  await dispatch({
+    userId: template.userId,
+    type: 'price-change',
+    title: `${template.templateName} went up ${change.changePercent}%`,
+    message: `${template.templateName} charged ${formatMoney(change.amount, currency, locale)} on ${change.date}, `
+      + `up from ${formatMoney(change.previousAmount, currency, locale)}.`,
+    link: '/recurring',
+    data: { recurringExpenseId: templateId, ...change }
+  }, { background: true });
+};
+
+/**
+ * Rolling average of the last confirmed amounts generated by a template
+ * Falls back to the template amount until there is any history
+ * 
+ * @param {Transaction} transaction - Firestore transaction
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @returns {Promise<number>} - Estimated amount
+ */
+const estimateAmount = async (transaction, templateId, template) => {
+  const snapshot = await transaction.get(db.collection('expenses')
+    .where('recurringExpenseId', '==', templateId)
+    .orderBy('date', 'desc')
+    .limit(ESTIMATE_WINDOW * 2));
+
+  const amounts = snapshot.docs
+    .map(doc => doc.data())
+    .filter(expense => expense.status !== 'pending')
+    .slice(0, ESTIMATE_WINDOW)
+    .map(expense => expense.amount);
+
+  if (amounts.length === 0) {
+    return template.amount;
+  }
+
+  const average = amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+  return parseFloat(average.toFixed(2));
+};
+
+/**
+ * Use the estimate for occurrences of an estimated-amount template
+ * Occurrences with a one-off amount are already known and are not estimated
+ * 
+ * @param {Array<Object>} occurrences - Occurrences (see toOccurrence)
+ * @param {number|null} estimate - Estimated amount, or null for fixed templates
+ * @returns {Array<Object>}
+ */
+const applyEstimate = (occurrences, estimate) => {
+  if (estimate === null) {
+    return occurrences;
+  }
+  return occurrences.map(occurrence => (
+    occurrence.overridden ? occurrence : { ...occurrence, amount: estimate, estimated: true }
+  ));
+};
+
+/**
+ * Estimate for a template inside a generation transaction
+ * 
+ * @returns {Promise<number|null>} - Estimated amount, or null for fixed templates
+ */
+const getTemplateEstimate = (transaction, templateId, template) => {
+  if (template.amountMode !== 'estimated' || template.type === 'income') {
+    return Promise.resolve(null);
+  }
+  return estimateAmount(transaction, templateId, template);
+};
+
+/**
+ * Document reference for the entry generated for one occurrence
+ * The ID is derived from template + scheduled date, so generating the same occurrence
+ * twice (reruns, manual + scheduled) finds the existing entry instead of duplicating it
+ * 
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @param {string} date - Scheduled occurrence date (YYYY-MM-DD)
+ * @returns {DocumentReference}
+ */
+const generatedEntryRef = (templateId, template, date) => {
+  const collection = template.type === 'income' ? 'income' : 'expenses';
+  return db.collection(collection).doc(`${templateId}_${date}`);
+};
+
+/**
+ * Next occurrence of a template strictly after a date
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {string|null} after - Exclusive lower bound (null for the first occurrence)
+ * @returns {string|null} - Next date, or null once the end date or count is reached
+ */
+const getTemplateNextOccurrence = (template, after) => {
+  return getNextOccurrence(getTemplateRule(template), template.startDate, after, template.endDate);
+};
+
+/**
+ * Whether a date is one of the template's scheduled occurrences
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {string} date - Date (YYYY-MM-DD)
+ * @returns {boolean}
+ */
+const isScheduledDate = (template, date) => {
+  if (template.endDate && date > template.endDate) {
+    return false;
+  }
+  return listOccurrences(getTemplateRule(template), template.startDate, { from: date, until: date, limit: 1 })[0] === date;
+};
+
+/**
+ * Resolve a scheduled occurrence with its exception, if any
+ * Exceptions are stored on the template as `exceptions[scheduledDate]`:
+ * { skip: true } or { date?, amount?, generated? } for moved and/or re-priced occurrences
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {string} occurrenceDate - Scheduled date (YYYY-MM-DD)
+ * @returns {Object} - { occurrenceDate, date, amount, skipped, moved, overridden }
+ */
+const toOccurrence = (template, occurrenceDate) => {
+  const exception = (template.exceptions || {})[occurrenceDate] || {};
+  return {
+    occurrenceDate,
+    date: exception.date || occurrenceDate,
+    amount: exception.amount !== undefined ? exception.amount : template.amount,
+    skipped: !!exception.skip,
+    moved: !!exception.date,
+    overridden: exception.amount !== undefined
+  };
+};
+
+/**
+ * First scheduled date that may still be pending for a template that never
+ * generated anything: its nextOccurrence, or an earlier date with an exception
+ * (a skipped first occurrence moves nextOccurrence past it)
+ * Templates that did generate resume after lastGenerated instead
+ * 
+ * @param {Object} template - Recurring template data
+ * @returns {string|null} - Inclusive lower bound for scheduled dates
+ */
+const getPendingFrom = (template) => {
+  if (template.lastGenerated) {
+    return null;
+  }
+  const dates = [template.nextOccurrence, ...Object.keys(template.exceptions || {})].filter(Boolean);
+  return dates.sort()[0] || null;
+};
+
+/**
+ * Occurrences of a template that have not been generated yet, exceptions applied,
+ * ordered by the date they fall on
+ * Scheduled dates resume after lastGenerated (see getPendingFrom); moved occurrences
+ * stay pending until generated on their new date
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {Object} options - { from?: first scheduled date to consider, until?, limit?, includeSkipped? }
+ * @returns {Array<Object>} - Occurrences (see toOccurrence)
+ */
+const listPendingOccurrences = (template, options = {}) => {
+  const {
+    from = getPendingFrom(template),
+    until = null,
+    limit = MAX_SCHEDULE_COUNT,
+    includeSkipped = false
+  } = options;
+  const exceptions = template.exceptions || {};
+  const end = template.endDate && (!until || template.endDate < until) ? template.endDate : until;
+
+  // Skipped and moved dates do not count towards the limit
+  const scheduled = listOccurrences(getTemplateRule(template), template.startDate, {
+    from,
+    after: template.lastGenerated || null,
+    until: end,
+    limit: limit + Object.keys(exceptions).length
+  });
+
+  const occurrences = scheduled
+    .filter(date => !(exceptions[date] && exceptions[date].date))
+    .filter(date => includeSkipped || !(exceptions[date] && exceptions[date].skip))
+    .map(date => toOccurrence(template, date));
+
+  Object.entries(exceptions).forEach(([date, exception]) => {
+    if (exception.date && !exception.generated && (!until || exception.date <= until)) {
+      occurrences.push(toOccurrence(template, date));
+    }
+  });
+
+  return occurrences
+    .sort((a, b) => a.date.localeCompare(b.date) || a.occurrenceDate.localeCompare(b.occurrenceDate))
+    .slice(0, limit);
+};
+
+/**
+ * Whether a scheduled date has not been generated yet (exceptions can only target these)
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {string} date - Scheduled date (YYYY-MM-DD)
+ * @returns {boolean}
+ */
+const isPendingDate = (template, date) => {
+  // Moved occurrences stay pending after the schedule passed their date
+  const exception = (template.exceptions || {})[date];
+  if (exception && exception.date) {
+    return !exception.generated;
+  }
+  if (template.lastGenerated) {
+    return date > template.lastGenerated;
+  }
+  const from = getPendingFrom(template);
+  return !!from && date >= from;
+};
+
+/**
+ * Date of the next occurrence that will actually be generated
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {Object} options - Passed to listPendingOccurrences
+ * @returns {string|null} - Next date, or null once nothing is left to generate
+ */
+const getPendingNextOccurrence = (template, options = {}) => {
+  const [next] = listPendingOccurrences(template, { ...options, limit: 1 });
+  return next ? next.date : null;
+};
 
 /**
- * Calculate next occurrence date based on frequency
+ * List every occurrence that is due, starting at nextOccurrence
+ * Scheduled dates stop at today, at the end date, or after MAX_CATCH_UP_OCCURRENCES;
+ * skipped ones are passed over and moved ones are due on their new date
  * 
- * @param {string} currentDate - Current date (YYYY-MM-DD)
- * @param {string} frequency - Frequency type
- * @returns {string} - Next occurrence date (YYYY-MM-DD)
+ * @param {Object} template - Recurring template data
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @returns {Object} - { occurrences, lastGenerated: last scheduled date passed }
  */
-const calculateNextOccurrence = (currentDate, frequency) => {
-  const date = new Date(currentDate);
-  
-  switch (frequency) {
-    case 'daily':
-      date.setDate(date.getDate() + 1);
-      break;
-    case 'weekly':
-      date.setDate(date.getDate() + 7);
-      break;
-    case 'biweekly':
-      date.setDate(date.getDate() + 14);
-      break;
-    case 'monthly':
-      date.setMonth(date.getMonth() + 1);
-      break;
-    case 'yearly':
-      date.setFullYear(date.getFullYear() + 1);
-      break;
-    default:
-      throw new Error('Invalid frequency');
+const getDueOccurrences = (template, today) => {
+  if (!template.nextOccurrence) {
+    return { occurrences: [], lastGenerated: template.lastGenerated || null };
   }
-  
-  return date.toISOString().split('T')[0];
+
+  const exceptions = template.exceptions || {};
+  const until = template.endDate && template.endDate < today ? template.endDate : today;
+  const scheduled = listOccurrences(getTemplateRule(template), template.startDate, {
+    from: getPendingFrom(template),
+    after: template.lastGenerated || null,
+    until,
+    limit: MAX_CATCH_UP_OCCURRENCES
+  });
+
+  const occurrences = scheduled
+    .map(date => toOccurrence(template, date))
+    .filter(occurrence => !occurrence.skipped && !occurrence.moved);
+
+  Object.entries(exceptions).forEach(([date, exception]) => {
+    if (exception.date && !exception.generated && exception.date <= today) {
+      occurrences.push(toOccurrence(template, date));
+    }
+  });
+
+  return {
+    occurrences,
+    lastGenerated: scheduled.length > 0 ? scheduled[scheduled.length - 1] : template.lastGenerated || null
+  };
+};
+
+/**
+ * Flag moved occurrences as generated so they are not listed as pending again
+ * 
+ * @param {Object} exceptions - Template exceptions
+ * @param {Array<Object>} occurrences - Generated occurrences
+ * @returns {Object} - Updated exceptions
+ */
+const markMovedGenerated = (exceptions = {}, occurrences) => {
+  const updated = { ...exceptions };
+  occurrences
+    .filter(occurrence => occurrence.moved)
+    .forEach(occurrence => {
+      updated[occurrence.occurrenceDate] = { ...updated[occurrence.occurrenceDate], generated: true };
+    });
+  return updated;
+};
+
+/**
+ * Upcoming occurrences with their amounts
+ * 
+ * @param {Array<Object>} occurrences - Up to count + 1 occurrences ({ date, amount, ... })
+ * @param {number} count - Number of occurrences to return
+ * @returns {Object} - { occurrences, total, hasMore }
+ */
+const buildSchedule = (occurrences, count) => {
+  const listed = occurrences.slice(0, count);
+  const total = listed.reduce((sum, occurrence) => sum + (occurrence.amount || 0), 0);
+
+  return {
+    occurrences: listed,
+    total: parseFloat(total.toFixed(2)),
+    // One extra occurrence tells whether the schedule continues past the list
+    hasMore: occurrences.length > count
+  };
+};
+
+/**
+ * Parse the ?count= query of the schedule endpoints
+ * 
+ * @param {string} value - Raw query value
+ * @returns {number}
+ */
+const parseScheduleCount = (value) => {
+  const count = parseInt(value) || DEFAULT_SCHEDULE_COUNT;
+  return Math.min(Math.max(count, 1), MAX_SCHEDULE_COUNT);
+};
+
+/**
+ * Approximate monthly amount of a template
+ * 
+ * @param {Object} template - Recurring template data
+ * @returns {number} - Monthly amount
+ */
+const toMonthlyAmount = (template) => {
+  const rule = getTemplateRule(template);
+  return rule ? (template.amount * occurrencesPerYear(rule)) / 12 : 0;
 };
 
 /**
@@ -67,8 +487,15 @@ const createRecurringExpense = async (req, res) => {
     // Sanitize data
     const sanitizedData = sanitizeRecurringExpense(req.body);
 
-    // Calculate next occurrence
-    const nextOccurrence = calculateNextOccurrence(sanitizedData.startDate, sanitizedData.frequency);
+    // First occurrence on or after the start date
+    const nextOccurrence = getTemplateNextOccurrence(sanitizedData, null);
+
+    if (!nextOccurrence) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Recurrence has no occurrences before the end date']
+      });
+    }
 
     // Prepare document
     const recurringExpenseData = {
@@ -76,6 +503,7 @@ const createRecurringExpense = async (req, res) => {
       userId: req.user.uid,
       nextOccurrence: nextOccurrence,
       lastGenerated: null, // No expenses generated yet
+      priceHistory: startPriceHistory(sanitizedData.amount, sanitizedData.startDate),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
@@ -137,31 +565,30 @@ const getRecurringExpenses = async (req, res) => {
       return new Date(a.nextOccurrence) - new Date(b.nextOccurrence);
     });
 
-    // Calculate totals
-    const totalMonthly = recurringExpenses
-      .filter(re => re.isActive)
-      .reduce((sum, re) => {
-        // Convert to monthly cost
-        let monthlyCost = 0;
-        switch (re.frequency) {
-          case 'daily':
-            monthlyCost = re.amount * 30;
-            break;
-          case 'weekly':
-            monthlyCost = re.amount * 4;
-            break;
-          case 'biweekly':
-            monthlyCost = re.amount * 2;
-            break;
-          case 'monthly':
-            monthlyCost = re.amount;
-            break;
-          case 'yearly':
-            monthlyCost = re.amount / 12;
-            break;
-        }
-        return sum + monthlyCost;
-      }, 0);
+    // Calculate monthly totals (income templates are totalled separately)
+    const active = recurringExpenses.filter(re => re.isActive);
+    const totalMonthly = active
+      .filter(re => re.type !== 'income')
+      .reduce((sum, re) => sum + toMonthlyAmount(re), 0);
+    const totalMonthlyIncome = active
+      .filter(re => re.type === 'income')
+      .reduce((sum, re) => sum + toMonthlyAmount(re), 0);
+
+    // Recent price rises beyond each template's alert threshold
+    const since = addDays(new Date().toISOString().split('T')[0], -RECENT_INCREASE_DAYS);
+    const priceIncreases = active
+      .filter(re => re.type !== 'income')
+      .map(re => ({ re, increase: getRecentIncrease(re, since) }))
+      .filter(({ increase }) => increase)
+      .map(({ re, increase }) => ({
+        id: re.id,
+        templateName: re.templateName,
+        date: increase.date,
+        previousAmount: increase.previousAmount,
+        amount: increase.amount,
+        changePercent: increase.changePercent
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date));
 
     res.status(200).json({
       recurringExpenses: recurringExpenses,
@@ -169,7 +596,9 @@ const getRecurringExpenses = async (req, res) => {
         total: recurringExpenses.length,
         active: recurringExpenses.filter(re => re.isActive).length,
         inactive: recurringExpenses.filter(re => !re.isActive).length,
-        estimatedMonthlyTotal: parseFloat(totalMonthly.toFixed(2))
+        estimatedMonthlyTotal: parseFloat(totalMonthly.toFixed(2)),
+        estimatedMonthlyIncome: parseFloat(totalMonthlyIncome.toFixed(2)),
+        priceIncreases
       }
     });
 
@@ -205,18 +634,28 @@ const getUpcomingRecurringExpenses = async (req, res) => {
       .where('isActive', '==', true)
       .get();
 
+    // One entry per occurrence in the range, with exceptions applied;
+    // skipped occurrences are included so they can be restored
     const upcoming = [];
     snapshot.forEach(doc => {
       const data = doc.data();
-      
-      // Check if next occurrence is within the range
-      if (data.nextOccurrence >= today && data.nextOccurrence <= futureDateStr) {
-        upcoming.push({
-          id: doc.id,
-          ...data,
-          daysUntil: Math.ceil((new Date(data.nextOccurrence) - new Date(today)) / (1000 * 60 * 60 * 24))
-        });
+
+      if (!data.nextOccurrence) {
+        return;
       }
+
+      listPendingOccurrences(data, { until: futureDateStr, includeSkipped: true })
+        .filter(occurrence => occurrence.date >= today)
+        .forEach(occurrence => {
+          upcoming.push({
+            id: doc.id,
+            ...data,
+            name: data.templateName,
+            ...occurrence,
+            nextOccurrence: occurrence.date,
+            daysUntil: Math.ceil((new Date(occurrence.date) - new Date(today)) / (1000 * 60 * 60 * 24))
+          });
+        });
     });
 
     // Sort by next occurrence
@@ -286,6 +725,100 @@ const getRecurringExpenseById = async (req, res) => {
   }
 };
 
+/**
+ * READ: Get the next occurrences of a saved template
+ * 
+ * @route   GET /api/recurring-expenses/:id/schedule
+ * @access  Private
+ * @query   ?count=12 (max 100)
+ */
+const getRecurringSchedule = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.uid;
+    const count = parseScheduleCount(req.query.count);
+
+    const doc = await db.collection('recurring_expenses').doc(id).get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Recurring expense not found'
+      });
+    }
+
+    const data = doc.data();
+
+    // Check ownership
+    if (data.userId !== userId) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to access this recurring expense'
+      });
+    }
+
+    // Exceptions applied: skipped dates are left out, moved ones listed on their new date
+    const occurrences = listPendingOccurrences(data, { limit: count + 1 })
+      .map(({ occurrenceDate, date, amount }) => ({ date, amount, occurrenceDate }));
+    const schedule = buildSchedule(occurrences, count);
+
+    res.status(200).json(schedule);
+
+  } catch (error) {
+    console.error('Error fetching recurring schedule:', error);
+    res.status(500).json({
+      error: 'Failed to fetch recurring schedule',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * READ: Preview the occurrences of a template that is not saved yet
+ * Stateless: nothing is read from or written to Firestore
+ * 
+ * @route   POST /api/recurring-expenses/schedule
+ * @access  Private
+ * @query   ?count=12 (max 100)
+ * @body    { startDate, endDate?, recurrence | frequency, amount?, after? }
+ *          after: last generated date when previewing changes to a saved template
+ */
+const previewRecurringSchedule = async (req, res) => {
+  try {
+    const validation = validateSchedulePreview(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const template = {
+      ...sanitizeSchedule(req.body),
+      startDate: req.body.startDate,
+      endDate: req.body.endDate || null,
+      amount: req.body.amount
+    };
+
+    const count = parseScheduleCount(req.query.count);
+    const dates = listOccurrences(getTemplateRule(template), template.startDate, {
+      after: req.body.after || null,
+      until: template.endDate,
+      limit: count + 1
+    });
+    const schedule = buildSchedule(dates.map(date => ({ date, amount: template.amount || 0 })), count);
+
+    res.status(200).json(schedule);
+
+  } catch (error) {
+    console.error('Error previewing recurring schedule:', error);
+    res.status(500).json({
+      error: 'Failed to preview recurring schedule',
+      message: error.message
+    });
+  }
+};
+
 /**
  * UPDATE: Update a recurring expense
  * 
@@ -327,17 +860,50 @@ const updateRecurringExpense = async (req, res) => {
       });
     }
 
+    // Only expenses wait for confirmation, so income templates keep fixed amounts
+    const merged = { ...existingData, ...req.body };
+    if (merged.amountMode === 'estimated' && merged.type === 'income') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Income templates cannot use estimated amounts']
+      });
+    }
+
     // Prepare update data
     const updateData = {
       ...req.body,
       updatedAt: new Date().toISOString()
     };
 
-    // Recalculate next occurrence if frequency or start date changed
-    if (req.body.frequency || req.body.startDate) {
-      const newFrequency = req.body.frequency || existingData.frequency;
-      const baseDate = existingData.lastGenerated || existingData.startDate;
-      updateData.nextOccurrence = calculateNextOccurrence(baseDate, newFrequency);
+    // Normalize the schedule; a new frequency replaces the old rule
+    if (req.body.recurrence || req.body.frequency) {
+      Object.assign(updateData, sanitizeSchedule(req.body));
+    }
+
+    // Exceptions are managed through /:id/exceptions/:date
+    delete updateData.exceptions;
+
+    // Price history is only ever appended to
+    delete updateData.priceHistory;
+    if (req.body.amount !== undefined) {
+      const recorded = recordPrice(existingData, { amount: req.body.amount, source: 'template' });
+      if (recorded) {
+        updateData.priceHistory = recorded.priceHistory;
+      }
+    }
+
+    // Recalculate next occurrence if the schedule changed, dropping exceptions
+    // for dates that are no longer part of it
+    if (req.body.recurrence || req.body.frequency || req.body.startDate || req.body.endDate !== undefined) {
+      const template = { ...existingData, ...updateData };
+
+      if (existingData.exceptions) {
+        updateData.exceptions = Object.fromEntries(Object.entries(existingData.exceptions)
+          .filter(([date, exception]) => exception.generated || isScheduledDate(template, date)));
+        template.exceptions = updateData.exceptions;
+      }
+
+      updateData.nextOccurrence = getPendingNextOccurrence(template, { from: null });
     }
 
     // Remove fields that shouldn't be updated
@@ -446,37 +1012,80 @@ const generateExpenseFromRecurring = async (req, res) => {
       });
     }
 
-    // Create actual expense
-    const expenseData = {
-      userId: userId,
-      amount: recurringData.amount,
-      category: recurringData.category,
-      description: recurringData.description,
-      date: recurringData.nextOccurrence,
-      aiSuggested: false,
-      recurringExpenseId: id, // Link to recurring template
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
+    if (!recurringData.nextOccurrence) {
+      return res.status(400).json({
+        error: 'No upcoming occurrence',
+        message: 'This recurring template has reached its end date or occurrence count'
+      });
+    }
 
-    const expenseRef = await db.collection('expenses').add(expenseData);
+    // Create actual expense (or income) and advance the template together,
+    // reusing the entry if this occurrence was already generated.
+    // Skipped occurrences are passed over and moved ones use their new date
+    const result = await db.runTransaction(async (transaction) => {
+      const template = (await transaction.get(recurringDocRef)).data();
+      const [pending] = listPendingOccurrences(template, { limit: 1 });
 
-    // Update recurring expense
-    const nextOccurrence = calculateNextOccurrence(recurringData.nextOccurrence, recurringData.frequency);
-    
-    await recurringDocRef.update({
-      lastGenerated: recurringData.nextOccurrence,
-      nextOccurrence: nextOccurrence,
-      updatedAt: new Date().toISOString()
+      // Everything left was skipped
+      if (!pending) {
+        return null;
+      }
+
+      const [occurrence] = applyEstimate([pending], await getTemplateEstimate(transaction, id, template));
+
+      const { collection, entry } = buildGeneratedEntry(id, template, occurrence);
+      const entryRef = generatedEntryRef(id, template, occurrence.occurrenceDate);
+      const existing = await transaction.get(entryRef);
+
+      if (!existing.exists) {
+        transaction.create(entryRef, entry);
+      }
+
+      // A moved occurrence is flagged; a scheduled one advances lastGenerated
+      const updated = occurrence.moved
+        ? { exceptions: markMovedGenerated(template.exceptions, [occurrence]) }
+        : { lastGenerated: occurrence.occurrenceDate };
+      const nextOccurrence = getPendingNextOccurrence({ ...template, ...updated });
+      const { changes, ...prices } = existing.exists ? { changes: [] } : recordCharges(template, [occurrence]);
+
+      transaction.update(recurringDocRef, {
+        ...updated,
+        ...prices,
+        nextOccurrence: nextOccurrence,
+        // Schedule finished (end date or occurrence count reached)
+        ...(nextOccurrence ? {} : { isActive: false }),
+        updatedAt: new Date().toISOString()
+      });
+
+      return {
+        collection,
+        created: !existing.exists,
+        expense: { id: entryRef.id, ...(existing.exists ? existing.data() : entry) },
+        nextOccurrence,
+        template,
+        changes
+      };
     });
 
-    res.status(201).json({
-      message: 'Expense generated from recurring template',
-      expense: {
-        id: expenseRef.id,
-        ...expenseData
-      },
-      nextOccurrence: nextOccurrence
+    if (!result) {
+      return res.status(400).json({
+        error: 'No upcoming occurrence',
+        message: 'Every remaining occurrence of this recurring template is skipped'
+      });
+    }
+
+    for (const change of result.changes) {
+      await notifyPriceIncrease(id, result.template, change);
+    }
+
+    const noun = result.collection === 'income' ? 'Income' : 'Expense';
+    res.status(result.created ? 201 : 200).json({
+      message: result.created
+        ? `${noun} generated from recurring template`
+        : `${noun} for this occurrence was already generated`,
+      expense: result.expense,
+      type: recurringData.type || 'expense',
+      nextOccurrence: result.nextOccurrence
     });
 
   } catch (error) {
@@ -489,70 +1098,1001 @@ const generateExpenseFromRecurring = async (req, res) => {
 };
 
 /**
- * CRON JOB: Auto-generate expenses from recurring templates
- * This function is called by a scheduled job
+ * GET: Expenses generated with an estimated amount that still need the real figure
+ * 
+ * @route   GET /api/recurring-expenses/pending
+ * @access  Private
  */
-const generateDueExpenses = async () => {
+const getPendingConfirmations = async (req, res) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    
-    console.log(`[CRON] Checking for recurring expenses due on ${today}...`);
+    const userId = req.user.uid;
 
-    // Get all active recurring expenses due today
-    const snapshot = await db.collection('recurring_expenses')
-      .where('isActive', '==', true)
-      .where('autoGenerate', '==', true)
-      .where('nextOccurrence', '<=', today)
+    const snapshot = await db.collection('expenses')
+      .where('userId', '==', userId)
+      .where('status', '==', 'pending')
+      .orderBy('date', 'asc')
       .get();
 
-    let generated = 0;
-    const batch = db.batch();
-
-    for (const doc of snapshot.docs) {
-      const data = doc.data();
-      
-      // Check if end date has passed
-      if (data.endDate && data.endDate < today) {
-        // Deactivate this recurring expense
-        batch.update(doc.ref, { isActive: false });
-        continue;
-      }
+    const pending = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
 
-      // Create expense
-      const expenseRef = db.collection('expenses').doc();
-      batch.set(expenseRef, {
-        userId: data.userId,
-        amount: data.amount,
-        category: data.category,
-        description: data.description,
-        date: data.nextOccurrence,
-        aiSuggested: false,
-        recurringExpenseId: doc.id,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+    res.status(200).json({
+      pending,
+      count: pending.length
+    });
 
-      // Update recurring expense
-      const nextOccurrence = calculateNextOccurrence(data.nextOccurrence, data.frequency);
-      batch.update(doc.ref, {
-        lastGenerated: data.nextOccurrence,
-        nextOccurrence: nextOccurrence,
-        updatedAt: new Date().toISOString()
-      });
+  } catch (error) {
+    console.error('Error fetching pending confirmations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch pending confirmations',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * POST: Confirm the real amount of an estimated expense
+ * The expense starts counting toward budgets once confirmed
+ * 
+ * @route   POST /api/recurring-expenses/pending/:expenseId/confirm
+ * @access  Private
+ * @body    { amount }
+ */
+const confirmGeneratedAmount = async (req, res) => {
+  try {
+    const { expenseId } = req.params;
+    const userId = req.user.uid;
+    const { amount } = req.body;
 
-      generated++;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Amount must be a positive number']
+      });
     }
 
-    // Commit all changes
+    const docRef = db.collection('expenses').doc(expenseId);
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({
+        error: 'Expense not found'
+      });
+    }
+
+    const expense = doc.data();
+
+    // Check ownership
+    if (expense.userId !== userId) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to confirm this expense'
+      });
+    }
+
+    if (expense.status !== 'pending') {
+      return res.status(409).json({
+        error: 'Expense is not pending',
+        message: 'This expense has already been confirmed'
+      });
+    }
+
+    const now = new Date().toISOString();
+    const updateData = {
+      amount: parseFloat(amount.toFixed(2)),
+      status: 'confirmed',
+      confirmedAt: now,
+      updatedAt: now
+    };
+
+    await docRef.update(updateData);
+
+    // Now part of the budgets covering its date
+    await updateAffectedBudgets(userId, expense.date);
+
+    // The confirmed figure is a real charge for the template's price history,
+    // unless the occurrence has a one-off amount
+    if (expense.recurringExpenseId) {
+      const templateRef = db.collection('recurring_expenses').doc(expense.recurringExpenseId);
+      const templateDoc = await templateRef.get();
+
+      if (templateDoc.exists && !toOccurrence(templateDoc.data(), expense.occurrenceDate || expense.date).overridden) {
+        const template = templateDoc.data();
+        const recorded = recordPrice(template, { amount: updateData.amount, date: expense.date, source: 'charge' });
+
+        if (recorded) {
+          await templateRef.update({ priceHistory: recorded.priceHistory, updatedAt: now });
+          if (recorded.entry.flagged) {
+            await notifyPriceIncrease(templateDoc.id, template, recorded.entry);
+          }
+        }
+      }
+    }
+
+    res.status(200).json({
+      message: 'Expense amount confirmed',
+      expense: {
+        id: doc.id,
+        ...expense,
+        ...updateData
+      }
+    });
+
+  } catch (error) {
+    console.error('Error confirming expense amount:', error);
+    res.status(500).json({
+      error: 'Failed to confirm expense amount',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * GET: Subscriptions detected in the user's expense history that have no template yet
+ * Expenses already linked to a template and merchants that have one are left out
+ * 
+ * @route   GET /api/recurring-expenses/detect
+ * @access  Private
+ * @query   ?months=12
+ */
+const getDetectedSubscriptions = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const months = req.query.months === undefined ? DEFAULT_DETECTION_MONTHS : parseInt(req.query.months);
+
+    if (isNaN(months) || months < 1 || months > MAX_DETECTION_MONTHS) {
+      return res.status(400).json({
+        error: 'Invalid months',
+        message: `Months must be between 1 and ${MAX_DETECTION_MONTHS}`
+      });
+    }
+
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, now.getUTCDate()))
+      .toISOString().split('T')[0];
+
+    const [expenseSnapshot, templateSnapshot] = await Promise.all([
+      db.collection('expenses')
+        .where('userId', '==', userId)
+        .where('date', '>=', from)
+        .get(),
+      db.collection('recurring_expenses')
+        .where('userId', '==', userId)
+        .get()
+    ]);
+
+    const expenses = expenseSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .filter(expense => !expense.recurringExpenseId);
+
+    const excludeMerchants = new Set();
+    templateSnapshot.docs.forEach(doc => {
+      const template = doc.data();
+      [template.templateName, template.description]
+        .map(normalizeMerchant)
+        .filter(Boolean)
+        .forEach(merchant => excludeMerchants.add(merchant));
+    });
+
+    const candidates = detectSubscriptions(expenses, { today, excludeMerchants });
+
+    res.status(200).json({
+      candidates,
+      count: candidates.length,
+      analyzed: expenses.length,
+      from
+    });
+
+  } catch (error) {
+    console.error('Error detecting subscriptions:', error);
+    res.status(500).json({
+      error: 'Failed to detect subscriptions',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * CREATE: Turn a detected subscription into a template and link its past expenses
+ * The linked expenses count as generated, so the template continues after the latest one
+ * 
+ * @route   POST /api/recurring-expenses/detect/accept
+ * @access  Private
+ * @body    { templateName, amount, category, description, frequency | recurrence, startDate, amountMode?, expenseIds }
+ */
+const acceptDetectedSubscription = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { expenseIds, ...templateData } = req.body;
+
+    const validation = validateRecurringExpense({ ...templateData, type: 'expense' });
+    const errors = [...validation.errors];
+
+    if (!Array.isArray(expenseIds) || expenseIds.length === 0 || expenseIds.some(id => typeof id !== 'string')) {
+      errors.push('expenseIds must be a non-empty array of expense IDs');
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+    }
+
+    const expenseRefs = [...new Set(expenseIds)].map(id => db.collection('expenses').doc(id));
+    const expenseDocs = await db.getAll(...expenseRefs);
+
+    if (expenseDocs.some(doc => !doc.exists)) {
+      return res.status(404).json({
+        error: 'Expense not found'
+      });
+    }
+
+    if (expenseDocs.some(doc => doc.data().userId !== userId)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to link these expenses'
+      });
+    }
+
+    if (expenseDocs.some(doc => doc.data().recurringExpenseId)) {
+      return res.status(409).json({
+        error: 'Expense already linked',
+        message: 'Some of these expenses already belong to a recurring template'
+      });
+    }
+
+    const sanitizedData = sanitizeRecurringExpense({ ...templateData, type: 'expense' });
+
+    // The history stands in for generated occurrences up to the latest expense
+    const lastGenerated = getCoveredOccurrence(
+      getTemplateRule(sanitizedData),
+      sanitizedData.startDate,
+      expenseDocs.map(doc => doc.data().date).sort().pop()
+    );
+    const nextOccurrence = getTemplateNextOccurrence(sanitizedData, lastGenerated);
+    const now = new Date().toISOString();
+
+    // Past charges make up the price history, ending at the template amount
+    const charges = expenseDocs.map(doc => doc.data()).sort((a, b) => a.date.localeCompare(b.date));
+    let priced = { ...sanitizedData, priceHistory: startPriceHistory(charges[0].amount, charges[0].date) };
+    [
+      ...charges.slice(1).map(charge => ({ amount: charge.amount, date: charge.date, source: 'charge' })),
+      { amount: sanitizedData.amount, date: lastGenerated, source: 'template' }
+    ].forEach(price => {
+      const recorded = recordPrice(priced, price);
+      if (recorded) priced = { ...priced, priceHistory: recorded.priceHistory };
+    });
+
+    const recurringExpenseData = {
+      ...sanitizedData,
+      userId: userId,
+      nextOccurrence: nextOccurrence,
+      lastGenerated: lastGenerated,
+      priceHistory: priced.priceHistory,
+      ...(nextOccurrence ? {} : { isActive: false }),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const templateRef = db.collection('recurring_expenses').doc();
+    const writes = [
+      batch => batch.set(templateRef, recurringExpenseData),
+      ...expenseRefs.map(ref => batch => batch.update(ref, { recurringExpenseId: templateRef.id, updatedAt: now }))
+    ];
+
+    for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+      await batch.commit();
+    }
+
+    res.status(201).json({
+      message: 'Recurring expense created from detected subscription',
+      recurringExpense: {
+        id: templateRef.id,
+        ...recurringExpenseData
+      },
+      linked: expenseRefs.length
+    });
+
+  } catch (error) {
+    console.error('Error accepting detected subscription:', error);
+    res.status(500).json({
+      error: 'Failed to accept detected subscription',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Load a template for its ledger, answering 403/404 itself
+ * 
+ * @returns {Promise<Object|null>} - { template, collection }, or null when a response was sent
+ */
+const loadTemplateForLedger = async (req, res) => {
+  const doc = await db.collection('recurring_expenses').doc(req.params.id).get();
+
+  if (!doc.exists) {
+    res.status(404).json({
+      error: 'Recurring expense not found'
+    });
+    return null;
+  }
+
+  const template = doc.data();
+
+  // Check ownership
+  if (template.userId !== req.user.uid) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You do not have permission to access this recurring expense'
+    });
+    return null;
+  }
+
+  // Income templates generate income entries
+  return {
+    template: { id: doc.id, ...template },
+    collection: template.type === 'income' ? 'income' : 'expenses'
+  };
+};
+
+/**
+ * Load entries picked from a template's ledger, answering 400/404 itself
+ * Entries that are not (or no longer) linked to the template count as missing
+ * 
+ * @returns {Promise<Array|null>} - Entry snapshots, or null when a response was sent
+ */
+const loadLedgerEntries = async (req, res, collection) => {
+  const { expenseIds } = req.body;
+
+  if (!Array.isArray(expenseIds) || expenseIds.length === 0 || expenseIds.some(id => typeof id !== 'string')) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: ['expenseIds must be a non-empty array of expense IDs']
+    });
+    return null;
+  }
+
+  const refs = [...new Set(expenseIds)].map(id => db.collection(collection).doc(id));
+  const docs = await db.getAll(...refs);
+
+  if (docs.some(doc => !doc.exists || doc.data().recurringExpenseId !== req.params.id)) {
+    res.status(404).json({
+      error: 'Expense not found',
+      message: 'Some of these expenses are not linked to this recurring expense'
+    });
+    return null;
+  }
+
+  return docs;
+};
+
+/**
+ * Apply the same update to ledger entries, in batches
+ */
+const updateLedgerEntries = async (docs, updateData) => {
+  for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.update(doc.ref, updateData));
     await batch.commit();
+  }
+};
+
+/**
+ * Refresh the budgets covering a set of expenses (no-op for income)
+ */
+const refreshLedgerBudgets = async (userId, collection, docs) => {
+  if (collection !== 'expenses') return;
+
+  const dates = docs.map(doc => doc.data().date).sort();
+  await updateAffectedBudgets(userId, dates[0], dates[dates.length - 1]);
+};
+
+/**
+ * READ: Everything a template has produced (generated or linked), newest first
+ * Totals leave out estimates that are still pending
+ * 
+ * @route   GET /api/recurring-expenses/:id/history
+ * @access  Private
+ */
+const getRecurringHistory = async (req, res) => {
+  try {
+    const loaded = await loadTemplateForLedger(req, res);
+    if (!loaded) return;
+
+    const { template, collection } = loaded;
+
+    const snapshot = await db.collection(collection)
+      .where('recurringExpenseId', '==', template.id)
+      .orderBy('date', 'desc')
+      .get();
+
+    const entries = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
+
+    const today = new Date().toISOString().split('T')[0];
+    const counted = entries.filter(entry => entry.status !== 'pending' && entry.date <= today);
+    const sum = (items) => parseFloat(items.reduce((total, entry) => total + entry.amount, 0).toFixed(2));
+
+    // Totals per calendar year, newest first
+    const years = {};
+    counted.forEach(entry => {
+      const year = entry.date.substring(0, 4);
+      years[year] = years[year] || { year, total: 0, count: 0 };
+      years[year].total = parseFloat((years[year].total + entry.amount).toFixed(2));
+      years[year].count++;
+    });
+
+    res.status(200).json({
+      recurringExpense: template,
+      entries,
+      summary: {
+        count: entries.length,
+        pendingCount: entries.filter(entry => entry.status === 'pending').length,
+        totalToDate: sum(counted),
+        totalSinceStart: sum(counted.filter(entry => entry.date >= template.startDate)),
+        averageAmount: counted.length > 0 ? parseFloat((sum(counted) / counted.length).toFixed(2)) : 0,
+        firstDate: entries.length > 0 ? entries[entries.length - 1].date : null,
+        lastDate: entries.length > 0 ? entries[0].date : null,
+        // What a year of the current schedule and amount costs
+        yearlyCost: template.isActive ? parseFloat((toMonthlyAmount(template) * 12).toFixed(2)) : 0,
+        byYear: Object.values(years).sort((a, b) => b.year.localeCompare(a.year))
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching recurring history:', error);
+    res.status(500).json({
+      error: 'Failed to fetch recurring history',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Move entries of a template's ledger to another category
+ * 
+ * @route   POST /api/recurring-expenses/:id/history/recategorize
+ * @access  Private
+ * @body    { expenseIds, category }
+ */
+const recategorizeRecurringHistory = async (req, res) => {
+  try {
+    const { category } = req.body;
 
-    console.log(`[CRON] Generated ${generated} expenses from recurring templates`);
-    return { success: true, generated };
+    if (typeof category !== 'string' || category.trim().length === 0 || category.length > 50) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Category is required and must be less than 50 characters']
+      });
+    }
+
+    const loaded = await loadTemplateForLedger(req, res);
+    if (!loaded) return;
+
+    const docs = await loadLedgerEntries(req, res, loaded.collection);
+    if (!docs) return;
+
+    // Split expenses keep their lines; only the headline category changes
+    await updateLedgerEntries(docs, {
+      category: category.trim(),
+      updatedAt: new Date().toISOString()
+    });
+
+    await refreshLedgerBudgets(req.user.uid, loaded.collection, docs);
+
+    res.status(200).json({
+      message: `Moved ${docs.length} ${docs.length === 1 ? 'entry' : 'entries'} to ${category.trim()}`,
+      updated: docs.length
+    });
 
   } catch (error) {
-    console.error('[CRON] Error generating recurring expenses:', error);
-    return { success: false, error: error.message };
+    console.error('Error recategorizing recurring history:', error);
+    res.status(500).json({
+      error: 'Failed to recategorize recurring history',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Detach entries from a template; they stay as regular expenses (or income)
+ * Pending estimates must be confirmed first
+ * 
+ * @route   POST /api/recurring-expenses/:id/history/unlink
+ * @access  Private
+ * @body    { expenseIds }
+ */
+const unlinkRecurringHistory = async (req, res) => {
+  try {
+    const loaded = await loadTemplateForLedger(req, res);
+    if (!loaded) return;
+
+    const docs = await loadLedgerEntries(req, res, loaded.collection);
+    if (!docs) return;
+
+    if (docs.some(doc => doc.data().status === 'pending')) {
+      return res.status(409).json({
+        error: 'Expense is pending',
+        message: 'Confirm the amount of pending expenses before unlinking them'
+      });
+    }
+
+    // Their IDs still block regeneration of the same occurrence
+    await updateLedgerEntries(docs, {
+      recurringExpenseId: FieldValue.delete(),
+      occurrenceDate: FieldValue.delete(),
+      updatedAt: new Date().toISOString()
+    });
+
+    res.status(200).json({
+      message: `Unlinked ${docs.length} ${docs.length === 1 ? 'entry' : 'entries'}`,
+      unlinked: docs.length
+    });
+
+  } catch (error) {
+    console.error('Error unlinking recurring history:', error);
+    res.status(500).json({
+      error: 'Failed to unlink recurring history',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Load a template for an exception change, answering 400/403/404/409 itself
+ * 
+ * @returns {Promise<Object|null>} - { docRef, template }, or null when a response was sent
+ */
+const loadTemplateForException = async (req, res) => {
+  const { id, date } = req.params;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: ['Occurrence date must be YYYY-MM-DD']
+    });
+    return null;
+  }
+
+  const docRef = db.collection('recurring_expenses').doc(id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    res.status(404).json({
+      error: 'Recurring expense not found'
+    });
+    return null;
   }
+
+  const template = doc.data();
+
+  // Check ownership
+  if (template.userId !== req.user.uid) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You do not have permission to update this recurring expense'
+    });
+    return null;
+  }
+
+  if (!isScheduledDate(template, date)) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: [`${date} is not a scheduled occurrence of this template`]
+    });
+    return null;
+  }
+
+  if (!isPendingDate(template, date)) {
+    res.status(409).json({
+      error: 'Occurrence already generated',
+      message: 'Edit or delete the generated entry instead'
+    });
+    return null;
+  }
+
+  return { docRef, template };
+};
+
+/**
+ * Whether generation already moved past a scheduled date
+ * 
+ * @param {Object} template - Recurring template data
+ * @param {string} date - Scheduled date (YYYY-MM-DD)
+ * @returns {boolean}
+ */
+const isPassedDate = (template, date) => !!template.lastGenerated && date <= template.lastGenerated;
+
+/**
+ * Save exceptions and recompute nextOccurrence
+ * 
+ * @returns {Promise<Object>} - Updated template with its ID
+ */
+const saveExceptions = async (docRef, template, exceptions) => {
+  const updateData = {
+    exceptions,
+    nextOccurrence: getPendingNextOccurrence({ ...template, exceptions }),
+    updatedAt: new Date().toISOString()
+  };
+
+  await docRef.update(updateData);
+
+  return { id: docRef.id, ...template, ...updateData };
+};
+
+/**
+ * UPDATE: Skip, move or re-price a single occurrence
+ * Changes are merged into any existing exception for that date; skipping replaces it
+ * 
+ * @route   PUT /api/recurring-expenses/:id/exceptions/:date
+ * @access  Private
+ * @body    { skip: true } or { date?: 'YYYY-MM-DD', amount?: number }
+ */
+const setOccurrenceException = async (req, res) => {
+  try {
+    const validation = validateOccurrenceException(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const loaded = await loadTemplateForException(req, res);
+    if (!loaded) return;
+
+    const { docRef, template } = loaded;
+    const { date } = req.params;
+    const exception = sanitizeOccurrenceException(req.body);
+    const existing = (template.exceptions || {})[date];
+
+    // Moving back to the scheduled date is the same as not moving, unless
+    // generation already passed that date (it then stays pending as a move)
+    const merged = exception.skip ? exception : { ...(existing && !existing.skip ? existing : {}), ...exception };
+    if (merged.date === date && !isPassedDate(template, date)) {
+      delete merged.date;
+    }
+
+    const exceptions = { ...template.exceptions };
+    if (Object.keys(merged).length > 0) {
+      exceptions[date] = merged;
+    } else {
+      delete exceptions[date];
+    }
+
+    const recurringExpense = await saveExceptions(docRef, template, exceptions);
+
+    res.status(200).json({
+      message: exception.skip ? 'Occurrence skipped' : 'Occurrence updated',
+      recurringExpense
+    });
+
+  } catch (error) {
+    console.error('Error updating occurrence:', error);
+    res.status(500).json({
+      error: 'Failed to update occurrence',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * DELETE: Restore a single occurrence to its schedule and amount
+ * 
+ * @route   DELETE /api/recurring-expenses/:id/exceptions/:date
+ * @access  Private
+ */
+const removeOccurrenceException = async (req, res) => {
+  try {
+    const loaded = await loadTemplateForException(req, res);
+    if (!loaded) return;
+
+    const { docRef, template } = loaded;
+    const { date } = req.params;
+
+    if (!template.exceptions || !template.exceptions[date]) {
+      return res.status(404).json({
+        error: 'Exception not found',
+        message: `${date} has no exception`
+      });
+    }
+
+    // A moved occurrence the schedule already passed is moved back onto its own date
+    const exceptions = { ...template.exceptions };
+    if (isPassedDate(template, date)) {
+      exceptions[date] = { date };
+    } else {
+      delete exceptions[date];
+    }
+
+    const recurringExpense = await saveExceptions(docRef, template, exceptions);
+
+    res.status(200).json({
+      message: 'Occurrence restored',
+      recurringExpense
+    });
+
+  } catch (error) {
+    console.error('Error restoring occurrence:', error);
+    res.status(500).json({
+      error: 'Failed to restore occurrence',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * Generate every due occurrence of one template in a transaction
+ * Occurrences that already have an entry are skipped, so reruns are safe
+ * 
+ * @param {DocumentReference} templateRef - Recurring template reference
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @returns {Promise<Object>} - { generated, skipped, deactivated }
+ */
+const catchUpTemplate = (templateRef, today) => {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(templateRef);
+    const template = doc.data();
+
+    // Paused or switched to manual since the query ran
+    if (!template.isActive || !template.autoGenerate) {
+      return { generated: 0, skipped: 0, deactivated: false, template, changes: [] };
+    }
+
+    const due = getDueOccurrences(template, today);
+    const lastGenerated = due.lastGenerated;
+    const occurrences = due.occurrences.length > 0
+      ? applyEstimate(due.occurrences, await getTemplateEstimate(transaction, doc.id, template))
+      : [];
+    const refs = occurrences.map(occurrence => generatedEntryRef(doc.id, template, occurrence.occurrenceDate));
+    const existing = refs.length > 0 ? await transaction.getAll(...refs) : [];
+
+    const created = [];
+    existing.forEach((snapshot, index) => {
+      if (!snapshot.exists) {
+        transaction.create(refs[index], buildGeneratedEntry(doc.id, template, occurrences[index]).entry);
+        created.push(occurrences[index]);
+      }
+    });
+    const generated = created.length;
+    const { changes, ...prices } = recordCharges(template, created);
+
+    const updateData = { lastGenerated, ...prices, updatedAt: new Date().toISOString() };
+    if (template.exceptions) {
+      updateData.exceptions = markMovedGenerated(template.exceptions, occurrences);
+    }
+    updateData.nextOccurrence = getPendingNextOccurrence({ ...template, ...updateData });
+
+    // No occurrences left before the end date or occurrence count
+    const deactivated = updateData.nextOccurrence === null;
+    if (deactivated) {
+      updateData.isActive = false;
+    }
+
+    transaction.update(templateRef, updateData);
+
+    return { generated, skipped: occurrences.length - generated, deactivated, template, changes };
+  });
+};
+
+/**
+ * CRON JOB: Auto-generate expenses from recurring templates
+ * Catches up on every occurrence missed while the server was down
+ * and records the run in the job history
+ * 
+ * @param {string} trigger - 'cron', 'startup' or 'manual'
+ * @returns {Promise<Object>} - { success, runId, generated, ... }
+ */
+const generateDueExpenses = async (trigger = 'cron') => {
+  const run = await runJob('generate-recurring', trigger, async () => {
+    const today = new Date().toISOString().split('T')[0];
+
+    console.log(`[CRON] Checking for recurring expenses due on or before ${today}...`);
+
+    // Get all active recurring expenses with an occurrence due
+    const snapshot = await db.collection('recurring_expenses')
+      .where('isActive', '==', true)
+      .where('autoGenerate', '==', true)
+      .where('nextOccurrence', '<=', today)
+      .get();
+
+    const result = {
+      templates: snapshot.size,
+      generated: 0,
+      skipped: 0,
+      deactivated: 0,
+      failures: []
+    };
+
+    // One transaction per template so a failure only affects that template
+    for (const doc of snapshot.docs) {
+      try {
+        const outcome = await catchUpTemplate(doc.ref, today);
+        result.generated += outcome.generated;
+        result.skipped += outcome.skipped;
+        if (outcome.deactivated) result.deactivated++;
+
+        for (const change of outcome.changes) {
+          await notifyPriceIncrease(doc.id, outcome.template, change);
+        }
+      } catch (error) {
+        console.error(`[CRON] Failed to generate template ${doc.id}:`, error);
+        result.failures.push({ templateId: doc.id, error: error.message });
+      }
+    }
+
+    console.log(`[CRON] Generated ${result.generated} expenses from ${result.templates} recurring templates`);
+    return result;
+  });
+
+  return {
+    success: run.status !== 'failed',
+    runId: run.runId,
+    status: run.status,
+    ...run.result,
+    error: run.error
+  };
+};
+
+/**
+ * Build the reminder sent ahead of one occurrence
+ * 
+ * @param {string} templateId - Recurring template ID
+ * @param {Object} template - Recurring template data
+ * @param {Object} occurrence - Occurrence (see toOccurrence)
+ * @param {Object} preferences - User preferences (currency, locale)
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @returns {Object} - Notification
+ */
+const buildReminder = (templateId, template, occurrence, preferences, today) => {
+  const daysUntil = Math.round((new Date(occurrence.date) - new Date(today)) / (1000 * 60 * 60 * 24));
+  const when = daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
+  const estimated = template.amountMode === 'estimated' && template.type !== 'income';
+  const amount = `${estimated ? 'about ' : ''}${formatMoney(occurrence.amount, preferences.currency, preferences.locale)}`;
+  const verb = template.type === 'income' ? 'is expected' : 'is due';
+
+  return {
+    userId: template.userId,
+    type: 'recurring-reminder',
+    title: `${template.templateName} ${verb} ${when}`,
+    message: `${template.templateName} (${amount}) ${verb} on ${occurrence.date}.`,
+    link: '/recurring',
+    data: {
+      recurringExpenseId: templateId,
+      occurrenceDate: occurrence.occurrenceDate,
+      date: occurrence.date,
+      amount: occurrence.amount
+    }
+  };
+};
+
+/**
+ * Claim the reminder of one occurrence so it is only ever sent once
+ * Reminder records use `<templateId>_<occurrenceDate>` as their ID
+ * 
+ * @returns {Promise<DocumentReference|null>} - The claimed record, or null if already sent
+ */
+const claimReminder = (templateId, template, occurrence) => {
+  const reminderRef = db.collection('reminders').doc(`${templateId}_${occurrence.occurrenceDate}`);
+
+  return db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(reminderRef);
+    if (existing.exists) {
+      return null;
+    }
+
+    transaction.create(reminderRef, {
+      userId: template.userId,
+      recurringExpenseId: templateId,
+      occurrenceDate: occurrence.occurrenceDate,
+      date: occurrence.date,
+      status: 'sending',
+      createdAt: new Date().toISOString()
+    });
+    return reminderRef;
+  });
+};
+
+/**
+ * CRON JOB: Remind users of occurrences coming up within each template's reminderDays
+ * Each occurrence is reminded once; if every channel fails, or sending throws,
+ * the claim is released so the next run tries again
+ * 
+ * @param {string} trigger - 'cron', 'startup' or 'manual'
+ * @returns {Promise<Object>} - { success, runId, sent, ... }
+ */
+const sendDueReminders = async (trigger = 'cron') => {
+  const run = await runJob('send-reminders', trigger, async () => {
+    const today = new Date().toISOString().split('T')[0];
+
+    // No template reminds earlier than MAX_REMINDER_DAYS ahead
+    const snapshot = await db.collection('recurring_expenses')
+      .where('isActive', '==', true)
+      .where('nextOccurrence', '<=', addDays(today, MAX_REMINDER_DAYS))
+      .get();
+
+    const result = {
+      templates: 0,
+      sent: 0,
+      alreadySent: 0,
+      failures: []
+    };
+    const preferencesByUser = new Map();
+
+    for (const doc of snapshot.docs) {
+      const template = doc.data();
+      if (!template.reminderDays) continue;
+
+      const windowEnd = addDays(today, template.reminderDays);
+      const occurrences = listPendingOccurrences(template, { until: windowEnd })
+        .filter(occurrence => occurrence.date >= today && occurrence.date <= windowEnd);
+      if (occurrences.length === 0) continue;
+
+      result.templates++;
+
+      if (!preferencesByUser.has(template.userId)) {
+        preferencesByUser.set(template.userId, await getNotificationPreferences(template.userId));
+      }
+      const preferences = preferencesByUser.get(template.userId);
+
+      for (const occurrence of occurrences) {
+        let reminderRef = null;
+        try {
+          reminderRef = await claimReminder(doc.id, template, occurrence);
+          if (!reminderRef) {
+            result.alreadySent++;
+            continue;
+          }
+
+          const channels = await dispatch(buildReminder(doc.id, template, occurrence, preferences, today));
+
+          // Deliveries being retried count as sent; a user with no channels simply gets none
+          if (channels.length > 0 && channels.every(channel => channel.status === 'failed')) {
+            await reminderRef.delete();
+            result.failures.push({
+              templateId: doc.id,
+              occurrenceDate: occurrence.occurrenceDate,
+              error: `Every delivery failed (${channels.map(channel => channel.channel).join(', ')})`
+            });
+            continue;
+          }
+
+          await reminderRef.update({ status: 'sent', channels, sentAt: new Date().toISOString() });
+          result.sent++;
+        } catch (error) {
+          console.error(`[CRON] Failed to remind template ${doc.id} (${occurrence.occurrenceDate}):`, error);
+          result.failures.push({ templateId: doc.id, occurrenceDate: occurrence.occurrenceDate, error: error.message });
+
+          // Release the claim so the next run tries again
+          if (reminderRef) {
+            await reminderRef.delete().catch(deleteError => {
+              console.error(`[CRON] Failed to release reminder ${reminderRef.id}:`, deleteError);
+            });
+          }
+        }
+      }
+    }
+
+    console.log(`[CRON] Sent ${result.sent} reminders for ${result.templates} recurring templates`);
+    return result;
+  });
+
+  return {
+    success: run.status !== 'failed',
+    runId: run.runId,
+    status: run.status,
+    ...run.result,
+    error: run.error
+  };
 };
 
 module.exports = {
@@ -560,8 +2100,21 @@ module.exports = {
   getRecurringExpenses,
   getUpcomingRecurringExpenses,
   getRecurringExpenseById,
+  getRecurringSchedule,
+  previewRecurringSchedule,
   updateRecurringExpense,
   deleteRecurringExpense,
   generateExpenseFromRecurring,
-  generateDueExpenses
+  getPendingConfirmations,
+  confirmGeneratedAmount,
+  getDetectedSubscriptions,
+  acceptDetectedSubscription,
+  getRecurringHistory,
+  recategorizeRecurringHistory,
+  unlinkRecurringHistory,
+  setOccurrenceException,
+  removeOccurrenceException,
+  generateDueExpenses,
+  sendDueReminders,
+  listPendingOccurrences
 };
\ No newline at end of file
@@ -0,0 +1,279 @@
+// backend/src/controllers/userController.js
+
+/**
+ * User Controller
+ * 
+ * Reads and updates the preferences stored on the user document
+ */
+
+const { db } = require('../config/firebase');
+const { FieldValue } = require('firebase-admin/firestore');
+const {
+  validatePreferences,
+  sanitizePreferences,
+  withPreferenceDefaults
+} = require('../models/userPreferencesModel');
+const { getExchangeRate } = require('./exchangeRateController');
+const { buildConversion, roundMoney } = require('../utils/currency');
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+/**
+ * Commit document updates in batches of BATCH_LIMIT
+ * 
+ * @param {Array} updates - [{ ref, data }]
+ */
+const commitInBatches = async (updates) => {
+  for (let i = 0; i < updates.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    updates.slice(i, i + BATCH_LIMIT).forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+/**
+ * Re-express a user's money in a new home currency
+ * 
+ * Expenses and income are re-converted from the amount they were entered in, using the
+ * rate for their own date. Budget limits and recurring amounts (which are
+ * kept in the home currency) are converted at today's rate.
+ * Nothing is written unless every rate needed is available.
+ * 
+ * The writes span several batches, so every converted document is stamped with
+ * its `homeCurrency` and the switch is recorded as `currencyRebase` on the user
+ * document until updatePreferences saves the new currency. Running the rebase
+ * again after a failure converts only the documents still in the old currency.
+ * 
+ * @param {string} userId - User ID
+ * @param {string} from - Current home currency
+ * @param {string} to - New home currency
+ * @returns {Promise<Object>} - { missing: string[] } or { expenses, income, budgets, recurring } converted counts
+ */
+const rebaseHomeCurrency = async (userId, from, to) => {
+  const today = new Date().toISOString().split('T')[0];
+  const missing = new Set();
+  const rateCache = new Map();
+
+  const rateFor = async (currency, date) => {
+    const key = `${currency}|${date}`;
+    if (!rateCache.has(key)) {
+      const rate = await getExchangeRate(userId, currency, to, date);
+      rateCache.set(key, rate ? rate.rate : null);
+      if (!rate) missing.add(`${currency} → ${to} on ${date}`);
+    }
+    return rateCache.get(key);
+  };
+
+  // Step 1: Work out every conversion before writing anything
+  const [expenseSnapshot, incomeSnapshot, budgetSnapshot, recurringSnapshot] = await Promise.all([
+    db.collection('expenses').where('userId', '==', userId).get(),
+    db.collection('income').where('userId', '==', userId).get(),
+    db.collection('budgets').where('userId', '==', userId).get(),
+    db.collection('recurring_expenses').where('userId', '==', userId).get()
+  ]);
+
+  // Documents a failed earlier run already converted
+  const pending = (snapshot) => snapshot.docs.filter(doc => (doc.data().homeCurrency || from) !== to);
+  const expenseDocs = pending(expenseSnapshot);
+  const incomeDocs = pending(incomeSnapshot);
+  const budgetDocs = pending(budgetSnapshot);
+  const recurringDocs = pending(recurringSnapshot);
+
+  const updates = [];
+  const now = new Date().toISOString();
+
+  for (const doc of [...expenseDocs, ...incomeDocs]) {
+    const expense = doc.data();
+    const currency = expense.currency || from;
+    const rate = await rateFor(currency, expense.date);
+    if (rate === null) continue;
+
+    const data = {
+      ...buildConversion(expense.originalAmount ?? expense.amount, currency, rate, to),
+      updatedAt: now
+    };
+
+    // Estimates waiting for confirmation were made in the old home currency
+    if (expense.estimatedAmount !== undefined) {
+      data.estimatedAmount = roundMoney(expense.estimatedAmount * rate);
+    }
+
+    updates.push({ ref: doc.ref, data });
+  }
+
+  const needsTodayRate = budgetDocs.length > 0 || recurringDocs.length > 0;
+  const todayRate = needsTodayRate ? await rateFor(from, today) : null;
+
+  if (missing.size > 0) {
+    return { missing: [...missing] };
+  }
+
+  budgetDocs.forEach(doc => {
+    const budget = doc.data();
+    updates.push({
+      ref: doc.ref,
+      data: {
+        categoryBudgets: budget.categoryBudgets.map(cb => ({
+          ...cb,
+          limit: roundMoney(cb.limit * todayRate),
+          // The next period's rollover reads remaining; caps are amounts too
+          ...(cb.remaining !== undefined && { remaining: roundMoney(cb.remaining * todayRate) }),
+          ...(typeof cb.rolloverCap === 'number' && { rolloverCap: roundMoney(cb.rolloverCap * todayRate) })
+        })),
+        totalLimit: roundMoney(budget.totalLimit * todayRate),
+        homeCurrency: to,
+        updatedAt: now
+      }
+    });
+  });
+
+  recurringDocs.forEach(doc => {
+    const template = doc.data();
+    const data = {
+      amount: roundMoney(template.amount * todayRate),
+      homeCurrency: to,
+      updatedAt: now
+    };
+
+    // One-off amounts of occurrence exceptions are in the home currency too
+    if (template.exceptions) {
+      data.exceptions = Object.fromEntries(Object.entries(template.exceptions).map(([date, exception]) => [
+        date,
+        exception.amount !== undefined ? { ...exception, amount: roundMoney(exception.amount * todayRate) } : exception
+      ]));
+    }
+
+    // Keep the price history comparable with the new amounts
+    if (template.priceHistory) {
+      data.priceHistory = template.priceHistory.map(entry => ({
+        ...entry,
+        amount: roundMoney(entry.amount * todayRate),
+        ...(entry.previousAmount !== undefined ? { previousAmount: roundMoney(entry.previousAmount * todayRate) } : {})
+      }));
+    }
+
+    updates.push({ ref: doc.ref, data });
+  });
+
+  // Step 2: Record the switch, then write everything
+  await db.collection('users').doc(userId).set({
+    currencyRebase: { from, to, startedAt: now }
+  }, { merge: true });
+
+  await commitInBatches(updates);
+
+  return {
+    expenses: expenseDocs.length,
+    income: incomeDocs.length,
+    budgets: budgetDocs.length,
+    recurring: recurringDocs.length
+  };
+};
+
+/**
+ * READ: Get the logged-in user's preferences
+ * 
+ * @route   GET /api/user/preferences
+ * @access  Private
+ */
+const getPreferences = async (req, res) => {
+  try {
+    const userDoc = await db.collection('users').doc(req.user.uid).get();
+    const stored = userDoc.exists ? userDoc.data().preferences : {};
+
+    res.status(200).json({
+      preferences: withPreferenceDefaults(stored)
+    });
+
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    res.status(500).json({
+      error: 'Failed to fetch preferences',
+      message: error.message
+    });
+  }
+};
+
+/**
+ * UPDATE: Change some of the logged-in user's preferences
+ * Changing the home currency converts existing expenses, income, budgets and
+ * recurring amounts; it fails with 409 if an exchange rate is missing.
+ * A switch that failed partway must be finished (by saving the same
+ * currency again) before the currency can change to anything else
+ * 
+ * @route   PATCH /api/user/preferences
+ * @access  Private
+ * @body    { currency?, locale?, timezone?, weekStartsOn?, dateFormat?, landingPage? }
+ */
+const updatePreferences = async (req, res) => {
+  try {
+    const userId = req.user.uid;
+
+    // Step 1: Validate input
+    const validation = validatePreferences(req.body);
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+    }
+
+    const changes = sanitizePreferences(req.body);
+
+    // Step 2: Load current preferences
+    const userRef = db.collection('users').doc(userId);
+    const userDoc = await userRef.get();
+    const current = withPreferenceDefaults(userDoc.exists ? userDoc.data().preferences : {});
+    const unfinished = userDoc.exists ? userDoc.data().currencyRebase : null;
+
+    if (unfinished && changes.currency && changes.currency !== unfinished.to) {
+      return res.status(409).json({
+        error: 'Currency change in progress',
+        message: `Switching to ${unfinished.to} did not finish. Save ${unfinished.to} again to complete it first`
+      });
+    }
+
+    // Step 3: Convert stored amounts when the home currency changes (or resume a failed switch)
+    let rebased = null;
+    if (changes.currency && (unfinished || changes.currency !== current.currency)) {
+      const from = unfinished ? unfinished.from : current.currency;
+      rebased = await rebaseHomeCurrency(userId, from, changes.currency);
+
+      if (rebased.missing) {
+        return res.status(409).json({
+          error: 'Exchange rates missing',
+          message: `Add exchange rates before switching to ${changes.currency}`,
+          details: rebased.missing
+        });
+      }
+    }
+
+    // Step 4: Save merged preferences
+    const preferences = { ...current, ...changes };
+    await userRef.set({
+      preferences,
+      ...(rebased && { currencyRebase: FieldValue.delete() }),
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+
+    res.status(200).json({
+      message: 'Preferences updated successfully',
+      preferences,
+      ...(rebased && { converted: rebased })
+    });
+
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    res.status(500).json({
+      error: 'Failed to update preferences',
+      message: error.message
+    });
+  }
+};
+
+module.exports = {
+  getPreferences,
+  updatePreferences
+};
@@ -65,6 +65,7 @@ const verifyToken = async (req, res, next) => {
       uid: decodedToken.uid,           // Firebase user ID
       email: decodedToken.email,       // User's email
       emailVerified: decodedToken.email_verified,
+      admin: decodedToken.admin === true, // Custom claim set with the Admin SDK
       // Add any other fields you need from the token
     };
 
@@ -130,8 +131,29 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
-// Export both middleware functions
+/**
+ * Admin-only Middleware (use after verifyToken)
+ * Admins have the `admin` custom claim or are listed in ADMIN_UIDS (comma-separated)
+ */
+const requireAdmin = (req, res, next) => {
+  const adminUids = (process.env.ADMIN_UIDS || '')
+    .split(',')
+    .map(uid => uid.trim())
+    .filter(Boolean);
+
+  if (req.user && (req.user.admin || adminUids.includes(req.user.uid))) {
+    return next();
+  }
+
+  return res.status(403).json({
+    error: 'Forbidden',
+    message: 'Admin access required'
+  });
+};
+
+// Export the middleware functions
 module.exports = {
   verifyToken,
-  optionalAuth
+  optionalAuth,
+  requireAdmin
 };
\ No newline at end of file
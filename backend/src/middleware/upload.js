@@ -0,0 +1,46 @@
+// backend/src/middleware/upload.js
+
+/**
+ * Upload Middleware
+ * 
+ * Parses multipart/form-data uploads into memory with multer
+ * Files are validated in the controller before being stored
+ */
+
+const multer = require('multer');
+const { MAX_ATTACHMENT_SIZE, MAX_FILES_PER_UPLOAD } = require('../models/attachmentModel');
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: MAX_FILES_PER_UPLOAD
+  }
+});
+
+/**
+ * Accept up to MAX_FILES_PER_UPLOAD files in the "files" field
+ * Multer limit errors become 400 responses instead of falling through to the error handler
+ */
+const uploadAttachments = (req, res, next) => {
+  upload.array('files', MAX_FILES_PER_UPLOAD)(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      const messages = {
+        LIMIT_FILE_SIZE: `Files must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`,
+        LIMIT_FILE_COUNT: `Upload at most ${MAX_FILES_PER_UPLOAD} files at a time`,
+        LIMIT_UNEXPECTED_FILE: 'Files must be sent in the "files" field'
+      };
+
+      return res.status(400).json({
+        error: 'Invalid upload',
+        message: messages[error.code] || error.message
+      });
+    }
+
+    next(error);
+  });
+};
+
+module.exports = {
+  uploadAttachments
+};
@@ -0,0 +1,96 @@
+// backend/src/models/attachmentModel.js
+
+/**
+ * Attachment Validation
+ * 
+ * Size and type checks for receipt files attached to expenses
+ */
+
+// 10 MB per file
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_EXPENSE = 10;
+const MAX_FILES_PER_UPLOAD = 5;
+
+/**
+ * Allowed MIME types with the leading bytes ("magic numbers") each must start with,
+ * so a renamed executable can't be uploaded as a "receipt.pdf"
+ */
+const ALLOWED_MIME_TYPES = {
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]], // "RIFF" (WEBP marker checked below)
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]] // "%PDF"
+};
+
+/**
+ * Check that a buffer starts with one of the expected signatures
+ * 
+ * @param {Buffer} buffer - File contents
+ * @param {string} mimeType - Declared MIME type
+ * @returns {boolean}
+ */
+const matchesSignature = (buffer, mimeType) => {
+  const signatures = ALLOWED_MIME_TYPES[mimeType] || [];
+  const matches = signatures.some(signature =>
+    signature.every((byte, index) => buffer[index] === byte)
+  );
+
+  if (matches && mimeType === 'image/webp') {
+    return buffer.toString('ascii', 8, 12) === 'WEBP';
+  }
+
+  return matches;
+};
+
+/**
+ * Validate an uploaded file
+ * 
+ * @param {Object} file - Multer file ({ originalname, mimetype, size, buffer })
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateAttachmentFile = (file) => {
+  const errors = [];
+  const name = file.originalname || 'File';
+
+  if (!ALLOWED_MIME_TYPES[file.mimetype]) {
+    errors.push(`${name}: type ${file.mimetype} is not allowed. Upload a JPEG, PNG, WebP, GIF or PDF`);
+  } else if (!matchesSignature(file.buffer, file.mimetype)) {
+    errors.push(`${name}: contents do not match type ${file.mimetype}`);
+  }
+
+  if (file.size === 0) {
+    errors.push(`${name}: file is empty`);
+  } else if (file.size > MAX_ATTACHMENT_SIZE) {
+    errors.push(`${name}: file must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Make an uploaded file name safe to store and send back in headers
+ * 
+ * @param {string} fileName - Original file name
+ * @returns {string} - Sanitized file name
+ */
+const sanitizeFileName = (fileName) => {
+  const cleaned = (fileName || '')
+    .replace(/[^\w.\- ]+/g, '_')
+    .trim()
+    .slice(0, 120);
+
+  return cleaned || 'receipt';
+};
+
+module.exports = {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_EXPENSE,
+  MAX_FILES_PER_UPLOAD,
+  ALLOWED_MIME_TYPES,
+  validateAttachmentFile,
+  sanitizeFileName
+};
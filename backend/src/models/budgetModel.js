@@ -6,6 +6,35 @@
  * Validates budget data for monthly/category budgets
  */
 
+// What a category carries into the next period: unspent money, overspending, or nothing
+const ROLLOVER_MODES = ['none', 'surplus', 'deficit'];
+
+// Budget types whose next period can be worked out, so they can renew themselves
+const RENEWABLE_TYPES = ['monthly', 'weekly'];
+
+/**
+ * Validate the rollover settings of a category budget
+ * 
+ * @param {Object} catBudget - Category budget
+ * @param {number} index - Position, for messages
+ * @returns {Array<string>} - Error messages
+ */
+const validateRollover = (catBudget, index) => {
+  const errors = [];
+
+  if (catBudget.rollover !== undefined && !ROLLOVER_MODES.includes(catBudget.rollover)) {
+    errors.push(`Category budget ${index + 1}: rollover must be one of: ${ROLLOVER_MODES.join(', ')}`);
+  }
+
+  if (catBudget.rolloverCap !== undefined && catBudget.rolloverCap !== null) {
+    if (typeof catBudget.rolloverCap !== 'number' || catBudget.rolloverCap < 0) {
+      errors.push(`Category budget ${index + 1}: rollover cap must be a positive number`);
+    }
+  }
+
+  return errors;
+};
+
 /**
  * Validate budget data
  * 
@@ -82,10 +111,21 @@ const validateBudget = (data) => {
       } else if (catBudget.limit > 1000000) {
         errors.push(`Category budget ${index + 1}: limit cannot exceed 1,000,000`);
       }
+
+      errors.push(...validateRollover(catBudget, index));
     });
   }
 
-  // 5. Validate alerts (optional)
+  // 5. Validate auto-renewal (optional)
+  if (data.autoRenew !== undefined) {
+    if (typeof data.autoRenew !== 'boolean') {
+      errors.push('autoRenew must be a boolean');
+    } else if (data.autoRenew && data.type && !RENEWABLE_TYPES.includes(data.type)) {
+      errors.push('Only monthly and weekly budgets can auto-renew');
+    }
+  }
+
+  // 6. Validate alerts (optional)
   if (data.alerts && Array.isArray(data.alerts)) {
     data.alerts.forEach((alert, index) => {
       if (!alert.category) {
@@ -125,6 +165,8 @@ const sanitizeBudget = (data) => {
     categoryBudgets: data.categoryBudgets.map(cb => ({
       category: cb.category.trim(),
       limit: parseFloat(cb.limit),
+      rollover: cb.rollover || 'none',
+      rolloverCap: cb.rolloverCap ?? null,
       spent: 0,
       remaining: parseFloat(cb.limit),
       percentage: 0
@@ -138,7 +180,8 @@ const sanitizeBudget = (data) => {
       triggered: false,
       triggeredAt: null
     })) : [],
-    isActive: data.isActive !== undefined ? data.isActive : true
+    isActive: data.isActive !== undefined ? data.isActive : true,
+    autoRenew: data.autoRenew === true
   };
 };
 
@@ -180,6 +223,8 @@ const validatePartialBudget = (data) => {
             errors.push(`Category budget ${index + 1}: limit must be a positive number`);
           }
         }
+
+        errors.push(...validateRollover(catBudget, index));
       });
     }
   }
@@ -188,6 +233,10 @@ const validatePartialBudget = (data) => {
     errors.push('isActive must be a boolean');
   }
 
+  if (data.autoRenew !== undefined && typeof data.autoRenew !== 'boolean') {
+    errors.push('autoRenew must be a boolean');
+  }
+
   return {
     isValid: errors.length === 0,
     errors: errors
@@ -195,6 +244,8 @@ const validatePartialBudget = (data) => {
 };
 
 module.exports = {
+  ROLLOVER_MODES,
+  RENEWABLE_TYPES,
   validateBudget,
   sanitizeBudget,
   validatePartialBudget
@@ -0,0 +1,80 @@
+// backend/src/models/exchangeRateModel.js
+
+/**
+ * Exchange Rate Data Validation
+ * 
+ * A rate says how many units of `quote` one unit of `base` buys on `date`
+ * e.g. { base: 'EUR', quote: 'USD', rate: 1.08, date: '2026-03-01' }
+ */
+
+const { isValidCurrencyCode } = require('../utils/currency');
+
+/**
+ * Validate exchange rate data
+ * 
+ * @param {Object} data - Exchange rate data to validate
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateExchangeRate = (data) => {
+  const errors = [];
+  const base = typeof data.base === 'string' ? data.base.toUpperCase() : data.base;
+  const quote = typeof data.quote === 'string' ? data.quote.toUpperCase() : data.quote;
+
+  // 1. Validate currencies
+  if (!data.base) {
+    errors.push('Base currency is required');
+  } else if (!isValidCurrencyCode(base)) {
+    errors.push('Base currency must be a 3-letter currency code');
+  }
+
+  if (!data.quote) {
+    errors.push('Quote currency is required');
+  } else if (!isValidCurrencyCode(quote)) {
+    errors.push('Quote currency must be a 3-letter currency code');
+  }
+
+  if (base && quote && base === quote) {
+    errors.push('Base and quote currencies must be different');
+  }
+
+  // 2. Validate rate
+  if (data.rate === undefined || data.rate === null) {
+    errors.push('Rate is required');
+  } else if (typeof data.rate !== 'number' || isNaN(data.rate)) {
+    errors.push('Rate must be a number');
+  } else if (data.rate <= 0) {
+    errors.push('Rate must be greater than 0');
+  }
+
+  // 3. Validate date
+  if (!data.date) {
+    errors.push('Date is required');
+  } else if (typeof data.date !== 'string' || isNaN(new Date(data.date).getTime())) {
+    errors.push('Date must be a valid ISO date string (YYYY-MM-DD)');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Sanitize exchange rate data
+ * 
+ * @param {Object} data - Raw exchange rate data
+ * @returns {Object} - Sanitized exchange rate data
+ */
+const sanitizeExchangeRate = (data) => {
+  return {
+    base: data.base.toUpperCase(),
+    quote: data.quote.toUpperCase(),
+    rate: data.rate,
+    date: data.date.split('T')[0]
+  };
+};
+
+module.exports = {
+  validateExchangeRate,
+  sanitizeExchangeRate
+};
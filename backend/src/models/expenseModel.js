@@ -7,6 +7,197 @@
  * Ensures data integrity before saving to database
  */
 
+const { isValidCurrencyCode, roundMoney } = require('../utils/currency');
+
+// Upper bound on split lines per expense
+const MAX_SPLITS = 20;
+
+// Tags are short lowercase slugs such as "trip-goa-2026"
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Normalize a tag: trim, lowercase and turn whitespace into dashes
+ * 
+ * @param {string} tag - Raw tag
+ * @returns {string} - Normalized tag
+ */
+const normalizeTag = (tag) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Validate expense tags
+ * 
+ * @param {Array} tags - Tags to validate
+ * @returns {Array<string>} - Error messages
+ */
+const validateTags = (tags) => {
+  const errors = [];
+
+  if (!Array.isArray(tags)) {
+    return ['Tags must be an array of strings'];
+  }
+
+  if (tags.length > MAX_TAGS) {
+    errors.push(`An expense can have at most ${MAX_TAGS} tags`);
+  }
+
+  tags.forEach(tag => {
+    if (typeof tag !== 'string') {
+      errors.push('Tags must be strings');
+      return;
+    }
+
+    const normalized = normalizeTag(tag);
+    if (normalized.length === 0) {
+      errors.push('Tags cannot be empty');
+    } else if (normalized.length > MAX_TAG_LENGTH) {
+      errors.push(`Tag "${tag}" must be at most ${MAX_TAG_LENGTH} characters`);
+    } else if (!TAG_PATTERN.test(normalized)) {
+      errors.push(`Tag "${tag}" may only contain letters, numbers, dashes and underscores`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Sanitize tags: normalize and drop duplicates
+ * 
+ * @param {Array} tags - Raw tags
+ * @returns {Array<string>} - Sanitized tags
+ */
+const sanitizeTags = (tags) => {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  return [...new Set(tags.map(normalizeTag))];
+};
+
+/**
+ * Validate split lines of an expense
+ * Each split carries its own amount, category and optional note
+ * 
+ * @param {Array} splits - Split lines
+ * @returns {Array<string>} - Error messages
+ */
+const validateSplits = (splits) => {
+  const errors = [];
+
+  if (!Array.isArray(splits)) {
+    return ['Splits must be an array'];
+  }
+
+  // An empty array clears the split
+  if (splits.length === 0) {
+    return errors;
+  }
+
+  if (splits.length < 2) {
+    errors.push('A split expense needs at least 2 split lines');
+  } else if (splits.length > MAX_SPLITS) {
+    errors.push(`An expense can have at most ${MAX_SPLITS} split lines`);
+  }
+
+  splits.forEach((split, index) => {
+    const line = `Split ${index + 1}`;
+
+    if (!split || typeof split !== 'object') {
+      errors.push(`${line} must be an object`);
+      return;
+    }
+
+    if (typeof split.amount !== 'number' || isNaN(split.amount)) {
+      errors.push(`${line}: amount must be a number`);
+    } else if (split.amount <= 0) {
+      errors.push(`${line}: amount must be greater than 0`);
+    }
+
+    if (!split.category || typeof split.category !== 'string' || split.category.trim().length === 0) {
+      errors.push(`${line}: category is required`);
+    } else if (split.category.length > 50) {
+      errors.push(`${line}: category must be less than 50 characters`);
+    }
+
+    if (split.note !== undefined && split.note !== null) {
+      if (typeof split.note !== 'string') {
+        errors.push(`${line}: note must be a string`);
+      } else if (split.note.length > 200) {
+        errors.push(`${line}: note must be less than 200 characters`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Check that split lines add up to the expense amount
+ * 
+ * @param {number} amount - Expense total
+ * @param {Array} splits - Split lines (already structurally valid)
+ * @returns {string|null} - Error message or null
+ */
+const validateSplitTotal = (amount, splits) => {
+  if (!Array.isArray(splits) || splits.length === 0) {
+    return null;
+  }
+
+  const splitTotal = splits.reduce((sum, split) => sum + split.amount, 0);
+
+  // Compare in cents to avoid floating point noise
+  if (Math.round(splitTotal * 100) !== Math.round(amount * 100)) {
+    return `Split amounts (${splitTotal.toFixed(2)}) must add up to the expense amount (${amount.toFixed(2)})`;
+  }
+
+  return null;
+};
+
+/**
+ * Sanitize split lines
+ * 
+ * @param {Array} splits - Raw split lines
+ * @returns {Array} - Sanitized split lines
+ */
+const sanitizeSplits = (splits) => {
+  if (!Array.isArray(splits)) {
+    return [];
+  }
+
+  return splits.map(split => {
+    const line = {
+      amount: parseFloat(split.amount),
+      category: split.category.trim()
+    };
+    if (split.note && split.note.trim()) {
+      line.note = split.note.trim();
+    }
+    return line;
+  });
+};
+
+/**
+ * Get how much of an expense belongs to each category, in the home currency
+ * Split expenses contribute each line to its own category,
+ * everything else contributes its full amount to its category
+ * 
+ * @param {Object} expense - Expense document
+ * @returns {Array} - [{ category, amount }]
+ */
+const getCategoryAllocations = (expense) => {
+  if (Array.isArray(expense.splits) && expense.splits.length > 0) {
+    // Split lines are in the expense currency; convert them like the total
+    const rate = expense.exchangeRate || 1;
+    return expense.splits.map(split => ({
+      category: split.category,
+      amount: roundMoney(split.amount * rate)
+    }));
+  }
+
+  return [{ category: expense.category, amount: expense.amount }];
+};
+
 /**
  * Validate expense data
  * 
@@ -67,6 +258,29 @@ const validateExpense = (data) => {
     errors.push('aiSuggested must be a boolean');
   }
 
+  // 6. Validate currency (optional field, defaults to the home currency)
+  if (data.currency !== undefined && data.currency !== null) {
+    if (typeof data.currency !== 'string' || !isValidCurrencyCode(data.currency.toUpperCase())) {
+      errors.push('Currency must be a 3-letter currency code (e.g. USD, EUR)');
+    }
+  }
+
+  // 7. Validate tags (optional field)
+  if (data.tags !== undefined && data.tags !== null) {
+    errors.push(...validateTags(data.tags));
+  }
+
+  // 8. Validate splits (optional field)
+  if (data.splits !== undefined && data.splits !== null) {
+    const splitErrors = validateSplits(data.splits);
+    errors.push(...splitErrors);
+
+    if (splitErrors.length === 0 && typeof data.amount === 'number') {
+      const totalError = validateSplitTotal(data.amount, data.splits);
+      if (totalError) errors.push(totalError);
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors: errors
@@ -86,7 +300,10 @@ const sanitizeExpense = (data) => {
     category: data.category.trim(),
     description: data.description.trim(),
     date: data.date,
-    aiSuggested: data.aiSuggested || false
+    aiSuggested: data.aiSuggested || false,
+    currency: data.currency ? data.currency.toUpperCase() : null,
+    tags: sanitizeTags(data.tags),
+    splits: sanitizeSplits(data.splits)
   };
 };
 
@@ -146,6 +363,21 @@ const validatePartialExpense = (data) => {
     errors.push('aiSuggested must be a boolean');
   }
 
+  if (data.currency !== undefined && data.currency !== null) {
+    if (typeof data.currency !== 'string' || !isValidCurrencyCode(data.currency.toUpperCase())) {
+      errors.push('Currency must be a 3-letter currency code (e.g. USD, EUR)');
+    }
+  }
+
+  if (data.tags !== undefined && data.tags !== null) {
+    errors.push(...validateTags(data.tags));
+  }
+
+  // The split total is checked against the merged expense by the controller
+  if (data.splits !== undefined && data.splits !== null) {
+    errors.push(...validateSplits(data.splits));
+  }
+
   return {
     isValid: errors.length === 0,
     errors: errors
@@ -155,5 +387,10 @@ const validatePartialExpense = (data) => {
 module.exports = {
   validateExpense,
   sanitizeExpense,
-  validatePartialExpense
+  validatePartialExpense,
+  validateSplitTotal,
+  sanitizeSplits,
+  normalizeTag,
+  sanitizeTags,
+  getCategoryAllocations
 };
\ No newline at end of file
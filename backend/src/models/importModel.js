@@ -0,0 +1,220 @@
+// backend/src/models/importModel.js
+
+/**
+ * Expense Import Validation
+ * 
+ * Maps CSV bank-statement columns onto expense fields
+ * and normalizes the raw cell values before validation
+ */
+
+const IMPORT_FIELDS = ['amount', 'date', 'description', 'category'];
+const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+const MAX_IMPORT_ROWS = 2000;
+
+// Sign expenses carry in the file; amounts of the other sign are credits/refunds
+const AMOUNT_SIGNS = ['negative', 'positive'];
+const CREDIT_ROW_ERROR = 'Credit or refund (opposite sign to expenses), not imported';
+
+// Distinct descriptions sent to the AI per import; the rest use keyword rules
+const MAX_AI_CATEGORIZATIONS = 100;
+// AI requests in flight at once during an import
+const AI_CONCURRENCY = 5;
+
+/**
+ * Header keywords used to guess a column mapping
+ */
+const HEADER_HINTS = {
+  amount: ['amount', 'debit', 'withdrawal', 'value', 'paid out'],
+  date: ['date', 'posted', 'transaction date', 'txn date'],
+  description: ['description', 'narration', 'details', 'memo', 'payee', 'merchant', 'particulars'],
+  category: ['category', 'type']
+};
+
+/**
+ * Guess which header maps to which expense field
+ * 
+ * @param {Array<string>} headers - CSV header row
+ * @returns {Object} - { amount, date, description, category } header names (or null)
+ */
+const guessImportMapping = (headers) => {
+  const mapping = {};
+  const used = new Set();
+
+  IMPORT_FIELDS.forEach(field => {
+    const match = headers.find(header => {
+      const lower = header.trim().toLowerCase();
+      return !used.has(header) && HEADER_HINTS[field].some(hint => lower.includes(hint));
+    });
+    mapping[field] = match || null;
+    if (match) used.add(match);
+  });
+
+  return mapping;
+};
+
+/**
+ * Validate a column mapping against the CSV headers
+ * 
+ * @param {Object} mapping - { amount, date, description, category?, dateFormat? }
+ * @param {Array<string>} headers - CSV header row
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateImportMapping = (mapping, headers) => {
+  const errors = [];
+
+  if (!mapping || typeof mapping !== 'object') {
+    errors.push('Column mapping is required');
+    return { isValid: false, errors };
+  }
+
+  ['amount', 'date', 'description'].forEach(field => {
+    if (!mapping[field]) {
+      errors.push(`A column must be mapped to ${field}`);
+    } else if (!headers.includes(mapping[field])) {
+      errors.push(`Mapped column "${mapping[field]}" for ${field} does not exist in the file`);
+    }
+  });
+
+  if (mapping.category && !headers.includes(mapping.category)) {
+    errors.push(`Mapped column "${mapping.category}" for category does not exist in the file`);
+  }
+
+  if (mapping.dateFormat !== undefined && !DATE_FORMATS.includes(mapping.dateFormat)) {
+    errors.push(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+  }
+
+  if (mapping.amountSign !== undefined && !AMOUNT_SIGNS.includes(mapping.amountSign)) {
+    errors.push(`Amount sign must be one of: ${AMOUNT_SIGNS.join(', ')}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Parse an amount cell such as "$1,234.50", "(45.00)" or "-12.30"
+ * The sign is kept (parentheses mean negative); see AMOUNT_SIGNS
+ * 
+ * @param {string} raw - Raw cell value
+ * @returns {number|null} - Parsed amount or null if not a number
+ */
+const parseImportAmount = (raw) => {
+  if (raw === undefined || raw === null) return null;
+  const text = String(raw).trim();
+  const negative = /^\(.*\)$/.test(text);
+  const cleaned = text.replace(/[()\s,]/g, '').replace(/[^0-9.-]/g, '');
+  if (cleaned.length === 0) return null;
+
+  const value = parseFloat(cleaned);
+  if (isNaN(value)) return null;
+
+  return parseFloat((negative ? -Math.abs(value) : value).toFixed(2));
+};
+
+/**
+ * Guess the sign expenses carry in a file: banks export debits either as
+ * negative amounts next to positive credits, or as positive amounts in a
+ * debit column. The sign most rows share wins
+ * 
+ * @param {Array<string>} rawAmounts - Raw amount cells
+ * @returns {string} - One of AMOUNT_SIGNS
+ */
+const guessAmountSign = (rawAmounts) => {
+  const amounts = rawAmounts.map(parseImportAmount).filter(amount => amount !== null && amount !== 0);
+  const negatives = amounts.filter(amount => amount < 0).length;
+  return negatives > amounts.length - negatives ? 'negative' : 'positive';
+};
+
+/**
+ * Parse a date cell into YYYY-MM-DD
+ * 
+ * @param {string} raw - Raw cell value
+ * @param {string} dateFormat - One of DATE_FORMATS
+ * @returns {string|null} - ISO date or null if unparseable
+ */
+const parseImportDate = (raw, dateFormat = 'YYYY-MM-DD') => {
+  if (!raw) return null;
+  const value = String(raw).trim();
+  const parts = value.split(/[\/\-.]/).map(p => p.trim());
+
+  if (parts.length !== 3) return null;
+
+  let year;
+  let month;
+  let day;
+
+  if (dateFormat === 'DD/MM/YYYY') {
+    [day, month, year] = parts;
+  } else if (dateFormat === 'MM/DD/YYYY') {
+    [month, day, year] = parts;
+  } else {
+    [year, month, day] = parts;
+  }
+
+  // Two-digit years are assumed to be in the 2000s
+  if (year && year.length === 2) year = `20${year}`;
+
+  const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  const dateObj = new Date(`${iso}T00:00:00Z`);
+
+  if (isNaN(dateObj.getTime()) || dateObj.toISOString().split('T')[0] !== iso) {
+    return null;
+  }
+
+  return iso;
+};
+
+/**
+ * Map one CSV row onto expense fields using the column mapping
+ * Unparseable values are passed through raw so validateExpense reports them.
+ * Amounts are stored unsigned; rows signed opposite to mapping.amountSign
+ * are marked `isCredit`
+ * 
+ * @param {Array<string>} cells - CSV row
+ * @param {Array<string>} headers - CSV header row
+ * @param {Object} mapping - Column mapping
+ * @returns {Object} - { data: expense-shaped data, isCredit }
+ */
+const mapImportRow = (cells, headers, mapping) => {
+  const cell = (header) => {
+    if (!header) return undefined;
+    const value = cells[headers.indexOf(header)];
+    return value === undefined ? undefined : value.trim();
+  };
+
+  const rawAmount = cell(mapping.amount);
+  const rawDate = cell(mapping.date);
+  const amount = parseImportAmount(rawAmount);
+  const date = parseImportDate(rawDate, mapping.dateFormat);
+
+  const isCredit = amount !== null && amount !== 0 &&
+    (amount < 0) !== (mapping.amountSign === 'negative');
+
+  return {
+    data: {
+      amount: amount !== null ? Math.abs(amount) : rawAmount,
+      date: date !== null ? date : rawDate,
+      description: cell(mapping.description) || '',
+      category: cell(mapping.category) || ''
+    },
+    isCredit
+  };
+};
+
+module.exports = {
+  IMPORT_FIELDS,
+  DATE_FORMATS,
+  MAX_IMPORT_ROWS,
+  AMOUNT_SIGNS,
+  CREDIT_ROW_ERROR,
+  MAX_AI_CATEGORIZATIONS,
+  AI_CONCURRENCY,
+  guessImportMapping,
+  validateImportMapping,
+  parseImportAmount,
+  guessAmountSign,
+  parseImportDate,
+  mapImportRow
+};
@@ -0,0 +1,161 @@
+// backend/src/models/incomeModel.js
+
+/**
+ * Income Data Validation
+ * 
+ * Income (salary, freelance, refunds...) is kept in its own collection so
+ * expense totals and budgets keep counting money going out only
+ */
+
+const { isValidCurrencyCode } = require('../utils/currency');
+
+// Suggested income categories; custom categories are allowed like for expenses
+const INCOME_CATEGORIES = [
+  'Salary',
+  'Freelance',
+  'Business',
+  'Investments',
+  'Refunds',
+  'Gifts',
+  'Other Income'
+];
+
+/**
+ * Validate income data
+ * 
+ * @param {Object} data - Income data to validate
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateIncome = (data) => {
+  const errors = [];
+
+  // 1. Validate amount
+  if (!data.amount && data.amount !== 0) {
+    errors.push('Amount is required');
+  } else if (typeof data.amount !== 'number') {
+    errors.push('Amount must be a number');
+  } else if (data.amount <= 0) {
+    errors.push('Amount must be greater than 0');
+  } else if (data.amount > 10000000) {
+    errors.push('Amount cannot exceed 10,000,000');
+  }
+
+  // 2. Validate category
+  if (!data.category) {
+    errors.push('Category is required');
+  } else if (typeof data.category !== 'string') {
+    errors.push('Category must be a string');
+  } else if (data.category.trim().length === 0) {
+    errors.push('Category cannot be empty');
+  } else if (data.category.length > 50) {
+    errors.push('Category must be less than 50 characters');
+  }
+
+  // 3. Validate description
+  if (!data.description) {
+    errors.push('Description is required');
+  } else if (typeof data.description !== 'string') {
+    errors.push('Description must be a string');
+  } else if (data.description.trim().length === 0) {
+    errors.push('Description cannot be empty');
+  } else if (data.description.length > 500) {
+    errors.push('Description must be less than 500 characters');
+  }
+
+  // 4. Validate date
+  if (!data.date) {
+    errors.push('Date is required');
+  } else if (typeof data.date !== 'string') {
+    errors.push('Date must be a string');
+  } else if (isNaN(new Date(data.date).getTime())) {
+    errors.push('Date must be a valid ISO date string (YYYY-MM-DD)');
+  }
+
+  // 5. Validate currency (optional field, defaults to the home currency)
+  if (data.currency !== undefined && data.currency !== null) {
+    if (typeof data.currency !== 'string' || !isValidCurrencyCode(data.currency.toUpperCase())) {
+      errors.push('Currency must be a 3-letter currency code (e.g. USD, EUR)');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Sanitize income data
+ * 
+ * @param {Object} data - Raw income data
+ * @returns {Object} - Sanitized income data
+ */
+const sanitizeIncome = (data) => {
+  return {
+    amount: parseFloat(data.amount),
+    category: data.category.trim(),
+    description: data.description.trim(),
+    date: data.date,
+    currency: data.currency ? data.currency.toUpperCase() : null
+  };
+};
+
+/**
+ * Validate partial income data (for updates)
+ * 
+ * @param {Object} data - Partial income data
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validatePartialIncome = (data) => {
+  const errors = [];
+
+  if (data.amount !== undefined) {
+    if (typeof data.amount !== 'number') {
+      errors.push('Amount must be a number');
+    } else if (data.amount <= 0) {
+      errors.push('Amount must be greater than 0');
+    } else if (data.amount > 10000000) {
+      errors.push('Amount cannot exceed 10,000,000');
+    }
+  }
+
+  if (data.category !== undefined) {
+    if (typeof data.category !== 'string' || data.category.trim().length === 0) {
+      errors.push('Category must be a non-empty string');
+    } else if (data.category.length > 50) {
+      errors.push('Category must be less than 50 characters');
+    }
+  }
+
+  if (data.description !== undefined) {
+    if (typeof data.description !== 'string' || data.description.trim().length === 0) {
+      errors.push('Description must be a non-empty string');
+    } else if (data.description.length > 500) {
+      errors.push('Description must be less than 500 characters');
+    }
+  }
+
+  if (data.date !== undefined) {
+    if (typeof data.date !== 'string' || isNaN(new Date(data.date).getTime())) {
+      errors.push('Date must be a valid ISO date string');
+    }
+  }
+
+  if (data.currency !== undefined && data.currency !== null) {
+    if (typeof data.currency !== 'string' || !isValidCurrencyCode(data.currency.toUpperCase())) {
+      errors.push('Currency must be a 3-letter currency code (e.g. USD, EUR)');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+module.exports = {
+  INCOME_CATEGORIES,
+  validateIncome,
+  sanitizeIncome,
+  validatePartialIncome
+};
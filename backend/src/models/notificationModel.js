@@ -0,0 +1,118 @@
+// backend/src/models/notificationModel.js
+
+/**
+ * Notification Settings Validation
+ *
+ * Validates the channels a user gets notifications on (stored on the user
+ * document as `alertChannels`) and their outgoing webhooks
+ */
+
+// Delivery channels, named after their notifiers (see notifiers/index)
+const ALERT_CHANNELS = ['in-app', 'smtp', 'webhook'];
+
+const MAX_WEBHOOKS = 5;
+
+/**
+ * Validate alert channel preferences
+ *
+ * @param {*} channels - Channel names
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateAlertChannels = (channels) => {
+  const errors = [];
+
+  if (!Array.isArray(channels)) {
+    errors.push('alertChannels must be an array');
+  } else {
+    const unknown = channels.filter(channel => !ALERT_CHANNELS.includes(channel));
+    if (unknown.length > 0) {
+      errors.push(`Unknown channels: ${unknown.join(', ')}. Use any of: ${ALERT_CHANNELS.join(', ')}`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Channels a user gets notifications on; every channel until they choose
+ *
+ * @param {Array<string>|undefined} stored - alertChannels from the user document
+ * @returns {Array<string>}
+ */
+const withAlertChannelDefaults = (stored) => (Array.isArray(stored) ? stored : [...ALERT_CHANNELS]);
+
+/**
+ * Check that a webhook URL is an absolute http(s) URL
+ */
+const isValidWebhookUrl = (url) => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate webhook data
+ *
+ * @param {Object} data - Webhook data
+ * @param {boolean} partial - Whether this is an update (url not required)
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateWebhook = (data, partial = false) => {
+  const errors = [];
+
+  if (data.url === undefined) {
+    if (!partial) errors.push('Webhook URL is required');
+  } else if (typeof data.url !== 'string' || !isValidWebhookUrl(data.url)) {
+    errors.push('Webhook URL must be an http(s) URL');
+  } else if (data.url.length > 2000) {
+    errors.push('Webhook URL must be less than 2000 characters');
+  }
+
+  if (data.description !== undefined && data.description !== null) {
+    if (typeof data.description !== 'string') {
+      errors.push('Description must be a string');
+    } else if (data.description.length > 100) {
+      errors.push('Description must be less than 100 characters');
+    }
+  }
+
+  if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Sanitize webhook data (only the fields present, for updates)
+ *
+ * @param {Object} data - Validated webhook data
+ * @returns {Object}
+ */
+const sanitizeWebhook = (data) => {
+  const sanitized = {};
+
+  if (data.url !== undefined) sanitized.url = data.url.trim();
+  if (data.description !== undefined) sanitized.description = data.description ? data.description.trim() : null;
+  if (data.enabled !== undefined) sanitized.enabled = data.enabled;
+
+  return sanitized;
+};
+
+module.exports = {
+  ALERT_CHANNELS,
+  MAX_WEBHOOKS,
+  validateAlertChannels,
+  withAlertChannelDefaults,
+  validateWebhook,
+  sanitizeWebhook
+};
@@ -4,8 +4,118 @@
  * Recurring Expense Data Validation
  * 
  * Validates data for recurring expenses (subscriptions, bills, etc.)
+ * Templates can also describe recurring income such as a salary
  */
 
+const {
+  RULE_FREQUENCIES,
+  WEEKDAYS,
+  ruleFromFrequency,
+  getFrequencyLabel,
+  normalizeRule
+} = require('../utils/recurrence');
+const { DEFAULT_PRICE_ALERT_PERCENT } = require('../utils/priceHistory');
+
+// Expense templates generate expenses, income templates generate income
+const RECURRING_TYPES = ['expense', 'income'];
+
+// Fixed templates generate their amount; estimated ones (variable bills) generate a
+// pending expense at the average of past amounts, confirmed later with the real figure
+const AMOUNT_MODES = ['fixed', 'estimated'];
+
+// Reminders can be sent at most this many days before an occurrence
+const MAX_REMINDER_DAYS = 30;
+
+// Shorthand frequencies; anything else is described with a recurrence rule
+const FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'];
+
+const isIntegerInRange = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+
+const isValidAlertPercent = (value) => typeof value === 'number' && value >= 0 && value <= 100;
+
+// Schedules are computed on plain YYYY-MM-DD dates (see utils/recurrence parseDate)
+const isIsoDate = (value) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const dateObj = new Date(`${value}T00:00:00Z`);
+  return !isNaN(dateObj.getTime()) && dateObj.toISOString().startsWith(value);
+};
+
+/**
+ * Validate a recurrence rule (see utils/recurrence.js)
+ * 
+ * @param {Object} recurrence - Recurrence rule
+ * @returns {Array<string>} - Errors
+ */
+const validateRecurrence = (recurrence) => {
+  const errors = [];
+
+  if (typeof recurrence !== 'object' || recurrence === null || Array.isArray(recurrence)) {
+    return ['Recurrence must be an object'];
+  }
+
+  const freq = typeof recurrence.freq === 'string' ? recurrence.freq.toUpperCase() : null;
+  if (!RULE_FREQUENCIES.includes(freq)) {
+    errors.push(`Recurrence freq must be one of: ${RULE_FREQUENCIES.join(', ')}`);
+  }
+
+  if (recurrence.interval !== undefined && !isIntegerInRange(recurrence.interval, 1, 365)) {
+    errors.push('Recurrence interval must be a whole number between 1 and 365');
+  }
+
+  if (recurrence.byDay !== undefined) {
+    if (!Array.isArray(recurrence.byDay) || recurrence.byDay.length === 0) {
+      errors.push('Recurrence byDay must be a non-empty array of weekdays');
+    } else if (recurrence.byDay.some(day => typeof day !== 'string' || !WEEKDAYS.includes(day.toUpperCase()))) {
+      errors.push(`Recurrence byDay must only contain: ${WEEKDAYS.join(', ')}`);
+    } else if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+      errors.push('Recurrence byDay is only supported for WEEKLY and MONTHLY rules');
+    }
+  }
+
+  if (recurrence.byMonthDay !== undefined) {
+    if (!Array.isArray(recurrence.byMonthDay) || recurrence.byMonthDay.length === 0) {
+      errors.push('Recurrence byMonthDay must be a non-empty array of days');
+    } else if (recurrence.byMonthDay.some(day => !isIntegerInRange(Math.abs(day), 1, 31))) {
+      errors.push('Recurrence byMonthDay days must be between 1 and 31, or -1 to -31 counting from the end of the month');
+    } else if (freq !== 'MONTHLY') {
+      errors.push('Recurrence byMonthDay is only supported for MONTHLY rules');
+    } else if (recurrence.byDay !== undefined) {
+      errors.push('Recurrence cannot combine byMonthDay with byDay');
+    }
+  }
+
+  if (recurrence.bySetPos !== undefined) {
+    if (!Array.isArray(recurrence.bySetPos) || recurrence.bySetPos.length === 0) {
+      errors.push('Recurrence bySetPos must be a non-empty array of positions');
+    } else if (recurrence.bySetPos.some(pos => !isIntegerInRange(Math.abs(pos), 1, 5))) {
+      errors.push('Recurrence bySetPos positions must be between 1 and 5, or -1 to -5 counting from the end');
+    } else if (freq !== 'MONTHLY' || recurrence.byDay === undefined) {
+      errors.push('Recurrence bySetPos requires a MONTHLY rule with byDay');
+    }
+  }
+
+  if (recurrence.count !== undefined && recurrence.count !== null && !isIntegerInRange(recurrence.count, 1, 1000)) {
+    errors.push('Recurrence count must be a whole number between 1 and 1000');
+  }
+
+  return errors;
+};
+
+/**
+ * Resolve the schedule of a template from either a recurrence rule
+ * or a shorthand frequency; the rule wins when both are sent
+ * 
+ * @param {Object} data - Template data with recurrence and/or frequency
+ * @returns {Object} - { recurrence, frequency }
+ */
+const sanitizeSchedule = (data) => {
+  const recurrence = normalizeRule(data.recurrence || ruleFromFrequency(data.frequency));
+  return {
+    recurrence,
+    frequency: getFrequencyLabel(recurrence)
+  };
+};
+
 /**
  * Validate recurring expense data
  * 
@@ -57,12 +167,13 @@ const validateRecurringExpense = (data) => {
     errors.push('Description must be less than 500 characters');
   }
 
-  // 5. Validate frequency
-  const validFrequencies = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'];
-  if (!data.frequency) {
-    errors.push('Frequency is required');
-  } else if (!validFrequencies.includes(data.frequency)) {
-    errors.push(`Frequency must be one of: ${validFrequencies.join(', ')}`);
+  // 5. Validate frequency or recurrence rule
+  if (data.recurrence !== undefined && data.recurrence !== null) {
+    errors.push(...validateRecurrence(data.recurrence));
+  } else if (!data.frequency) {
+    errors.push('Frequency or recurrence is required');
+  } else if (!FREQUENCIES.includes(data.frequency)) {
+    errors.push(`Frequency must be one of: ${FREQUENCIES.join(', ')}`);
   }
 
   // 6. Validate start date
@@ -70,27 +181,19 @@ const validateRecurringExpense = (data) => {
     errors.push('Start date is required');
   } else if (typeof data.startDate !== 'string') {
     errors.push('Start date must be a string');
-  } else {
-    const dateObj = new Date(data.startDate);
-    if (isNaN(dateObj.getTime())) {
-      errors.push('Start date must be a valid ISO date string (YYYY-MM-DD)');
-    }
+  } else if (!isIsoDate(data.startDate)) {
+    errors.push('Start date must be a valid ISO date string (YYYY-MM-DD)');
   }
 
   // 7. Validate end date (optional)
   if (data.endDate !== undefined && data.endDate !== null) {
     if (typeof data.endDate !== 'string') {
       errors.push('End date must be a string');
-    } else {
-      const dateObj = new Date(data.endDate);
-      if (isNaN(dateObj.getTime())) {
-        errors.push('End date must be a valid ISO date string (YYYY-MM-DD)');
-      }
-      
+    } else if (!isIsoDate(data.endDate)) {
+      errors.push('End date must be a valid ISO date string (YYYY-MM-DD)');
+    } else if (data.startDate && data.endDate <= data.startDate) {
       // Check if end date is after start date
-      if (data.startDate && new Date(data.endDate) <= new Date(data.startDate)) {
-        errors.push('End date must be after start date');
-      }
+      errors.push('End date must be after start date');
     }
   }
 
@@ -103,11 +206,28 @@ const validateRecurringExpense = (data) => {
   if (data.reminderDays !== undefined) {
     if (typeof data.reminderDays !== 'number') {
       errors.push('reminderDays must be a number');
-    } else if (data.reminderDays < 0 || data.reminderDays > 30) {
-      errors.push('reminderDays must be between 0 and 30');
+    } else if (data.reminderDays < 0 || data.reminderDays > MAX_REMINDER_DAYS) {
+      errors.push(`reminderDays must be between 0 and ${MAX_REMINDER_DAYS}`);
     }
   }
 
+  // 10. Validate type (optional, defaults to expense)
+  if (data.type !== undefined && !RECURRING_TYPES.includes(data.type)) {
+    errors.push(`Type must be one of: ${RECURRING_TYPES.join(', ')}`);
+  }
+
+  // 11. Validate amount mode (optional, defaults to fixed)
+  if (data.amountMode !== undefined && !AMOUNT_MODES.includes(data.amountMode)) {
+    errors.push(`Amount mode must be one of: ${AMOUNT_MODES.join(', ')}`);
+  } else if (data.amountMode === 'estimated' && data.type === 'income') {
+    errors.push('Estimated amounts are only supported for expense templates');
+  }
+
+  // 12. Validate price alert threshold (optional, percent)
+  if (data.priceAlertPercent !== undefined && !isValidAlertPercent(data.priceAlertPercent)) {
+    errors.push('priceAlertPercent must be a number between 0 and 100');
+  }
+
   return {
     isValid: errors.length === 0,
     errors: errors
@@ -123,14 +243,17 @@ const validateRecurringExpense = (data) => {
 const sanitizeRecurringExpense = (data) => {
   return {
     templateName: data.templateName.trim(),
+    type: data.type || 'expense',
     amount: parseFloat(data.amount),
+    amountMode: data.amountMode || 'fixed',
     category: data.category.trim(),
     description: data.description.trim(),
-    frequency: data.frequency,
+    ...sanitizeSchedule(data),
     startDate: data.startDate,
     endDate: data.endDate || null,
     autoGenerate: data.autoGenerate !== undefined ? data.autoGenerate : true,
     reminderDays: data.reminderDays || 0,
+    priceAlertPercent: data.priceAlertPercent ?? DEFAULT_PRICE_ALERT_PERCENT,
     isActive: data.isActive !== undefined ? data.isActive : true
   };
 };
@@ -175,25 +298,18 @@ const validatePartialRecurringExpense = (data) => {
     }
   }
 
-  if (data.frequency !== undefined) {
-    const validFrequencies = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'];
-    if (!validFrequencies.includes(data.frequency)) {
-      errors.push(`Frequency must be one of: ${validFrequencies.join(', ')}`);
-    }
+  if (data.recurrence !== undefined) {
+    errors.push(...validateRecurrence(data.recurrence));
+  } else if (data.frequency !== undefined && !FREQUENCIES.includes(data.frequency)) {
+    errors.push(`Frequency must be one of: ${FREQUENCIES.join(', ')}`);
   }
 
-  if (data.startDate !== undefined) {
-    const dateObj = new Date(data.startDate);
-    if (isNaN(dateObj.getTime())) {
-      errors.push('Start date must be a valid ISO date string');
-    }
+  if (data.startDate !== undefined && !isIsoDate(data.startDate)) {
+    errors.push('Start date must be a valid ISO date string (YYYY-MM-DD)');
   }
 
-  if (data.endDate !== undefined && data.endDate !== null) {
-    const dateObj = new Date(data.endDate);
-    if (isNaN(dateObj.getTime())) {
-      errors.push('End date must be a valid ISO date string');
-    }
+  if (data.endDate !== undefined && data.endDate !== null && !isIsoDate(data.endDate)) {
+    errors.push('End date must be a valid ISO date string (YYYY-MM-DD)');
   }
 
   if (data.autoGenerate !== undefined && typeof data.autoGenerate !== 'boolean') {
@@ -201,8 +317,8 @@ const validatePartialRecurringExpense = (data) => {
   }
 
   if (data.reminderDays !== undefined) {
-    if (typeof data.reminderDays !== 'number' || data.reminderDays < 0 || data.reminderDays > 30) {
-      errors.push('reminderDays must be a number between 0 and 30');
+    if (typeof data.reminderDays !== 'number' || data.reminderDays < 0 || data.reminderDays > MAX_REMINDER_DAYS) {
+      errors.push(`reminderDays must be a number between 0 and ${MAX_REMINDER_DAYS}`);
     }
   }
 
@@ -210,6 +326,119 @@ const validatePartialRecurringExpense = (data) => {
     errors.push('isActive must be a boolean');
   }
 
+  if (data.type !== undefined && !RECURRING_TYPES.includes(data.type)) {
+    errors.push(`Type must be one of: ${RECURRING_TYPES.join(', ')}`);
+  }
+
+  if (data.amountMode !== undefined && !AMOUNT_MODES.includes(data.amountMode)) {
+    errors.push(`Amount mode must be one of: ${AMOUNT_MODES.join(', ')}`);
+  } else if (data.amountMode === 'estimated' && data.type === 'income') {
+    errors.push('Estimated amounts are only supported for expense templates');
+  }
+
+  if (data.priceAlertPercent !== undefined && !isValidAlertPercent(data.priceAlertPercent)) {
+    errors.push('priceAlertPercent must be a number between 0 and 100');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Validate an exception for a single occurrence: skip it,
+ * move it to another date and/or change its amount just this once
+ * 
+ * @param {Object} data - { skip?, date?, amount? }
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateOccurrenceException = (data) => {
+  const errors = [];
+
+  if (data.skip !== undefined && typeof data.skip !== 'boolean') {
+    errors.push('skip must be a boolean');
+  }
+
+  if (data.skip !== true && data.date === undefined && data.amount === undefined) {
+    errors.push('Provide skip, a new date or an amount');
+  }
+
+  if (data.skip === true && (data.date !== undefined || data.amount !== undefined)) {
+    errors.push('A skipped occurrence cannot also be moved or change amount');
+  }
+
+  if (data.date !== undefined) {
+    if (!isIsoDate(data.date)) {
+      errors.push('Date must be a valid ISO date string (YYYY-MM-DD)');
+    }
+  }
+
+  if (data.amount !== undefined) {
+    if (typeof data.amount !== 'number' || data.amount < 0) {
+      errors.push('Amount cannot be negative');
+    } else if (data.amount > 1000000) {
+      errors.push('Amount cannot exceed 1,000,000');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Sanitize an occurrence exception
+ * 
+ * @param {Object} data - Raw exception data
+ * @returns {Object} - { skip: true } or { date?, amount? }
+ */
+const sanitizeOccurrenceException = (data) => {
+  if (data.skip) {
+    return { skip: true };
+  }
+
+  const exception = {};
+  if (data.date !== undefined) exception.date = data.date;
+  if (data.amount !== undefined) exception.amount = parseFloat(data.amount);
+  return exception;
+};
+
+/**
+ * Validate the schedule fields of a template that may not be saved yet
+ * (used to preview its occurrences while it is being filled in)
+ * 
+ * @param {Object} data - Template data
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validateSchedulePreview = (data) => {
+  const errors = [];
+
+  if (data.recurrence !== undefined && data.recurrence !== null) {
+    errors.push(...validateRecurrence(data.recurrence));
+  } else if (!data.frequency) {
+    errors.push('Frequency or recurrence is required');
+  } else if (!FREQUENCIES.includes(data.frequency)) {
+    errors.push(`Frequency must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+
+  if (!isIsoDate(data.startDate)) {
+    errors.push('Start date must be a valid ISO date string (YYYY-MM-DD)');
+  }
+
+  if (data.endDate !== undefined && data.endDate !== null && !isIsoDate(data.endDate)) {
+    errors.push('End date must be a valid ISO date string (YYYY-MM-DD)');
+  }
+
+  if (data.after !== undefined && data.after !== null && !isIsoDate(data.after)) {
+    errors.push('after must be a valid ISO date string (YYYY-MM-DD)');
+  }
+
+  if (data.amount !== undefined && typeof data.amount !== 'number') {
+    errors.push('Amount must be a number');
+  }
+
   return {
     isValid: errors.length === 0,
     errors: errors
@@ -217,7 +446,15 @@ const validatePartialRecurringExpense = (data) => {
 };
 
 module.exports = {
+  RECURRING_TYPES,
+  AMOUNT_MODES,
+  MAX_REMINDER_DAYS,
+  FREQUENCIES,
   validateRecurringExpense,
+  sanitizeSchedule,
   sanitizeRecurringExpense,
-  validatePartialRecurringExpense
+  validatePartialRecurringExpense,
+  validateSchedulePreview,
+  validateOccurrenceException,
+  sanitizeOccurrenceException
 };
\ No newline at end of file
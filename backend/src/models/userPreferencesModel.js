@@ -0,0 +1,142 @@
+// backend/src/models/userPreferencesModel.js
+
+/**
+ * User Preferences Validation
+ * 
+ * Display and behaviour settings stored on the user document under `preferences`
+ */
+
+const { DEFAULT_CURRENCY, isValidCurrencyCode } = require('../utils/currency');
+
+// Date formats use date-fns tokens, as rendered by the frontend
+const DATE_FORMATS = ['MMM dd, yyyy', 'dd MMM yyyy', 'yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy'];
+
+const LANDING_PAGES = ['/dashboard', '/expenses', '/budgets', '/recurring'];
+
+const PREFERENCE_DEFAULTS = {
+  currency: DEFAULT_CURRENCY,
+  locale: 'en-US',
+  timezone: 'UTC',
+  weekStartsOn: 0, // 0 = Sunday, 1 = Monday (matches Date#getDay)
+  dateFormat: DATE_FORMATS[0],
+  landingPage: '/dashboard'
+};
+
+const PREFERENCE_FIELDS = Object.keys(PREFERENCE_DEFAULTS);
+
+/**
+ * Check that a locale is a valid BCP 47 tag ("en-US", "hi-IN")
+ */
+const isValidLocale = (locale) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check that a timezone is a valid IANA name ("Asia/Kolkata")
+ */
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate a (partial) preferences update
+ * 
+ * @param {Object} data - Preferences to update
+ * @returns {Object} - { isValid: boolean, errors: array }
+ */
+const validatePreferences = (data) => {
+  const errors = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { isValid: false, errors: ['Preferences must be an object'] };
+  }
+
+  const unknownFields = Object.keys(data).filter(key => !PREFERENCE_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown preferences: ${unknownFields.join(', ')}`);
+  }
+
+  if (data.currency !== undefined &&
+      (typeof data.currency !== 'string' || !isValidCurrencyCode(data.currency.toUpperCase()))) {
+    errors.push('Currency must be a 3-letter currency code (e.g. USD, EUR)');
+  }
+
+  if (data.locale !== undefined && (typeof data.locale !== 'string' || !isValidLocale(data.locale))) {
+    errors.push('Locale must be a valid locale tag (e.g. en-US, en-IN)');
+  }
+
+  if (data.timezone !== undefined && (typeof data.timezone !== 'string' || !isValidTimezone(data.timezone))) {
+    errors.push('Timezone must be a valid IANA timezone (e.g. Asia/Kolkata)');
+  }
+
+  if (data.weekStartsOn !== undefined && ![0, 1, 6].includes(data.weekStartsOn)) {
+    errors.push('weekStartsOn must be 0 (Sunday), 1 (Monday) or 6 (Saturday)');
+  }
+
+  if (data.dateFormat !== undefined && !DATE_FORMATS.includes(data.dateFormat)) {
+    errors.push(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+  }
+
+  if (data.landingPage !== undefined && !LANDING_PAGES.includes(data.landingPage)) {
+    errors.push(`Landing page must be one of: ${LANDING_PAGES.join(', ')}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors
+  };
+};
+
+/**
+ * Sanitize a (partial) preferences update
+ * 
+ * @param {Object} data - Validated preferences
+ * @returns {Object} - Only known fields, normalized
+ */
+const sanitizePreferences = (data) => {
+  const sanitized = {};
+
+  PREFERENCE_FIELDS.forEach(field => {
+    if (data[field] !== undefined) {
+      sanitized[field] = data[field];
+    }
+  });
+
+  if (sanitized.currency) {
+    sanitized.currency = sanitized.currency.toUpperCase();
+  }
+  if (sanitized.locale) {
+    sanitized.locale = Intl.getCanonicalLocales(sanitized.locale)[0];
+  }
+
+  return sanitized;
+};
+
+/**
+ * Fill in defaults for preferences that were never set
+ * 
+ * @param {Object} stored - Preferences from the user document
+ * @returns {Object} - Complete preferences
+ */
+const withPreferenceDefaults = (stored = {}) => ({
+  ...PREFERENCE_DEFAULTS,
+  ...stored
+});
+
+module.exports = {
+  DATE_FORMATS,
+  LANDING_PAGES,
+  PREFERENCE_DEFAULTS,
+  validatePreferences,
+  sanitizePreferences,
+  withPreferenceDefaults
+};
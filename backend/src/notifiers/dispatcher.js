@@ -0,0 +1,271 @@
+// backend/src/notifiers/dispatcher.js
+
+/**
+ * Notification Dispatcher
+ *
+ * Delivers notifications (budget alerts, bill reminders, price changes) over
+ * the channels each user picked (`alertChannels` on the user document) among
+ * those configured with NOTIFIERS, and logs every delivery in
+ * `notification_deliveries`: one record per channel, and one per webhook for
+ * the webhook channel.
+ *
+ * A delivery is tried once right away. Failures that may pass later (network
+ * errors, timeouts, 5xx and 429 responses, SMTP errors) are retried by the
+ * retry-deliveries job after each of RETRY_DELAYS_MINUTES in turn; other
+ * failures and the last retry mark the delivery failed.
+ *
+ * Whoever sends a delivery holds it as 'sending' with nextAttemptAt pushed
+ * SEND_LEASE_MINUTES ahead, so overlapping retry runs never send it twice and
+ * a send cut short (the server stopped) is picked up once the lease runs out.
+ */
+
+const { db } = require('../config/firebase');
+const { getNotifiers } = require('./index');
+const { getUserWebhooks } = require('./webhookNotifier');
+const { withAlertChannelDefaults } = require('../models/notificationModel');
+
+// Wait before each retry
+const RETRY_DELAYS_MINUTES = [5, 15, 60, 240];
+
+// How long a sender holds a delivery; longer than any channel takes to give up
+const SEND_LEASE_MINUTES = 10;
+
+// Statuses the retry job picks up once nextAttemptAt has passed
+const DUE_STATUSES = ['retrying', 'sending'];
+
+const leaseUntil = (now) => new Date(now.getTime() + SEND_LEASE_MINUTES * 60 * 1000).toISOString();
+
+/**
+ * Error that retrying cannot fix
+ */
+const permanentError = (message) => Object.assign(new Error(message), { retryable: false });
+
+/**
+ * Send a delivery through its channel
+ *
+ * @param {string} deliveryId - Delivery ID (webhook payloads carry it)
+ * @param {Object} delivery - Delivery record
+ */
+const send = async (deliveryId, delivery) => {
+  const notifier = getNotifiers().find(candidate => candidate.name === delivery.channel);
+  if (!notifier) {
+    throw permanentError(`The ${delivery.channel} channel is not configured`);
+  }
+
+  if (delivery.channel !== 'webhook') {
+    return notifier.send(delivery.notification);
+  }
+
+  const webhookDoc = await db.collection('webhooks').doc(delivery.webhookId).get();
+  if (!webhookDoc.exists || !webhookDoc.data().enabled) {
+    throw permanentError('Webhook was deleted or disabled');
+  }
+
+  return notifier.deliver(webhookDoc.data(), delivery.notification, {
+    id: deliveryId,
+    createdAt: delivery.createdAt
+  });
+};
+
+/**
+ * Try a delivery and record the outcome on it
+ *
+ * @param {DocumentReference} deliveryRef - Delivery record
+ * @param {Object} delivery - Delivery data
+ * @returns {Promise<Object>} - { status: 'sent' | 'retrying' | 'failed', error? }
+ */
+const attemptDelivery = async (deliveryRef, delivery) => {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  try {
+    await send(deliveryRef.id, delivery);
+
+    await deliveryRef.update({
+      status: 'sent',
+      attempts,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    });
+    return { status: 'sent' };
+  } catch (error) {
+    console.error(`[NOTIFY] ${delivery.channel} delivery ${deliveryRef.id} failed (attempt ${attempts}):`, error.message);
+
+    const retry = error.retryable !== false && attempts <= RETRY_DELAYS_MINUTES.length;
+    const nextAttemptAt = retry
+      ? new Date(now.getTime() + RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000).toISOString()
+      : null;
+
+    await deliveryRef.update({
+      status: retry ? 'retrying' : 'failed',
+      attempts,
+      lastError: error.message,
+      nextAttemptAt,
+      updatedAt: now.toISOString()
+    });
+    return { status: retry ? 'retrying' : 'failed', error: error.message };
+  }
+};
+
+/**
+ * Deliver a notification over the user's channels
+ * Deliveries are recorded before this returns. In the background they are then
+ * sent without holding up the caller (request handlers, where a slow mail
+ * server or webhook would delay the response), and come back as 'sending'
+ *
+ * @param {Object} notification - { userId, type, title, message, link?, data? }
+ * @param {Object} options - { background? }
+ * @returns {Promise<Array<Object>>} - [{ deliveryId, channel, status }]
+ */
+const dispatch = async (notification, { background = false } = {}) => {
+  const userDoc = await db.collection('users').doc(notification.userId).get();
+  const configured = getNotifiers().map(notifier => notifier.name);
+  const channels = withAlertChannelDefaults(userDoc.exists ? userDoc.data().alertChannels : undefined)
+    .filter(channel => configured.includes(channel));
+
+  const targets = [];
+  for (const channel of channels) {
+    if (channel === 'webhook') {
+      const webhooks = await getUserWebhooks(notification.userId);
+      webhooks.forEach(webhook => targets.push({ channel, webhookId: webhook.id, target: webhook.url }));
+    } else {
+      targets.push({ channel, webhookId: null, target: null });
+    }
+  }
+
+  const queued = [];
+  for (const target of targets) {
+    const now = new Date();
+    const delivery = {
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      ...target,
+      notification,
+      status: 'sending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: leaseUntil(now),
+      deliveredAt: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    const deliveryRef = db.collection('notification_deliveries').doc();
+    await deliveryRef.set(delivery);
+    queued.push({ deliveryRef, delivery });
+  }
+
+  const sendAll = async () => {
+    const results = [];
+    for (const { deliveryRef, delivery } of queued) {
+      const outcome = await attemptDelivery(deliveryRef, delivery);
+      results.push({ deliveryId: deliveryRef.id, channel: delivery.channel, status: outcome.status });
+    }
+    return results;
+  };
+
+  if (background) {
+    sendAll().catch(error => {
+      console.error(`[NOTIFY] Sending deliveries for user ${notification.userId} failed:`, error);
+    });
+    return queued.map(({ deliveryRef, delivery }) => ({
+      deliveryId: deliveryRef.id,
+      channel: delivery.channel,
+      status: delivery.status
+    }));
+  }
+
+  return sendAll();
+};
+
+/**
+ * Deliveries whose next attempt is due (or whose sender's lease ran out)
+ *
+ * @param {number} [limit] - Most deliveries to return
+ * @returns {Query}
+ */
+const dueDeliveriesQuery = (limit) => {
+  const query = db.collection('notification_deliveries')
+    .where('status', 'in', DUE_STATUSES)
+    .where('nextAttemptAt', '<=', new Date().toISOString());
+
+  return limit ? query.limit(limit) : query;
+};
+
+/**
+ * Whether any delivery is due for a retry
+ *
+ * @returns {Promise<boolean>}
+ */
+const hasDueDeliveries = async () => {
+  const snapshot = await dueDeliveriesQuery(1).get();
+  return !snapshot.empty;
+};
+
+/**
+ * Take a due delivery for sending
+ * Fails when another run took it first
+ *
+ * @param {DocumentReference} deliveryRef - Delivery record
+ * @returns {Promise<Object|null>} - Delivery data, or null if not due anymore
+ */
+const claimDelivery = async (deliveryRef) => {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(deliveryRef);
+    const now = new Date();
+
+    if (!doc.exists || !DUE_STATUSES.includes(doc.data().status) || doc.data().nextAttemptAt > now.toISOString()) {
+      return null;
+    }
+
+    const claim = { status: 'sending', nextAttemptAt: leaseUntil(now), updatedAt: now.toISOString() };
+    transaction.update(deliveryRef, claim);
+    return { ...doc.data(), ...claim };
+  });
+};
+
+/**
+ * Retry the deliveries whose next attempt is due
+ * Deliveries that give up are reported as failures; ones another run
+ * took first are left to it
+ *
+ * @returns {Promise<Object>} - { due, sent, retrying, failures }
+ */
+const retryDueDeliveries = async () => {
+  const snapshot = await dueDeliveriesQuery().get();
+
+  const result = {
+    due: snapshot.size,
+    sent: 0,
+    retrying: 0,
+    failures: []
+  };
+
+  for (const doc of snapshot.docs) {
+    const delivery = await claimDelivery(doc.ref);
+    if (!delivery) {
+      result.due--;
+      continue;
+    }
+
+    const outcome = await attemptDelivery(doc.ref, delivery);
+
+    if (outcome.status === 'failed') {
+      result.failures.push({ deliveryId: doc.id, channel: delivery.channel, error: outcome.error });
+    } else {
+      result[outcome.status]++;
+    }
+  }
+
+  return result;
+};
+
+module.exports = {
+  RETRY_DELAYS_MINUTES,
+  dispatch,
+  hasDueDeliveries,
+  retryDueDeliveries
+};
@@ -0,0 +1,36 @@
+// backend/src/notifiers/inAppNotifier.js
+
+/**
+ * In-App Notifier
+ * 
+ * Stores notifications in the `notifications` collection,
+ * where the app reads them as the user's notification feed
+ */
+
+const { db } = require('../config/firebase');
+
+/**
+ * Create an in-app notifier
+ * 
+ * @returns {Object} - Notifier
+ */
+const createInAppNotifier = () => ({
+  name: 'in-app',
+
+  async send(notification) {
+    await db.collection('notifications').add({
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link || null,
+      data: notification.data || {},
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+  }
+});
+
+module.exports = {
+  createInAppNotifier
+};
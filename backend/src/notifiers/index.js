@@ -0,0 +1,71 @@
+// backend/src/notifiers/index.js
+
+/**
+ * Notifiers
+ * 
+ * Pluggable delivery channels for user notifications (reminders, alerts)
+ * Every notifier implements:
+ * 
+ *   send(notification) → Promise<void>   (throws when delivery fails)
+ * 
+ * where a notification is { userId, type, title, message, link?, data? },
+ * except the webhook notifier, which delivers to one webhook at a time:
+ * 
+ *   deliver(webhook, notification, delivery) → Promise<void>
+ * 
+ * Pick channels with NOTIFIERS (comma-separated):
+ * - in-app  (default) - stored in the `notifications` collection for the in-app feed
+ * - smtp              - email through SMTP_HOST / SMTP_PORT (e.g. a local catcher like MailHog)
+ * - webhook           - signed JSON POSTs to the user's outgoing webhooks
+ * 
+ * Notifications are sent through the dispatcher (see dispatcher.js), which
+ * honours each user's channel choice and retries failed deliveries
+ */
+
+const { createInAppNotifier } = require('./inAppNotifier');
+const { createSmtpNotifier } = require('./smtpNotifier');
+const { createWebhookNotifier } = require('./webhookNotifier');
+
+const CHANNELS = {
+  'in-app': () => createInAppNotifier(),
+  smtp: () => createSmtpNotifier({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '1025'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || 'Paisa <no-reply@paisa.local>'
+  }),
+  webhook: () => createWebhookNotifier({
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000')
+  })
+};
+
+let notifiers = null;
+
+/**
+ * Get the configured notifiers (created once)
+ * 
+ * @returns {Array<Object>} - Notifiers
+ */
+const getNotifiers = () => {
+  if (!notifiers) {
+    const names = (process.env.NOTIFIERS || 'in-app')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    const unknown = names.filter(name => !CHANNELS[name]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown NOTIFIERS "${unknown.join(', ')}". Use any of: ${Object.keys(CHANNELS).join(', ')}`);
+    }
+
+    notifiers = names.map(name => CHANNELS[name]());
+  }
+
+  return notifiers;
+};
+
+module.exports = {
+  getNotifiers
+};
@@ -0,0 +1,68 @@
+// backend/src/notifiers/smtpNotifier.js
+
+/**
+ * SMTP Notifier
+ * 
+ * Emails notifications to the user's account address
+ * Point SMTP_HOST / SMTP_PORT at a local catcher (MailHog, Mailpit) during development
+ */
+
+const nodemailer = require('nodemailer');
+const { db, auth } = require('../config/firebase');
+
+/**
+ * Email address of a user: the one saved on their profile, else their login
+ * 
+ * @param {string} userId - User ID
+ * @returns {Promise<string|null>}
+ */
+const getUserEmail = async (userId) => {
+  const userDoc = await db.collection('users').doc(userId).get();
+  if (userDoc.exists && userDoc.data().email) {
+    return userDoc.data().email;
+  }
+
+  const user = await auth.getUser(userId);
+  return user.email || null;
+};
+
+/**
+ * Create an SMTP notifier
+ * 
+ * @param {Object} options - { host, port, secure, user?, pass?, from }
+ * @returns {Object} - Notifier
+ */
+const createSmtpNotifier = ({ host, port, secure, user, pass, from }) => {
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    ...(user ? { auth: { user, pass } } : {})
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(notification) {
+      const to = await getUserEmail(notification.userId);
+      // Retrying cannot fix a missing address
+      if (!to) {
+        throw Object.assign(new Error('User has no email address'), { retryable: false });
+      }
+
+      const appUrl = process.env.FRONTEND_URL;
+      const link = appUrl && notification.link ? `\n\n${appUrl}${notification.link}` : '';
+
+      await transport.sendMail({
+        from,
+        to,
+        subject: notification.title,
+        text: `${notification.message}${link}`
+      });
+    }
+  };
+};
+
+module.exports = {
+  createSmtpNotifier
+};
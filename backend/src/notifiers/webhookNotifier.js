@@ -0,0 +1,147 @@
+// backend/src/notifiers/webhookNotifier.js
+
+/**
+ * Webhook Notifier
+ *
+ * POSTs notifications as JSON to the outgoing webhooks a user has set up
+ * (the `webhooks` collection). Requests are signed with the webhook's secret
+ * so receivers can check they came from Paisa:
+ *
+ *   X-Paisa-Timestamp: <unix seconds>
+ *   X-Paisa-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+const https = require('https');
+const axios = require('axios');
+const { db } = require('../config/firebase');
+const { PUBLIC_ADDRESS_ERROR, checkPublicUrl, guardedLookup } = require('../utils/publicAddress');
+
+// Sockets that refuse to connect to private and reserved addresses
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * Enabled webhooks of a user
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<Array<Object>>} - Webhooks with their IDs
+ */
+const getUserWebhooks = async (userId) => {
+  const snapshot = await db.collection('webhooks')
+    .where('userId', '==', userId)
+    .where('enabled', '==', true)
+    .get();
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+};
+
+/**
+ * Signature of a request body at a timestamp
+ *
+ * @param {string} secret - Webhook secret
+ * @param {number} timestamp - Unix seconds
+ * @param {string} body - Raw JSON body
+ * @returns {string} - Hex HMAC-SHA256
+ */
+const signPayload = (secret, timestamp, body) => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+/**
+ * JSON payload of a notification
+ * The delivery ID and time stay the same when a delivery is retried,
+ * so receivers can drop duplicates
+ *
+ * @param {Object} notification - { type, title, message, link?, data? }
+ * @param {Object} delivery - { id, createdAt }
+ * @returns {Object}
+ */
+const buildPayload = (notification, delivery) => ({
+  id: delivery.id,
+  event: notification.type,
+  createdAt: delivery.createdAt,
+  title: notification.title,
+  message: notification.message,
+  link: notification.link || null,
+  data: notification.data || {}
+});
+
+/**
+ * POST a signed payload to a webhook
+ * The URL is checked again before each request, since its host may resolve
+ * elsewhere by now. Errors carry a message safe to show the user, and
+ * `retryable: false` when trying again cannot help (the URL is not allowed or
+ * the receiver rejected the request)
+ *
+ * @param {Object} webhook - { url, secret }
+ * @param {Object} payload - JSON payload
+ * @param {number} timeoutMs - Request timeout
+ */
+const postWebhook = async (webhook, payload, timeoutMs) => {
+  const urlError = await checkPublicUrl(webhook.url);
+  if (urlError) {
+    throw Object.assign(new Error(urlError), { retryable: false });
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    await axios.post(webhook.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Paisa-Webhooks/1.0',
+        'X-Paisa-Event': payload.event,
+        'X-Paisa-Delivery': payload.id,
+        'X-Paisa-Timestamp': String(timestamp),
+        'X-Paisa-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`
+      },
+      timeout: timeoutMs,
+      maxRedirects: 0,
+      httpAgent,
+      httpsAgent
+    });
+  } catch (error) {
+    const status = error.response && error.response.status;
+
+    if (!status && error.code === 'EBLOCKEDADDRESS') {
+      throw Object.assign(new Error(PUBLIC_ADDRESS_ERROR), { retryable: false });
+    }
+
+    // Network error details stay in the server log rather than the delivery log
+    if (!status) {
+      console.error(`[NOTIFY] Webhook request to ${webhook.url} failed:`, error.message);
+    }
+
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    const failure = new Error(status
+      ? `Webhook responded with ${status}`
+      : timedOut ? 'Webhook timed out' : 'Webhook could not be reached');
+    // Timeouts, network errors, rate limits and server errors may pass on a later try
+    failure.retryable = !status || status >= 500 || status === 408 || status === 429;
+    throw failure;
+  }
+};
+
+/**
+ * Create a webhook notifier
+ *
+ * @param {Object} options - { timeoutMs }
+ * @returns {Object} - Notifier
+ */
+const createWebhookNotifier = ({ timeoutMs }) => ({
+  name: 'webhook',
+
+  // One webhook; the dispatcher tracks and retries each delivery
+  async deliver(webhook, notification, delivery) {
+    await postWebhook(webhook, buildPayload(notification, delivery), timeoutMs);
+  }
+});
+
+module.exports = {
+  getUserWebhooks,
+  signPayload,
+  createWebhookNotifier
+};
@@ -0,0 +1,40 @@
+// backend/src/rates/frankfurterProvider.js
+
+/**
+ * Frankfurter Rate Provider
+ * 
+ * Historical ECB reference rates (no API key needed)
+ * Weekends and holidays resolve to the previous business day's rate
+ */
+
+const axios = require('axios');
+
+/**
+ * Create a Frankfurter rate provider
+ * 
+ * @param {string} baseUrl - API base URL
+ * @returns {Object} - Rate provider
+ */
+const createFrankfurterProvider = (baseUrl) => ({
+  name: 'frankfurter',
+
+  async getRate(from, to, date) {
+    try {
+      const { data } = await axios.get(`${baseUrl}/${date}`, {
+        params: { from, to },
+        timeout: 5000
+      });
+
+      const rate = data && data.rates ? data.rates[to] : undefined;
+      return typeof rate === 'number' ? rate : null;
+    } catch (error) {
+      // Unsupported currencies come back as 404; treat any failure as "no rate"
+      console.error(`Frankfurter rate lookup failed for ${from}→${to} on ${date}:`, error.message);
+      return null;
+    }
+  }
+});
+
+module.exports = {
+  createFrankfurterProvider
+};
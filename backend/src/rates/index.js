@@ -0,0 +1,51 @@
+// backend/src/rates/index.js
+
+/**
+ * Exchange Rate Providers
+ * 
+ * Pluggable source of exchange rates, used when the user has no stored rate
+ * Every provider implements:
+ * 
+ *   getRate(from, to, date) → Promise<number|null>   (units of `to` per 1 `from`)
+ * 
+ * Pick a provider with RATE_PROVIDER:
+ * - none        (default) - only manually entered rates are used
+ * - frankfurter           - free ECB reference rates from frankfurter.app
+ */
+
+const { createFrankfurterProvider } = require('./frankfurterProvider');
+
+const PROVIDERS = {
+  none: () => ({
+    name: 'none',
+    async getRate() {
+      return null;
+    }
+  }),
+  frankfurter: () => createFrankfurterProvider(process.env.FRANKFURTER_URL || 'https://api.frankfurter.app')
+};
+
+let provider = null;
+
+/**
+ * Get the configured rate provider (created once)
+ * 
+ * @returns {Object} - Rate provider
+ */
+const getRateProvider = () => {
+  if (!provider) {
+    const name = process.env.RATE_PROVIDER || 'none';
+
+    if (!PROVIDERS[name]) {
+      throw new Error(`Unknown RATE_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+
+    provider = PROVIDERS[name]();
+  }
+
+  return provider;
+};
+
+module.exports = {
+  getRateProvider
+};
@@ -0,0 +1,35 @@
+// backend/src/routes/adminRoutes.js
+
+/**
+ * Admin Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  getJobRuns,
+  runJobNow
+} = require('../controllers/adminController');
+
+const { verifyToken, requireAdmin } = require('../middleware/auth');
+
+// All routes require an authenticated admin
+router.use(verifyToken, requireAdmin);
+
+/**
+ * @route   GET /api/admin/job-runs
+ * @desc    Background job run history (newest first)
+ * @access  Admin
+ * @query   ?job=generate-recurring&status=failed&limit=20
+ */
+router.get('/job-runs', getJobRuns);
+
+/**
+ * @route   POST /api/admin/jobs/:job/run
+ * @desc    Run a background job now (e.g. generate-recurring)
+ * @access  Admin
+ */
+router.post('/jobs/:job/run', runJobNow);
+
+module.exports = router;
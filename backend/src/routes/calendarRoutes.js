@@ -0,0 +1,21 @@
+// backend/src/routes/calendarRoutes.js
+
+/**
+ * Calendar Feed Routes
+ * Public: calendar apps authenticate with the token in the URL
+ * (tokens are managed under /api/user/calendar-feed)
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { getCalendarFeed } = require('../controllers/calendarController');
+
+/**
+ * @route   GET /api/calendar/:token.ics
+ * @desc    iCalendar feed of upcoming recurring expenses and budget ends
+ * @access  Public (token)
+ */
+router.get('/:token.ics', getCalendarFeed);
+
+module.exports = router;
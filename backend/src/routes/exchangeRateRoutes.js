@@ -0,0 +1,53 @@
+// backend/src/routes/exchangeRateRoutes.js
+
+/**
+ * Exchange Rate Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  getExchangeRates,
+  createExchangeRate,
+  deleteExchangeRate,
+  lookupExchangeRate
+} = require('../controllers/exchangeRateController');
+
+const { verifyToken } = require('../middleware/auth');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/exchange-rates
+ * @desc    List stored exchange rates (manual and provider-fetched)
+ * @access  Private
+ * @query   ?base=EUR&quote=USD
+ */
+router.get('/', getExchangeRates);
+
+/**
+ * @route   GET /api/exchange-rates/lookup
+ * @desc    Resolve the rate used to convert between two currencies on a date
+ * @access  Private
+ * @query   ?from=EUR&to=USD&date=2026-03-01
+ */
+router.get('/lookup', lookupExchangeRate);
+
+/**
+ * @route   POST /api/exchange-rates
+ * @desc    Add or replace a manual exchange rate
+ * @access  Private
+ * @body    { base, quote, rate, date }
+ */
+router.post('/', createExchangeRate);
+
+/**
+ * @route   DELETE /api/exchange-rates/:id
+ * @desc    Delete an exchange rate
+ * @access  Private
+ */
+router.delete('/:id', deleteExchangeRate);
+
+module.exports = router;
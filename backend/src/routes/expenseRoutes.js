@@ -16,10 +16,21 @@ const {
   getExpenseById,
   updateExpense,
   deleteExpense,
-  getExpenseStats
+  getExpenseStats,
+  getTagStats,
+  exportExpenses,
+  previewImport,
+  importExpenses
 } = require('../controllers/expenseController');
 
+const {
+  addAttachments,
+  getAttachment,
+  deleteAttachment
+} = require('../controllers/attachmentController');
+
 const { verifyToken } = require('../middleware/auth');
+const { uploadAttachments } = require('../middleware/upload');
 
 // All routes require authentication
 router.use(verifyToken);
@@ -28,15 +39,15 @@ router.use(verifyToken);
  * @route   POST /api/expenses
  * @desc    Create a new expense
  * @access  Private
- * @body    { amount, category, description, date, aiSuggested? }
+ * @body    { amount, category, description, date, aiSuggested?, tags?, splits? }
  */
 router.post('/', createExpense);
 
 /**
  * @route   GET /api/expenses
- * @desc    Get all expenses for logged-in user
+ * @desc    Get expenses for logged-in user (cursor-based pagination)
  * @access  Private
- * @query   ?page=1&limit=10&category=Food&startDate=2026-01-01&endDate=2026-01-31
+ * @query   ?limit=50&cursor=<nextCursor>&categories=Food,Bills&tag=trip-goa-2026&startDate=2026-01-01&endDate=2026-01-31&search=uber&sortBy=date|amount|category&order=asc|desc
  */
 router.get('/', getExpenses);
 
@@ -48,6 +59,38 @@ router.get('/', getExpenses);
  */
 router.get('/stats/summary', getExpenseStats);
 
+/**
+ * @route   GET /api/expenses/stats/tags
+ * @desc    Get spending totals per tag with a category breakdown
+ * @access  Private
+ * @query   ?startDate=2026-01-01&endDate=2026-12-31&tag=trip-goa-2026
+ */
+router.get('/stats/tags', getTagStats);
+
+/**
+ * @route   GET /api/expenses/export
+ * @desc    Download expenses as a file (streamed)
+ * @access  Private
+ * @query   ?format=csv|json|xlsx&categories=Food,Bills&tag=trip-goa-2026&startDate=2026-01-01&endDate=2026-01-31&search=uber&sortBy=date&order=desc
+ */
+router.get('/export', exportExpenses);
+
+/**
+ * @route   POST /api/expenses/import/preview
+ * @desc    Parse a CSV statement and preview mapped rows with validation errors
+ * @access  Private
+ * @body    { csv, mapping?: { amount, date, description, category?, dateFormat?, amountSign? } }
+ */
+router.post('/import/preview', previewImport);
+
+/**
+ * @route   POST /api/expenses/import
+ * @desc    Import expenses from a CSV statement
+ * @access  Private
+ * @body    { csv, mapping?: { amount, date, description, category?, dateFormat?, amountSign? } }
+ */
+router.post('/import', importExpenses);
+
 /**
  * @route   GET /api/expenses/:id
  * @desc    Get single expense by ID
@@ -70,4 +113,26 @@ router.put('/:id', updateExpense);
  */
 router.delete('/:id', deleteExpense);
 
-module.exports = router;
\ No newline at end of file
+/**
+ * @route   POST /api/expenses/:id/attachments
+ * @desc    Upload receipt images/PDFs to an expense
+ * @access  Private
+ * @body    multipart/form-data { files: File[] } (JPEG, PNG, WebP, GIF or PDF, max 10 MB each)
+ */
+router.post('/:id/attachments', uploadAttachments, addAttachments);
+
+/**
+ * @route   GET /api/expenses/:id/attachments/:attachmentId
+ * @desc    Download an attachment
+ * @access  Private
+ */
+router.get('/:id/attachments/:attachmentId', getAttachment);
+
+/**
+ * @route   DELETE /api/expenses/:id/attachments/:attachmentId
+ * @desc    Delete an attachment
+ * @access  Private
+ */
+router.delete('/:id/attachments/:attachmentId', deleteAttachment);
+
+module.exports = router;
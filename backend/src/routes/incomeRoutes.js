@@ -0,0 +1,68 @@
+// backend/src/routes/incomeRoutes.js
+
+/**
+ * Income Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  createIncome,
+  getIncome,
+  updateIncome,
+  deleteIncome,
+  getCashFlow,
+  getIncomeCategories
+} = require('../controllers/incomeController');
+
+const { verifyToken } = require('../middleware/auth');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/income/cash-flow
+ * @desc    Monthly income, expenses, net savings and savings rate
+ * @access  Private
+ * @query   ?months=6
+ */
+router.get('/cash-flow', getCashFlow);
+
+/**
+ * @route   GET /api/income/categories
+ * @desc    Suggested income categories
+ * @access  Private
+ */
+router.get('/categories', getIncomeCategories);
+
+/**
+ * @route   POST /api/income
+ * @desc    Record income
+ * @access  Private
+ */
+router.post('/', createIncome);
+
+/**
+ * @route   GET /api/income
+ * @desc    List income, newest first
+ * @access  Private
+ * @query   ?limit=50&cursor=<incomeId>&category=Salary&startDate=2026-01-01&endDate=2026-01-31
+ */
+router.get('/', getIncome);
+
+/**
+ * @route   PUT /api/income/:id
+ * @desc    Update an income entry
+ * @access  Private
+ */
+router.put('/:id', updateIncome);
+
+/**
+ * @route   DELETE /api/income/:id
+ * @desc    Delete an income entry
+ * @access  Private
+ */
+router.delete('/:id', deleteIncome);
+
+module.exports = router;
@@ -0,0 +1,104 @@
+// backend/src/routes/notificationRoutes.js
+
+/**
+ * Notification Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  getNotifications,
+  updateNotification,
+  markAllNotificationsRead,
+  getNotificationSettings,
+  updateNotificationSettings,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  testWebhook,
+  getNotificationDeliveries
+} = require('../controllers/notificationController');
+
+const { verifyToken } = require('../middleware/auth');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Get notifications (newest first) and the unread count
+ * @access  Private
+ * @query   ?unread=true&limit=20
+ */
+router.get('/', getNotifications);
+
+/**
+ * @route   POST /api/notifications/read-all
+ * @desc    Mark all notifications as read
+ * @access  Private
+ */
+router.post('/read-all', markAllNotificationsRead);
+
+/**
+ * @route   GET /api/notifications/settings
+ * @desc    Get notification channels and webhooks
+ * @access  Private
+ */
+router.get('/settings', getNotificationSettings);
+
+/**
+ * @route   PUT /api/notifications/settings
+ * @desc    Choose the channels notifications are sent on
+ * @access  Private
+ * @body    { alertChannels: ['in-app', 'smtp', 'webhook'] }
+ */
+router.put('/settings', updateNotificationSettings);
+
+/**
+ * @route   GET /api/notifications/deliveries
+ * @desc    Get the notification delivery log (newest first)
+ * @access  Private
+ * @query   ?limit=20
+ */
+router.get('/deliveries', getNotificationDeliveries);
+
+/**
+ * @route   POST /api/notifications/webhooks
+ * @desc    Add an outgoing webhook
+ * @access  Private
+ * @body    { url, description? }
+ */
+router.post('/webhooks', createWebhook);
+
+/**
+ * @route   PATCH /api/notifications/webhooks/:id
+ * @desc    Update a webhook
+ * @access  Private
+ * @body    { url?, description?, enabled? }
+ */
+router.patch('/webhooks/:id', updateWebhook);
+
+/**
+ * @route   DELETE /api/notifications/webhooks/:id
+ * @desc    Delete a webhook
+ * @access  Private
+ */
+router.delete('/webhooks/:id', deleteWebhook);
+
+/**
+ * @route   POST /api/notifications/webhooks/:id/test
+ * @desc    Send a signed test event to a webhook
+ * @access  Private
+ */
+router.post('/webhooks/:id/test', testWebhook);
+
+/**
+ * @route   PATCH /api/notifications/:id
+ * @desc    Mark a notification as read or unread
+ * @access  Private
+ * @body    { read: boolean }
+ */
+router.patch('/:id', updateNotification);
+
+module.exports = router;
@@ -12,9 +12,20 @@ const {
   getRecurringExpenses,
   getUpcomingRecurringExpenses,
   getRecurringExpenseById,
+  getRecurringSchedule,
+  previewRecurringSchedule,
   updateRecurringExpense,
   deleteRecurringExpense,
-  generateExpenseFromRecurring
+  generateExpenseFromRecurring,
+  getPendingConfirmations,
+  confirmGeneratedAmount,
+  getDetectedSubscriptions,
+  acceptDetectedSubscription,
+  getRecurringHistory,
+  recategorizeRecurringHistory,
+  unlinkRecurringHistory,
+  setOccurrenceException,
+  removeOccurrenceException
 } = require('../controllers/recurringExpenseController');
 
 const { verifyToken } = require('../middleware/auth');
@@ -45,6 +56,72 @@ router.get('/', getRecurringExpenses);
  */
 router.get('/upcoming', getUpcomingRecurringExpenses);
 
+/**
+ * @route   GET /api/recurring-expenses/pending
+ * @desc    Get generated expenses waiting for their real amount
+ * @access  Private
+ */
+router.get('/pending', getPendingConfirmations);
+
+/**
+ * @route   POST /api/recurring-expenses/pending/:expenseId/confirm
+ * @desc    Confirm the real amount of an estimated expense
+ * @access  Private
+ */
+router.post('/pending/:expenseId/confirm', confirmGeneratedAmount);
+
+/**
+ * @route   GET /api/recurring-expenses/detect
+ * @desc    Find subscriptions in expense history that have no template yet
+ * @access  Private
+ * @query   ?months=12
+ */
+router.get('/detect', getDetectedSubscriptions);
+
+/**
+ * @route   POST /api/recurring-expenses/detect/accept
+ * @desc    Create a template from a detected subscription and link its expenses
+ * @access  Private
+ */
+router.post('/detect/accept', acceptDetectedSubscription);
+
+/**
+ * @route   POST /api/recurring-expenses/schedule
+ * @desc    Preview the occurrences of an unsaved template
+ * @access  Private
+ * @query   ?count=12
+ */
+router.post('/schedule', previewRecurringSchedule);
+
+/**
+ * @route   GET /api/recurring-expenses/:id/schedule
+ * @desc    Get the next occurrences of a template
+ * @access  Private
+ * @query   ?count=12
+ */
+router.get('/:id/schedule', getRecurringSchedule);
+
+/**
+ * @route   GET /api/recurring-expenses/:id/history
+ * @desc    Get the expenses a template has produced, with totals
+ * @access  Private
+ */
+router.get('/:id/history', getRecurringHistory);
+
+/**
+ * @route   POST /api/recurring-expenses/:id/history/recategorize
+ * @desc    Move expenses of a template to another category
+ * @access  Private
+ */
+router.post('/:id/history/recategorize', recategorizeRecurringHistory);
+
+/**
+ * @route   POST /api/recurring-expenses/:id/history/unlink
+ * @desc    Detach expenses from a template
+ * @access  Private
+ */
+router.post('/:id/history/unlink', unlinkRecurringHistory);
+
 /**
  * @route   GET /api/recurring-expenses/:id
  * @desc    Get single recurring expense
@@ -73,4 +150,18 @@ router.delete('/:id', deleteRecurringExpense);
  */
 router.post('/:id/generate', generateExpenseFromRecurring);
 
+/**
+ * @route   PUT /api/recurring-expenses/:id/exceptions/:date
+ * @desc    Skip, move or change the amount of one occurrence
+ * @access  Private
+ */
+router.put('/:id/exceptions/:date', setOccurrenceException);
+
+/**
+ * @route   DELETE /api/recurring-expenses/:id/exceptions/:date
+ * @desc    Restore one occurrence to its schedule
+ * @access  Private
+ */
+router.delete('/:id/exceptions/:date', removeOccurrenceException);
+
 module.exports = router;
\ No newline at end of file
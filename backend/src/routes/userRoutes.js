@@ -0,0 +1,61 @@
+// backend/src/routes/userRoutes.js
+
+/**
+ * User Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  getPreferences,
+  updatePreferences
+} = require('../controllers/userController');
+const {
+  getCalendarFeedStatus,
+  createCalendarFeed,
+  revokeCalendarFeed
+} = require('../controllers/calendarController');
+
+const { verifyToken } = require('../middleware/auth');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/user/preferences
+ * @desc    Get preferences (defaults filled in)
+ * @access  Private
+ */
+router.get('/preferences', getPreferences);
+
+/**
+ * @route   PATCH /api/user/preferences
+ * @desc    Update preferences
+ * @access  Private
+ * @body    { currency?, locale?, timezone?, weekStartsOn?, dateFormat?, landingPage? }
+ */
+router.patch('/preferences', updatePreferences);
+
+/**
+ * @route   GET /api/user/calendar-feed
+ * @desc    Get the calendar feed token (null when there is none)
+ * @access  Private
+ */
+router.get('/calendar-feed', getCalendarFeedStatus);
+
+/**
+ * @route   POST /api/user/calendar-feed
+ * @desc    Create or rotate the calendar feed token
+ * @access  Private
+ */
+router.post('/calendar-feed', createCalendarFeed);
+
+/**
+ * @route   DELETE /api/user/calendar-feed
+ * @desc    Revoke the calendar feed token
+ * @access  Private
+ */
+router.delete('/calendar-feed', revokeCalendarFeed);
+
+module.exports = router;
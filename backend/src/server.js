@@ -8,13 +8,22 @@ const { db, auth } = require('./config/firebase');
 const { verifyToken } = require('./middleware/auth');
 const { errorHandler, notFoundHandler, asyncHandler } = require('./middleware/errorHandler');
 const cron = require('node-cron');
-const { generateDueExpenses } = require('./controllers/recurringExpenseController');
+const { generateDueExpenses, sendDueReminders } = require('./controllers/recurringExpenseController');
+const { renewDueBudgets } = require('./controllers/budgetController');
+const { retryNotificationDeliveries } = require('./controllers/notificationController');
 
 // Import route files
 const expenseRoutes = require('./routes/expenseRoutes');
 const aiRoutes = require('./routes/aiRoutes');
 const recurringExpenseRoutes = require('./routes/recurringExpensesRoutes');
 const budgetRoutes = require('./routes/budgetRoutes');
+const exchangeRateRoutes = require('./routes/exchangeRateRoutes');
+const userRoutes = require('./routes/userRoutes');
+const incomeRoutes = require('./routes/incomeRoutes');
+const adminRoutes = require('./routes/adminRoutes');
+const calendarRoutes = require('./routes/calendarRoutes');
+const notificationRoutes = require('./routes/notificationRoutes');
+const { PREFERENCE_DEFAULTS } = require('./models/userPreferencesModel');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -72,8 +81,11 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       expenses: '/api/expenses',
+      income: '/api/income',
       budgets: '/api/budgets',
       recurringExpenses: '/api/recurring-expenses',
+      exchangeRates: '/api/exchange-rates',
+      notifications: '/api/notifications',
       ai: '/api/ai'
     }
   });
@@ -123,7 +135,7 @@ app.get('/api/user/profile', verifyToken, asyncHandler(async (req, res) => {
       email: req.user.email,
       createdAt: new Date().toISOString(),
       preferences: {
-        currency: 'USD',
+        ...PREFERENCE_DEFAULTS,
         defaultCategories: ['Food', 'Transport', 'Entertainment', 'Shopping', 'Bills', 'Health', 'Education', 'Other']
       }
     };
@@ -145,9 +157,15 @@ app.get('/api/user/profile', verifyToken, asyncHandler(async (req, res) => {
  * API ROUTES
  */
 app.use('/api/expenses', expenseRoutes);
+app.use('/api/income', incomeRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/recurring-expenses', recurringExpenseRoutes);
 app.use('/api/budgets', budgetRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/user', userRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 /**
  * ERROR HANDLING
@@ -164,18 +182,100 @@ if (process.env.NODE_ENV === 'production') {
     console.log('🕐 Running scheduled recurring expense generation...');
     console.log('Time:', new Date().toISOString());
     
-    const result = await generateDueExpenses();
-    
-    if (result.success) {
-      console.log(`✅ Successfully generated ${result.generated} recurring expenses`);
-    } else {
-      console.error(`❌ Cron job failed: ${result.error}`);
+    try {
+      const result = await generateDueExpenses('cron');
+
+      if (result.success) {
+        console.log(`✅ Successfully generated ${result.generated} recurring expenses`);
+      } else {
+        console.error(`❌ Cron job failed: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Cron job failed:', error);
     }
     
     console.log('═══════════════════════════════════════');
   });
   
   console.log('⏰ Cron job scheduled: Daily at midnight UTC');
+
+  // Reminders go out in the morning; each occurrence is only reminded once
+  cron.schedule('0 8 * * *', async () => {
+    console.log('🔔 Running scheduled recurring reminders...');
+
+    try {
+      const result = await sendDueReminders('cron');
+
+      if (result.success) {
+        console.log(`✅ Sent ${result.sent} recurring reminders`);
+      } else {
+        console.error(`❌ Reminder job failed: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Reminder job failed:', error);
+    }
+  });
+
+  console.log('⏰ Reminder job scheduled: Daily at 08:00 UTC');
+
+  // Budgets renew just after midnight, once the day's recurring expenses exist
+  cron.schedule('15 0 * * *', async () => {
+    console.log('🔁 Running scheduled budget renewal...');
+
+    try {
+      const result = await renewDueBudgets('cron');
+
+      if (result.success) {
+        console.log(`✅ Renewed ${result.renewed} budgets`);
+      } else {
+        console.error(`❌ Budget renewal failed: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Budget renewal failed:', error);
+    }
+  });
+
+  console.log('⏰ Budget renewal scheduled: Daily at 00:15 UTC');
+
+  // Notification deliveries that failed are retried with backoff
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const result = await retryNotificationDeliveries('cron');
+
+      if (!result.success) {
+        console.error(`❌ Delivery retry failed: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Delivery retry failed:', error);
+    }
+  });
+
+  console.log('⏰ Delivery retries scheduled: Every 5 minutes');
+
+  // The host may sleep through midnight; catch up on anything missed at boot
+  generateDueExpenses('startup').then(result => {
+    if (result.success) {
+      console.log(`✅ Startup catch-up generated ${result.generated} recurring expenses`);
+    } else {
+      console.error(`❌ Startup catch-up failed: ${result.error}`);
+    }
+
+    return sendDueReminders('startup');
+  }).then(result => {
+    if (!result.success) {
+      console.error(`❌ Startup reminders failed: ${result.error}`);
+    }
+
+    return renewDueBudgets('startup');
+  }).then(result => {
+    if (result.success) {
+      console.log(`✅ Startup catch-up renewed ${result.renewed} budgets`);
+    } else {
+      console.error(`❌ Startup budget renewal failed: ${result.error}`);
+    }
+  }).catch(error => {
+    console.error('❌ Startup catch-up failed:', error);
+  });
 }
 
 /**
@@ -0,0 +1,52 @@
+// backend/src/storage/bucketStorage.js
+
+/**
+ * Cloud Bucket Storage Driver
+ * 
+ * Stores files in a Firebase Storage (Google Cloud Storage) bucket
+ * Uses the same service account as Firestore, so no extra credentials are needed
+ */
+
+const { admin } = require('../config/firebase');
+
+/**
+ * Create a bucket storage driver
+ * 
+ * @param {string} bucketName - Bucket name, e.g. "my-project.appspot.com"
+ * @returns {Object} - Storage driver
+ */
+const createBucketStorage = (bucketName) => {
+  if (!bucketName) {
+    throw new Error('FIREBASE_STORAGE_BUCKET must be set to use bucket storage');
+  }
+
+  const bucket = admin.storage().bucket(bucketName);
+
+  return {
+    async save(key, buffer, contentType) {
+      await bucket.file(key).save(buffer, {
+        contentType,
+        resumable: false
+      });
+    },
+
+    async createReadStream(key) {
+      const file = bucket.file(key);
+      const [exists] = await file.exists();
+      if (!exists) {
+        const error = new Error(`File not found: ${key}`);
+        error.code = 'ENOENT';
+        throw error;
+      }
+      return file.createReadStream();
+    },
+
+    async remove(key) {
+      await bucket.file(key).delete({ ignoreNotFound: true });
+    }
+  };
+};
+
+module.exports = {
+  createBucketStorage
+};
@@ -0,0 +1,49 @@
+// backend/src/storage/index.js
+
+/**
+ * File Storage
+ * 
+ * Pluggable storage for uploaded files (receipts, etc.)
+ * Every driver implements the same interface:
+ * 
+ *   save(key, buffer, contentType)  → Promise<void>
+ *   createReadStream(key)           → Promise<Readable>
+ *   remove(key)                     → Promise<void>
+ * 
+ * Pick a driver with STORAGE_DRIVER:
+ * - local  (default) - files on local disk, for development and tests
+ * - bucket           - Firebase Storage / Google Cloud Storage bucket, for production
+ */
+
+const { createLocalDiskStorage } = require('./localDiskStorage');
+const { createBucketStorage } = require('./bucketStorage');
+
+const DRIVERS = {
+  local: () => createLocalDiskStorage(process.env.LOCAL_STORAGE_DIR || 'uploads'),
+  bucket: () => createBucketStorage(process.env.FIREBASE_STORAGE_BUCKET)
+};
+
+let storage = null;
+
+/**
+ * Get the configured storage driver (created once)
+ * 
+ * @returns {Object} - Storage driver
+ */
+const getStorage = () => {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+
+    if (!DRIVERS[driver]) {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use one of: ${Object.keys(DRIVERS).join(', ')}`);
+    }
+
+    storage = DRIVERS[driver]();
+  }
+
+  return storage;
+};
+
+module.exports = {
+  getStorage
+};
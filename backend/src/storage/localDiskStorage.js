@@ -0,0 +1,57 @@
+// backend/src/storage/localDiskStorage.js
+
+/**
+ * Local Disk Storage Driver
+ * 
+ * Stores files under a directory on the server's disk
+ * Meant for development and tests - files do not survive redeploys
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Create a local disk storage driver
+ * 
+ * @param {string} baseDir - Directory to store files in (relative to cwd or absolute)
+ * @returns {Object} - Storage driver
+ */
+const createLocalDiskStorage = (baseDir) => {
+  const root = path.resolve(baseDir);
+
+  // Keys come from our own code, but never let one escape the storage root
+  const resolveKey = (key) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, buffer);
+    },
+
+    async createReadStream(key) {
+      const filePath = resolveKey(key);
+      // Fail before streaming so missing files can become a 404
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+
+    async remove(key) {
+      try {
+        await fs.promises.unlink(resolveKey(key));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+  };
+};
+
+module.exports = {
+  createLocalDiskStorage
+};
@@ -0,0 +1,98 @@
+// backend/src/utils/budgetForecast.js
+
+/**
+ * Budget forecast
+ *
+ * Projects what each category of a budget will have spent by the end of its
+ * period. Day-to-day spending (anything not generated from a recurring
+ * template) is extrapolated at a daily rate that blends the current period's
+ * burn rate with the same-length periods before it: early in a period the
+ * history dominates, towards the end the current pace does. Recurring
+ * occurrences still due before the period ends are added at their amounts.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundTo = (value, places = 2) => parseFloat(value.toFixed(places));
+
+const daysBetween = (from, to) => Math.round((new Date(to) - new Date(from)) / DAY_MS);
+
+/**
+ * Day counts of a period as of today
+ * - daysElapsed: days up to and including today
+ * - daysAhead: days after today (what is left to extrapolate)
+ * - daysLeft: days still open for spending, today included
+ *
+ * @param {Object} period - { startDate, endDate }
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @returns {Object} - { totalDays, daysElapsed, daysAhead, daysLeft }
+ */
+const getPeriodDays = (period, today) => {
+  const totalDays = daysBetween(period.startDate, period.endDate) + 1;
+  const daysElapsed = Math.min(Math.max(daysBetween(period.startDate, today) + 1, 0), totalDays);
+  const daysAhead = totalDays - daysElapsed;
+  const daysLeft = today > period.endDate ? 0 : Math.min(daysAhead + 1, totalDays);
+
+  return { totalDays, daysElapsed, daysAhead, daysLeft };
+};
+
+/**
+ * Forecast of a budget's end-of-period spending
+ *
+ * @param {Object} input
+ * @param {Object} input.budget - Budget with progress (categoryBudgets with spent and adjustedLimit)
+ * @param {string} input.today - Today (YYYY-MM-DD)
+ * @param {Object} input.discretionary - Spent so far this period per category, recurring entries left out
+ * @param {Object} input.history - { periods, spending }: number of earlier periods with data and their spending per category
+ * @param {Object} input.upcoming - Recurring spending still due this period per category
+ * @returns {Object} - Totals, day counts and per-category forecasts
+ */
+const buildForecast = ({ budget, today, discretionary, history, upcoming }) => {
+  const { totalDays, daysElapsed, daysAhead, daysLeft } = getPeriodDays(budget.period, today);
+  const weight = daysElapsed / totalDays;
+
+  const categories = budget.categoryBudgets.map(catBudget => {
+    const limit = catBudget.adjustedLimit ?? catBudget.limit;
+    const burnRate = daysElapsed > 0 ? (discretionary[catBudget.category] || 0) / daysElapsed : 0;
+    const historicalRate = history.periods > 0
+      ? (history.spending[catBudget.category] || 0) / (history.periods * totalDays)
+      : null;
+    const dailyRate = historicalRate === null ? burnRate : weight * burnRate + (1 - weight) * historicalRate;
+    const upcomingRecurring = upcoming[catBudget.category] || 0;
+    const projected = catBudget.spent + dailyRate * daysAhead + upcomingRecurring;
+
+    return {
+      category: catBudget.category,
+      limit: roundTo(limit),
+      spent: catBudget.spent,
+      burnRate: roundTo(burnRate),
+      historicalRate: historicalRate === null ? null : roundTo(historicalRate),
+      upcomingRecurring: roundTo(upcomingRecurring),
+      projected: roundTo(projected),
+      overBy: roundTo(Math.max(projected - limit, 0)),
+      dailySafeToSpend: daysLeft > 0 ? roundTo(Math.max(limit - catBudget.spent - upcomingRecurring, 0) / daysLeft) : null
+    };
+  });
+
+  const sum = (field) => categories.reduce((total, category) => total + category[field], 0);
+  const limit = sum('limit');
+  const projected = sum('projected');
+  const upcomingRecurring = sum('upcomingRecurring');
+
+  return {
+    totalDays,
+    daysElapsed,
+    daysLeft,
+    historyPeriods: history.periods,
+    projected: roundTo(projected),
+    upcomingRecurring: roundTo(upcomingRecurring),
+    overBy: roundTo(Math.max(projected - limit, 0)),
+    dailySafeToSpend: daysLeft > 0 ? roundTo(Math.max(limit - sum('spent') - upcomingRecurring, 0) / daysLeft) : null,
+    categories
+  };
+};
+
+module.exports = {
+  getPeriodDays,
+  buildForecast
+};
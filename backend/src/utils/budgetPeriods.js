@@ -0,0 +1,77 @@
+// backend/src/utils/budgetPeriods.js
+
+/**
+ * Budget periods
+ *
+ * Works out the period that follows a monthly or weekly budget, for
+ * auto-renewal. Dates are YYYY-MM-DD strings in UTC.
+ */
+
+const parseDate = (date) => new Date(`${date}T00:00:00Z`);
+
+const toDateString = (date) => date.toISOString().split('T')[0];
+
+const addDays = (date, days) => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Day of month a monthly series renews on: the start day of the budget the
+ * series began with (kept on renewals as `anchorDay`)
+ *
+ * @param {Object} budget - Budget data with period
+ * @returns {number} - 1-31
+ */
+const getAnchorDay = (budget) => budget.anchorDay || parseDate(budget.period.startDate).getUTCDate();
+
+/**
+ * The anchor day in a month; days past the end of the month fall on its last day
+ */
+const anchorDate = (year, month, anchorDay) => {
+  const normalizedYear = year + Math.floor(month / 12);
+  const normalizedMonth = ((month % 12) + 12) % 12;
+  const day = Math.min(anchorDay, daysInMonth(normalizedYear, normalizedMonth));
+  return toDateString(new Date(Date.UTC(normalizedYear, normalizedMonth, day)));
+};
+
+/**
+ * Period that follows a budget's period
+ * - monthly: runs to the day before the series' anchor day (see getAnchorDay), clamped to
+ *   short months, so a series started on the 31st covers Jan 31 - Feb 27, Feb 28 - Mar 30,
+ *   Mar 31 - Apr 29, ... and one started on the 1st covers calendar months
+ * - weekly: runs to the day before the user's first day of week, so renewals line up with
+ *   their week-start preference (normally 7 days)
+ *
+ * @param {Object} budget - Budget data with type and period
+ * @param {number} weekStartsOn - 0 = Sunday ... 6 = Saturday
+ * @returns {Object} - { startDate, endDate }
+ */
+const getNextPeriod = (budget, weekStartsOn = 0) => {
+  const startDate = addDays(budget.period.endDate, 1);
+
+  if (budget.type === 'weekly') {
+    const daysToWeekStart = ((weekStartsOn - parseDate(startDate).getUTCDay() + 7) % 7) || 7;
+    return { startDate, endDate: addDays(startDate, daysToWeekStart - 1) };
+  }
+
+  // The period ends before the next anchor date; a period that starts off the
+  // anchor (an uneven first budget) is shortened to line back up with it
+  const anchorDay = getAnchorDay(budget);
+  const start = parseDate(startDate);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const sameMonth = anchorDate(year, month, anchorDay);
+  const nextAnchor = startDate < sameMonth ? sameMonth : anchorDate(year, month + 1, anchorDay);
+
+  return { startDate, endDate: addDays(nextAnchor, -1) };
+};
+
+module.exports = {
+  addDays,
+  getAnchorDay,
+  getNextPeriod
+};
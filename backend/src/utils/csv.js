@@ -0,0 +1,95 @@
+// backend/src/utils/csv.js
+
+/**
+ * CSV Helpers
+ * 
+ * Minimal RFC 4180 parsing and formatting used by expense import/export
+ */
+
+/**
+ * Parse CSV text into rows of string cells
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings
+ * 
+ * @param {string} text - Raw CSV text
+ * @param {string} delimiter - Field delimiter (default ',')
+ * @returns {Array<Array<string>>} - Parsed rows (blank lines skipped)
+ */
+const parseCsv = (text, delimiter = ',') => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that Excel adds to exported files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+};
+
+/**
+ * Escape a single value for CSV output
+ * 
+ * @param {*} value - Cell value
+ * @returns {string} - Escaped cell
+ */
+const escapeCsvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+/**
+ * Format an array of values as one CSV line (with trailing CRLF)
+ * 
+ * @param {Array} values - Cell values
+ * @returns {string} - CSV line
+ */
+const toCsvRow = (values) => values.map(escapeCsvValue).join(',') + '\r\n';
+
+module.exports = {
+  parseCsv,
+  escapeCsvValue,
+  toCsvRow
+};
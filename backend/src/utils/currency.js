@@ -0,0 +1,63 @@
+// backend/src/utils/currency.js
+
+/**
+ * Currency helpers
+ */
+
+// Used when a user has not picked a home currency yet
+const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Check for an ISO 4217 style currency code ("USD", "EUR", "INR")
+ * 
+ * @param {string} code - Currency code
+ * @returns {boolean}
+ */
+const isValidCurrencyCode = (code) => typeof code === 'string' && /^[A-Z]{3}$/.test(code);
+
+/**
+ * Round a money amount to 2 decimal places
+ * 
+ * @param {number} value - Amount
+ * @returns {number}
+ */
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Build the currency fields stored on an expense
+ * `amount` is always in the home currency so totals, budgets and sorting
+ * work on one scale; the amount as entered is kept in `originalAmount`
+ * 
+ * @param {number} originalAmount - Amount in the expense currency
+ * @param {string} currency - Expense currency
+ * @param {number} exchangeRate - Home currency units per 1 unit of `currency`
+ * @param {string} homeCurrency - User's home currency
+ * @returns {Object} - { amount, originalAmount, currency, exchangeRate, homeCurrency }
+ */
+const buildConversion = (originalAmount, currency, exchangeRate, homeCurrency) => ({
+  amount: roundMoney(originalAmount * exchangeRate),
+  originalAmount,
+  currency,
+  exchangeRate,
+  homeCurrency
+});
+
+/**
+ * Format a money amount for messages ("$1,234.50", "₹499.00")
+ * 
+ * @param {number} amount - Amount
+ * @param {string} currency - Currency code
+ * @param {string} locale - BCP 47 locale
+ * @returns {string}
+ */
+const formatMoney = (amount, currency = DEFAULT_CURRENCY, locale = 'en-US') => {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+};
+
+module.exports = {
+  DEFAULT_CURRENCY,
+  isValidCurrencyCode,
+  roundMoney,
+  buildConversion,
+  formatMoney
+};
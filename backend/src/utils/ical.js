@@ -0,0 +1,124 @@
+// backend/src/utils/ical.js
+
+/**
+ * iCalendar (RFC 5545) serialization
+ *
+ * Builds VCALENDAR documents of all-day events for calendar subscriptions.
+ * Events: { uid, date, summary, description?, alarmDays? }
+ * - date: YYYY-MM-DD (all-day, so no time zone is involved)
+ * - alarmDays: days before the event to show a reminder (VALARM)
+ */
+
+const PRODUCT_ID = '-//Paisa//Smart Expense Tracker//EN';
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+const escapeText = (value = '') => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ * Multi-byte characters are never split
+ */
+const foldLine = (line) => {
+  const parts = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * YYYY-MM-DD as an iCalendar DATE (YYYYMMDD)
+ */
+const toICalDate = (date) => date.replace(/-/g, '');
+
+/**
+ * Date (or now) as an iCalendar UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+const toICalDateTime = (date = new Date()) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+/**
+ * Day after a YYYY-MM-DD date (exclusive end of an all-day event)
+ */
+const nextDay = (date) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + 1);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Content lines of one all-day event
+ */
+const buildEvent = (event, stamp) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+    `DTEND;VALUE=DATE:${toICalDate(nextDay(event.date))}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  lines.push('TRANSP:TRANSPARENT');
+
+  if (event.alarmDays > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-P${event.alarmDays}D`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serialize a calendar
+ *
+ * @param {Object} calendar - { name, events }
+ * @returns {string} - iCalendar document (CRLF line endings)
+ */
+const buildCalendar = ({ name, events }) => {
+  const stamp = toICalDateTime();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => buildEvent(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+module.exports = {
+  buildCalendar
+};
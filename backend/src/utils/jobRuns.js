@@ -0,0 +1,73 @@
+// backend/src/utils/jobRuns.js
+
+/**
+ * Scheduled job run history
+ * 
+ * Each run of a background job is recorded in the `job_runs` collection
+ * so missed or failing runs can be spotted through the admin API
+ */
+
+const { db } = require('../config/firebase');
+
+/**
+ * Run a job and record its outcome
+ * The job function returns a result object; a `failures` array in it
+ * marks the run as partial instead of successful.
+ * Never rejects: failures of the job or of writing its history are logged
+ * and reported in the returned outcome
+ * 
+ * @param {string} job - Job name (e.g. 'generate-recurring')
+ * @param {string} trigger - What started the run: 'cron', 'startup' or 'manual'
+ * @param {Function} fn - async () => result
+ * @returns {Promise<Object>} - { runId, status, result?, error? }
+ */
+const runJob = async (job, trigger, fn) => {
+  const startedAt = new Date();
+  const runRef = db.collection('job_runs').doc();
+
+  let recorded = true;
+  try {
+    await runRef.set({
+      job,
+      trigger,
+      status: 'running',
+      startedAt: startedAt.toISOString(),
+      finishedAt: null
+    });
+  } catch (error) {
+    // The job still runs; only its history is lost
+    console.error(`[JOB] Could not record ${job} run:`, error);
+    recorded = false;
+  }
+
+  let outcome;
+  try {
+    const result = await fn();
+    const status = result && Array.isArray(result.failures) && result.failures.length > 0
+      ? 'partial'
+      : 'success';
+    outcome = { status, result };
+  } catch (error) {
+    console.error(`[JOB] ${job} failed:`, error);
+    outcome = { status: 'failed', error: error.message };
+  }
+
+  if (recorded) {
+    const finishedAt = new Date();
+    try {
+      await runRef.update({
+        ...outcome,
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt - startedAt
+      });
+    } catch (error) {
+      console.error(`[JOB] Could not record ${job} outcome:`, error);
+    }
+  }
+
+  return { runId: recorded ? runRef.id : null, ...outcome };
+};
+
+module.exports = {
+  runJob
+};
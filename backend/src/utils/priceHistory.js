@@ -0,0 +1,90 @@
+// backend/src/utils/priceHistory.js
+
+/**
+ * Price history of recurring templates
+ *
+ * Templates keep the amounts they have charged as `priceHistory`, one entry
+ * per change: { date, amount, source: 'template' | 'charge', changePercent, flagged }.
+ * Template edits and real charges (confirmed estimates, linked history) are
+ * both recorded; one-off occurrence amounts are not. A change larger than the template's
+ * `priceAlertPercent` is flagged.
+ */
+
+// Used when a template has no priceAlertPercent of its own
+const DEFAULT_PRICE_ALERT_PERCENT = 10;
+
+// Oldest entries are dropped beyond this
+const MAX_PRICE_HISTORY = 24;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * First history entry of a template
+ *
+ * @param {number} amount - Starting amount
+ * @param {string} date - Date it applies from (YYYY-MM-DD)
+ * @returns {Array<Object>} - Price history
+ */
+const startPriceHistory = (amount, date) => [
+  { date, amount, source: 'template', changePercent: null, flagged: false }
+];
+
+/**
+ * Record an amount in a template's price history
+ * Templates saved before price tracking start from their current amount
+ *
+ * @param {Object} template - Recurring template data
+ * @param {Object} price - { amount, date?, source }
+ * @returns {Object|null} - { priceHistory, entry }, or null when the amount did not change
+ */
+const recordPrice = (template, { amount, date = today(), source }) => {
+  const history = template.priceHistory && template.priceHistory.length > 0
+    ? template.priceHistory
+    : startPriceHistory(template.amount, (template.createdAt || template.startDate).split('T')[0]);
+  const previous = history[history.length - 1].amount;
+
+  if (amount === previous) {
+    return null;
+  }
+
+  const changePercent = previous > 0 ? parseFloat((((amount - previous) / previous) * 100).toFixed(1)) : null;
+  const threshold = template.priceAlertPercent ?? DEFAULT_PRICE_ALERT_PERCENT;
+  const entry = {
+    date,
+    amount,
+    previousAmount: previous,
+    source,
+    changePercent,
+    flagged: changePercent !== null && Math.abs(changePercent) > threshold
+  };
+
+  return {
+    priceHistory: [...history, entry].slice(-MAX_PRICE_HISTORY),
+    entry
+  };
+};
+
+/**
+ * Latest flagged increase on or after a date that is still in effect
+ * (a one-off charge that went back down does not count)
+ *
+ * @param {Object} template - Recurring template data
+ * @param {string} since - Earliest date (YYYY-MM-DD)
+ * @returns {Object|null} - History entry
+ */
+const getRecentIncrease = (template, since) => {
+  const history = template.priceHistory || [];
+  if (history.length === 0) return null;
+
+  const current = history[history.length - 1].amount;
+  return [...history].reverse().find(entry => (
+    entry.flagged && entry.changePercent > 0 && entry.date >= since && current > entry.previousAmount
+  )) || null;
+};
+
+module.exports = {
+  DEFAULT_PRICE_ALERT_PERCENT,
+  startPriceHistory,
+  recordPrice,
+  getRecentIncrease
+};
@@ -0,0 +1,106 @@
+// backend/src/utils/publicAddress.js
+
+/**
+ * Public address checks
+ *
+ * Outgoing webhooks are requested by the server on behalf of users, so they
+ * must not reach the host's own network: loopback, private, link-local (which
+ * includes the 169.254.169.254 cloud metadata service) and other reserved
+ * ranges are refused. URLs are checked when they are saved and before each
+ * delivery, and delivery sockets check the address the host actually resolves
+ * to (guardedLookup), so a name that later resolves elsewhere is caught too.
+ */
+
+const dns = require('dns');
+const net = require('net');
+
+const PUBLIC_ADDRESS_ERROR = 'Webhook URL must point to a public address';
+
+const BLOCKED = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64],
+  ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is publicly routable
+ *
+ * @param {string} address - IPv4 or IPv6 address
+ * @returns {boolean}
+ */
+const isPublicAddress = (address) => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check that the server may request a webhook URL: https (or http in
+ * development) to a host that resolves only to public addresses
+ *
+ * @param {string} url - Webhook URL
+ * @returns {Promise<string|null>} - Error message, or null if allowed
+ */
+const checkPublicUrl = async (url) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL must be a valid URL';
+  }
+
+  const allowHttp = process.env.NODE_ENV === 'development';
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    return 'Webhook URL must use https';
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses;
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      return 'Webhook host could not be resolved';
+    }
+  }
+
+  return addresses.every(isPublicAddress) ? null : PUBLIC_ADDRESS_ERROR;
+};
+
+/**
+ * dns.lookup for outgoing sockets that refuses non-public addresses
+ */
+const guardedLookup = (hostname, options, callback) => {
+  if (typeof options === 'function') {
+    callback = options;
+    options = {};
+  }
+
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+
+    const entries = Array.isArray(address) ? address : [{ address, family }];
+    if (!entries.every(entry => isPublicAddress(entry.address))) {
+      return callback(Object.assign(new Error(PUBLIC_ADDRESS_ERROR), { code: 'EBLOCKEDADDRESS' }));
+    }
+
+    callback(null, address, family);
+  });
+};
+
+module.exports = {
+  PUBLIC_ADDRESS_ERROR,
+  isPublicAddress,
+  checkPublicUrl,
+  guardedLookup
+};
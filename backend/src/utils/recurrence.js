@@ -0,0 +1,312 @@
+// backend/src/utils/recurrence.js
+
+/**
+ * Recurrence rules
+ *
+ * Recurring templates describe their schedule with an iCalendar RRULE-style
+ * object stored as `recurrence`:
+ *
+ *   { freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY',
+ *     interval: 1,             // every N periods
+ *     byDay: ['MO', 'TH'],     // weekdays (WEEKLY / MONTHLY)
+ *     byMonthDay: [15, -1],    // days of the month, -1 = last day (MONTHLY)
+ *     bySetPos: [-1],          // pick the Nth matching weekday of the month (MONTHLY + byDay)
+ *     count: 12 }              // stop after N occurrences
+ *
+ * The template's startDate is DTSTART and its endDate is UNTIL.
+ * Unlike RFC 5545, month days past the end of a month are clamped to its last
+ * day (the 31st falls on Feb 28), which is what bills and salaries expect.
+ * All dates are YYYY-MM-DD strings handled in UTC.
+ */
+
+const RULE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Guards against rules that never match (e.g. the 5th Monday every 12 months)
+const MAX_PERIODS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toDateString = (date) => date.toISOString().split('T')[0];
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Build the rule equivalent to a legacy fixed frequency
+ *
+ * @param {string} frequency - daily, weekly, biweekly, monthly, quarterly or yearly
+ * @returns {Object|null} - Recurrence rule
+ */
+const ruleFromFrequency = (frequency) => {
+  switch (frequency) {
+    case 'daily':
+      return { freq: 'DAILY', interval: 1 };
+    case 'weekly':
+      return { freq: 'WEEKLY', interval: 1 };
+    case 'biweekly':
+      return { freq: 'WEEKLY', interval: 2 };
+    case 'monthly':
+      return { freq: 'MONTHLY', interval: 1 };
+    case 'quarterly':
+      return { freq: 'MONTHLY', interval: 3 };
+    case 'yearly':
+      return { freq: 'YEARLY', interval: 1 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Short frequency label for a rule, kept on templates as `frequency`
+ * for lists, filters and older clients
+ *
+ * @param {Object} rule - Recurrence rule
+ * @returns {string} - daily, weekly, biweekly, monthly, quarterly, yearly or custom
+ */
+const getFrequencyLabel = (rule) => {
+  const simple = !rule.byDay && !rule.byMonthDay && !rule.bySetPos;
+
+  if (rule.freq === 'DAILY' && rule.interval === 1) return 'daily';
+  if (rule.freq === 'WEEKLY' && simple && rule.interval === 1) return 'weekly';
+  if (rule.freq === 'WEEKLY' && simple && rule.interval === 2) return 'biweekly';
+  if (rule.freq === 'MONTHLY' && simple && rule.interval === 1) return 'monthly';
+  if (rule.freq === 'MONTHLY' && simple && rule.interval === 3) return 'quarterly';
+  if (rule.freq === 'YEARLY' && rule.interval === 1) return 'yearly';
+  return 'custom';
+};
+
+/**
+ * Normalize a rule: uppercase codes, sort lists, drop empty parts
+ *
+ * @param {Object} rule - Raw recurrence rule (already validated)
+ * @returns {Object} - Normalized rule
+ */
+const normalizeRule = (rule) => {
+  const normalized = {
+    freq: rule.freq.toUpperCase(),
+    interval: rule.interval || 1
+  };
+
+  if (Array.isArray(rule.byDay) && rule.byDay.length > 0) {
+    normalized.byDay = [...new Set(rule.byDay.map(day => day.toUpperCase()))]
+      .sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+  }
+  if (Array.isArray(rule.byMonthDay) && rule.byMonthDay.length > 0) {
+    // Positive days first, then days counted from the end
+    normalized.byMonthDay = [...new Set(rule.byMonthDay)]
+      .sort((a, b) => (a < 0) - (b < 0) || (a > 0 ? a - b : b - a));
+  }
+  if (Array.isArray(rule.bySetPos) && rule.bySetPos.length > 0) {
+    normalized.bySetPos = [...new Set(rule.bySetPos)].sort((a, b) => a - b);
+  }
+  if (rule.count) {
+    normalized.count = rule.count;
+  }
+
+  return normalized;
+};
+
+/**
+ * Get a template's rule, falling back to its legacy frequency
+ *
+ * @param {Object} template - Recurring template data
+ * @returns {Object} - Recurrence rule
+ */
+const getTemplateRule = (template) => {
+  return template.recurrence || ruleFromFrequency(template.frequency);
+};
+
+/**
+ * Candidate dates of one month for a MONTHLY rule
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {number} year - Year
+ * @param {number} month - Month (0-11)
+ * @param {number} anchorDay - Day of month of the start date
+ * @returns {Array<number>} - Sorted days of the month
+ */
+const monthlyDays = (rule, year, month, anchorDay) => {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.byDay) {
+    const weekdays = rule.byDay.map(day => WEEKDAYS.indexOf(day));
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matches = [];
+    for (let day = 1; day <= lastDay; day++) {
+      if (weekdays.includes((firstWeekday + day - 1) % 7)) matches.push(day);
+    }
+
+    if (!rule.bySetPos) return matches;
+
+    // bySetPos picks from the matching days: 1 = first, -1 = last
+    return [...new Set(rule.bySetPos
+      .map(pos => (pos > 0 ? matches[pos - 1] : matches[matches.length + pos]))
+      .filter(day => day !== undefined))]
+      .sort((a, b) => a - b);
+  }
+
+  const days = rule.byMonthDay || [anchorDay];
+  return [...new Set(days.map(day => (
+    day > 0 ? Math.min(day, lastDay) : Math.max(lastDay + day + 1, 1)
+  )))].sort((a, b) => a - b);
+};
+
+/**
+ * Iterate over the occurrences of a rule, in order, starting at startDate
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {string} startDate - DTSTART (YYYY-MM-DD)
+ * @yields {string} - Occurrence date (YYYY-MM-DD)
+ */
+function* iterateOccurrences(rule, startDate) {
+  const start = parseDate(startDate);
+  const interval = rule.interval || 1;
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let dates = [];
+    const step = period * interval;
+
+    switch (rule.freq) {
+      case 'DAILY':
+        dates = [new Date(start.getTime() + step * DAY_MS)];
+        break;
+
+      case 'WEEKLY': {
+        // Weeks start on Sunday; with no byDay the start date's weekday repeats
+        const weekStart = start.getTime() - start.getUTCDay() * DAY_MS + step * 7 * DAY_MS;
+        const weekdays = rule.byDay
+          ? rule.byDay.map(day => WEEKDAYS.indexOf(day))
+          : [start.getUTCDay()];
+        dates = weekdays.map(weekday => new Date(weekStart + weekday * DAY_MS));
+        break;
+      }
+
+      case 'MONTHLY': {
+        const year = start.getUTCFullYear();
+        const month = start.getUTCMonth() + step;
+        dates = monthlyDays(rule, year, month, start.getUTCDate())
+          .map(day => new Date(Date.UTC(year, month, day)));
+        break;
+      }
+
+      case 'YEARLY': {
+        const year = start.getUTCFullYear() + step;
+        const month = start.getUTCMonth();
+        dates = [new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month))))];
+        break;
+      }
+
+      default:
+        throw new Error(`Invalid recurrence frequency: ${rule.freq}`);
+    }
+
+    for (const date of dates) {
+      if (date < start) continue;
+      yield toDateString(date);
+      emitted++;
+      if (rule.count && emitted >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * List occurrences of a rule within bounds
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {string} startDate - DTSTART (YYYY-MM-DD)
+ * @param {Object} options - { from?: inclusive lower bound, after?: exclusive lower bound,
+ *                             until?: inclusive upper bound, limit? }
+ * @returns {Array<string>} - Occurrence dates
+ */
+const listOccurrences = (rule, startDate, { from = null, after = null, until = null, limit = Infinity } = {}) => {
+  const dates = [];
+
+  for (const date of iterateOccurrences(rule, startDate)) {
+    if (until && date > until) break;
+    if (from && date < from) continue;
+    if (after && date <= after) continue;
+    dates.push(date);
+    if (dates.length >= limit) break;
+  }
+
+  return dates;
+};
+
+/**
+ * First occurrence strictly after a date (or the first one at all)
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {string} startDate - DTSTART (YYYY-MM-DD)
+ * @param {string|null} after - Exclusive lower bound
+ * @param {string|null} until - End date of the template
+ * @returns {string|null} - Next date, or null when the schedule has ended
+ */
+const getNextOccurrence = (rule, startDate, after = null, until = null) => {
+  return listOccurrences(rule, startDate, { after, until, limit: 1 })[0] || null;
+};
+
+/**
+ * Average number of occurrences per year, for monthly cost estimates
+ *
+ * @param {Object} rule - Recurrence rule
+ * @returns {number}
+ */
+const occurrencesPerYear = (rule) => {
+  const interval = rule.interval || 1;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return 365 / interval;
+    case 'WEEKLY':
+      return ((rule.byDay ? rule.byDay.length : 1) * 52) / interval;
+    case 'MONTHLY': {
+      let perMonth = 1;
+      if (rule.byDay && rule.bySetPos) perMonth = rule.bySetPos.length;
+      else if (rule.byDay) perMonth = (rule.byDay.length * 52) / 12;
+      else if (rule.byMonthDay) perMonth = rule.byMonthDay.length;
+      return (perMonth * 12) / interval;
+    }
+    case 'YEARLY':
+      return 1 / interval;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Serialize a rule as an iCalendar RRULE value
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {string|null} until - End date (YYYY-MM-DD)
+ * @returns {string} - e.g. "FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15,-1"
+ */
+const toRRuleString = (rule, until = null) => {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval || 1}`];
+
+  if (rule.byDay) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (until) parts.push(`UNTIL=${until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+};
+
+module.exports = {
+  RULE_FREQUENCIES,
+  WEEKDAYS,
+  ruleFromFrequency,
+  getFrequencyLabel,
+  normalizeRule,
+  getTemplateRule,
+  listOccurrences,
+  getNextOccurrence,
+  occurrencesPerYear,
+  toRRuleString
+};
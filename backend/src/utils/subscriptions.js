@@ -0,0 +1,198 @@
+// backend/src/utils/subscriptions.js
+
+/**
+ * Subscription detection
+ *
+ * Finds charges in a user's expense history that repeat like a subscription:
+ * the same merchant, a similar amount and a regular interval. Each match is
+ * proposed as a recurring template with a frequency and a confidence score
+ * between 0 and 1.
+ */
+
+const { ruleFromFrequency, listOccurrences, getNextOccurrence, occurrencesPerYear } = require('./recurrence');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Intervals (in days) a series must keep to match a frequency
+const FREQUENCY_PATTERNS = [
+  { frequency: 'weekly', days: 7, tolerance: 1, minOccurrences: 3 },
+  { frequency: 'biweekly', days: 14, tolerance: 2, minOccurrences: 3 },
+  { frequency: 'monthly', days: 30.44, tolerance: 4, minOccurrences: 3 },
+  { frequency: 'quarterly', days: 91.31, tolerance: 7, minOccurrences: 3 },
+  { frequency: 'yearly', days: 365.25, tolerance: 15, minOccurrences: 2 }
+];
+
+// Charges more than this fraction away from the typical amount are not part of the series
+const AMOUNT_TOLERANCE = 0.2;
+
+// Candidates below this score are not worth reviewing
+const MIN_CONFIDENCE = 0.5;
+
+// Bank statement noise that says nothing about the merchant
+const NOISE_WORDS = new Set([
+  'payment', 'pos', 'purchase', 'debit', 'credit', 'card', 'ach', 'online', 'txn', 'ref',
+  'the', 'www', 'com', 'inc', 'ltd', 'llc', 'autopay', 'recurring', 'subscription', 'bill'
+]);
+
+const roundTo = (value, places = 2) => parseFloat(value.toFixed(places));
+
+const daysBetween = (from, to) => Math.round((new Date(to) - new Date(from)) / DAY_MS);
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Reduce a description to a merchant key, so "NETFLIX.COM 8472" and
+ * "Netflix.com 1193" fall in the same group
+ *
+ * @param {string} description - Expense description or template name
+ * @returns {string} - Merchant key ('' when nothing meaningful is left)
+ */
+const normalizeMerchant = (description = '') => {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .slice(0, 3)
+    .join(' ');
+};
+
+/**
+ * Frequency whose interval matches the typical gap between charges
+ *
+ * @param {Array<number>} intervals - Days between consecutive charges
+ * @returns {Object|null} - Matching FREQUENCY_PATTERNS entry
+ */
+const matchFrequency = (intervals) => {
+  const typical = median(intervals);
+  return FREQUENCY_PATTERNS.find(pattern => Math.abs(typical - pattern.days) <= pattern.tolerance) || null;
+};
+
+/**
+ * Most common value of a field
+ */
+const mostCommon = (items, field) => {
+  const counts = {};
+  items.forEach(item => {
+    counts[item[field]] = (counts[item[field]] || 0) + 1;
+  });
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+};
+
+/**
+ * Scheduled date the latest charge of a series stands for
+ * Real charges land a few days either side of the schedule, so the last
+ * occurrence up to half a period after the charge counts as paid
+ *
+ * @param {Object} rule - Recurrence rule
+ * @param {string} startDate - DTSTART (YYYY-MM-DD)
+ * @param {string} lastDate - Date of the latest charge
+ * @returns {string} - Scheduled date (YYYY-MM-DD)
+ */
+const getCoveredOccurrence = (rule, startDate, lastDate) => {
+  const halfPeriod = Math.floor(365 / occurrencesPerYear(rule) / 2);
+  const until = new Date(new Date(lastDate).getTime() + halfPeriod * DAY_MS).toISOString().split('T')[0];
+  const dates = listOccurrences(rule, startDate, { until });
+  return dates.length > 0 ? dates[dates.length - 1] : lastDate;
+};
+
+/**
+ * Score one merchant's charges as a subscription
+ *
+ * @param {Array<Object>} expenses - Charges of one merchant, with id, date and amount
+ * @param {string} today - Today (YYYY-MM-DD)
+ * @returns {Object|null} - Candidate, or null when the charges do not repeat
+ */
+const analyzeSeries = (expenses, today) => {
+  // One charge per day; a duplicate entry should not look like a daily plan
+  const byDate = new Map();
+  expenses.forEach(expense => {
+    if (!byDate.has(expense.date)) byDate.set(expense.date, expense);
+  });
+
+  const typicalAmount = median([...byDate.values()].map(expense => expense.amount));
+  const series = [...byDate.values()]
+    .filter(expense => Math.abs(expense.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (series.length < 2) return null;
+
+  const intervals = series.slice(1).map((expense, i) => daysBetween(series[i].date, expense.date));
+  const pattern = matchFrequency(intervals);
+
+  if (!pattern || series.length < pattern.minOccurrences) return null;
+
+  // How many gaps keep to the schedule, how stable the price is, how long the history is
+  const regularity = intervals
+    .filter(interval => Math.abs(interval - pattern.days) <= pattern.tolerance).length / intervals.length;
+  const amounts = series.map(expense => expense.amount);
+  const mean = amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+  const deviation = Math.sqrt(amounts.reduce((sum, amount) => sum + (amount - mean) ** 2, 0) / amounts.length);
+  const variation = mean > 0 ? deviation / mean : 0;
+  const stability = Math.max(0, 1 - variation / AMOUNT_TOLERANCE);
+  const history = Math.min(1, (series.length - 1) / 5);
+
+  // A series that stopped more than two periods ago was probably cancelled
+  const last = series[series.length - 1];
+  const lapsed = daysBetween(last.date, today) > pattern.days * 2 + pattern.tolerance;
+
+  const confidence = roundTo((0.5 * regularity + 0.3 * stability + 0.2 * history) * (lapsed ? 0.5 : 1));
+
+  if (confidence < MIN_CONFIDENCE) return null;
+
+  const recurrence = ruleFromFrequency(pattern.frequency);
+  const startDate = series[0].date;
+
+  return {
+    templateName: last.description,
+    description: last.description,
+    category: mostCommon(series, 'category'),
+    amount: last.amount, // latest price
+    averageAmount: roundTo(mean),
+    amountMode: variation > 0.05 ? 'estimated' : 'fixed',
+    frequency: pattern.frequency,
+    recurrence,
+    startDate,
+    lastDate: last.date,
+    nextOccurrence: getNextOccurrence(recurrence, startDate, getCoveredOccurrence(recurrence, startDate, last.date)),
+    occurrences: series.length,
+    confidence,
+    expenseIds: series.map(expense => expense.id)
+  };
+};
+
+/**
+ * Find subscription-like series in a user's expenses
+ *
+ * @param {Array<Object>} expenses - Expenses with id, description, amount, category and date
+ * @param {Object} options - { today, excludeMerchants?: Set of merchant keys already covered by templates }
+ * @returns {Array<Object>} - Candidates, most confident first
+ */
+const detectSubscriptions = (expenses, { today, excludeMerchants = new Set() }) => {
+  const groups = new Map();
+
+  expenses.forEach(expense => {
+    const merchant = normalizeMerchant(expense.description);
+    if (!merchant || excludeMerchants.has(merchant)) return;
+    if (!groups.has(merchant)) groups.set(merchant, []);
+    groups.get(merchant).push(expense);
+  });
+
+  const candidates = [];
+  groups.forEach((group, merchant) => {
+    const candidate = analyzeSeries(group, today);
+    if (candidate) candidates.push({ merchant, ...candidate });
+  });
+
+  return candidates.sort((a, b) => b.confidence - a.confidence || b.occurrences - a.occurrences);
+};
+
+module.exports = {
+  normalizeMerchant,
+  getCoveredOccurrence,
+  detectSubscriptions
+};
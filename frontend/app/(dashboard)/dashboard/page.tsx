@@ -1,34 +1,58 @@
 'use client'
 
 import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ApiService } from '@/services/api.service';
-import { Expense } from '@/types/api.types';
+import { Expense, ExpenseFilters } from '@/types/api.types';
 import { StatsCards } from '@/components/features/dashboard/StatsCards';
 import { CategoryChart } from '@/components/features/dashboard/CategoryCard';
 import { BarChartComponent } from '@/components/features/dashboard/BarChartComponent';
 import { ExpenseForm } from '@/components/features/expenses/ExpenseForm';
 import { ExpenseList } from '@/components/features/expenses/ExpenseList';
+import { ExportButton } from '@/components/features/expenses/ExportButton';
 import { CurrentBudgetWidget } from '@/components/features/budget/CurrentBudgetWidget';
+import { CashFlowCard } from '@/components/features/dashboard/CashFlowCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X, Upload, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+
+const EXPENSES_PAGE_SIZE = 25;
 
 export default function DashboardPage() {
   const [showForm, setShowForm] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | undefined>();
+  const [range, setRange] = useState<ExpenseFilters>({});
   const queryClient = useQueryClient();
 
-  const { data: expensesData, isLoading: expensesLoading } = useQuery({
-    queryKey: ['expenses'],
-    queryFn: () => ApiService.getExpenses({ limit: 100 }),
+  const {
+    data: expensesData,
+    isLoading: expensesLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['expenses', range],
+    queryFn: ({ pageParam }) =>
+      ApiService.getExpenses({ ...range, limit: EXPENSES_PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined,
   });
 
+  const expenses = expensesData?.pages.flatMap((page) => page.expenses) || [];
+  const totalExpenses = expensesData?.pages[0]?.pagination.total || 0;
+
   const { data: stats } = useQuery({
-    queryKey: ['stats'],
-    queryFn: () => ApiService.getExpenseStats(),
+    queryKey: ['stats', range],
+    queryFn: () => ApiService.getExpenseStats(range),
   });
 
+  const handleRangeChange = (field: 'startDate' | 'endDate', value: string) => {
+    setRange((prev) => ({ ...prev, [field]: value || undefined }));
+  };
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => ApiService.deleteExpense(id),
     onSuccess: () => {
@@ -72,6 +96,9 @@ export default function DashboardPage() {
         {/* Current Budget Widget */}
         <CurrentBudgetWidget />
 
+        {/* Income vs Expenses */}
+        <CashFlowCard />
+
         {/* Charts Section */}
         {stats && stats.categoryBreakdown.length > 0 && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -81,7 +108,7 @@ export default function DashboardPage() {
         )}
 
         {/* Add Expense Button - Sticky on mobile */}
-        <div className="sticky top-20 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 py-4 -mx-4 px-4 md:mx-0 md:px-0 md:static md:bg-transparent">
+        <div className="sticky top-20 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 py-4 -mx-4 px-4 md:mx-0 md:px-0 md:static md:bg-transparent flex flex-col md:flex-row gap-3">
           <Button
             onClick={() => {
               setEditingExpense(undefined);
@@ -102,6 +129,13 @@ export default function DashboardPage() {
               </>
             )}
           </Button>
+          <ExportButton filters={range} className="w-full md:w-auto" />
+          <Link href="/expenses/import">
+            <Button variant="outline" size="lg" className="w-full md:w-auto">
+              <Upload className="h-5 w-5 mr-2" />
+              Import CSV
+            </Button>
+          </Link>
         </div>
 
         {/* Expense Form */}
@@ -118,18 +152,61 @@ export default function DashboardPage() {
         {/* Recent Expenses Section */}
         <Card className="border-2">
           <CardHeader className="space-y-1">
-            <CardTitle className="text-2xl">Recent Expenses</CardTitle>
-            <p className="text-sm text-muted-foreground">
-              {expensesData?.expenses.length || 0} total expenses
-            </p>
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div className="space-y-1">
+                <CardTitle className="text-2xl">Recent Expenses</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Showing {expenses.length} of {totalExpenses} expenses
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="rangeStart" className="text-xs">From</Label>
+                  <Input
+                    id="rangeStart"
+                    type="date"
+                    value={range.startDate || ''}
+                    onChange={(e) => handleRangeChange('startDate', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rangeEnd" className="text-xs">To</Label>
+                  <Input
+                    id="rangeEnd"
+                    type="date"
+                    value={range.endDate || ''}
+                    onChange={(e) => handleRangeChange('endDate', e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
           </CardHeader>
           <CardContent className="pt-6">
             <ExpenseList
-              expenses={expensesData?.expenses || []}
+              expenses={expenses}
               isLoading={expensesLoading}
               onEdit={handleEdit}
               onDelete={handleDelete}
             />
+
+            {hasNextPage && (
+              <div className="flex justify-center pt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    'Load More'
+                  )}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
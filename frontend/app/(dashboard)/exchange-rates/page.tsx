@@ -0,0 +1,22 @@
+'use client'
+
+import { ExchangeRateManager } from '@/components/features/currency/ExchangeRateManager';
+
+export default function ExchangeRatesPage() {
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-5xl mx-auto space-y-8">
+
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Exchange Rates</h1>
+          <p className="text-muted-foreground mt-1">
+            Rates used to convert foreign-currency expenses into your home currency
+          </p>
+        </div>
+
+        <ExchangeRateManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import Link from 'next/link';
+import { ImportWizard } from '@/components/features/expenses/ImportWizard';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export default function ImportExpensesPage() {
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-5xl mx-auto space-y-8">
+        
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Import Expenses</h1>
+            <p className="text-muted-foreground mt-1">
+              Upload a bank statement CSV, map its columns and review before importing
+            </p>
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+
+        <ImportWizard />
+      </div>
+    </div>
+  );
+}
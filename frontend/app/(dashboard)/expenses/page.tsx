@@ -0,0 +1,177 @@
+'use client'
+
+import { Suspense, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { Expense, ExpenseFilters, ExpenseSortField } from '@/types/api.types';
+import { ExpenseForm } from '@/components/features/expenses/ExpenseForm';
+import { ExpenseFiltersBar } from '@/components/features/expenses/ExpenseFiltersBar';
+import { ExpenseTable } from '@/components/features/expenses/ExpenseTable';
+import { ExportButton } from '@/components/features/expenses/ExportButton';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency } from '@/utils/formatters';
+import { expenseFiltersToQueryString, parseExpenseFilters } from '@/utils/filters';
+import { Plus, X, Upload, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+
+const EXPENSES_PAGE_SIZE = 100;
+
+function ExpensesView() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [showForm, setShowForm] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | undefined>();
+  const queryClient = useQueryClient();
+
+  // The URL is the source of truth so filtered views can be bookmarked and shared
+  const filters = parseExpenseFilters(new URLSearchParams(searchParams.toString()));
+
+  const updateFilters = (changes: Partial<ExpenseFilters>) => {
+    const query = expenseFiltersToQueryString({ ...filters, ...changes });
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['expenses', filters],
+    queryFn: ({ pageParam }) =>
+      ApiService.getExpenses({ ...filters, limit: EXPENSES_PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined,
+  });
+
+  const expenses = data?.pages.flatMap((page) => page.expenses) || [];
+  const firstPage = data?.pages[0];
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => ApiService.deleteExpense(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+  });
+
+  const handleEdit = (expense: Expense) => {
+    setEditingExpense(expense);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this expense?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingExpense(undefined);
+  };
+
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-7xl mx-auto space-y-8">
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Expenses</h1>
+            <p className="text-muted-foreground mt-1">
+              Search, filter and sort your full expense history
+            </p>
+          </div>
+          <div className="flex flex-col md:flex-row gap-3">
+            <Button
+              onClick={() => {
+                setEditingExpense(undefined);
+                setShowForm(!showForm);
+              }}
+            >
+              {showForm ? (
+                <>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Expense
+                </>
+              )}
+            </Button>
+            <ExportButton filters={filters} />
+            <Link href="/expenses/import">
+              <Button variant="outline" className="w-full md:w-auto">
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {/* Expense Form */}
+        {showForm && (
+          <div className="animate-in slide-in-from-top-4 duration-300">
+            <ExpenseForm expense={editingExpense} onSuccess={closeForm} onCancel={closeForm} />
+          </div>
+        )}
+
+        <Card className="border-2">
+          <CardHeader className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-2xl">All Expenses</CardTitle>
+              {firstPage && (
+                <p className="text-sm text-muted-foreground">
+                  {firstPage.summary
+                    ? `${firstPage.summary.totalExpenses} expenses • ${formatCurrency(firstPage.summary.totalAmount)}`
+                    : `${expenses.length}${hasNextPage ? '+' : ''} matching expenses`}
+                </p>
+              )}
+            </div>
+            <ExpenseFiltersBar
+              filters={filters}
+              onChange={updateFilters}
+              onClear={() => router.replace(pathname, { scroll: false })}
+            />
+          </CardHeader>
+          <CardContent>
+            <ExpenseTable
+              expenses={expenses}
+              isLoading={isLoading}
+              sortBy={filters.sortBy || 'date'}
+              order={filters.order || 'desc'}
+              onSortChange={(sortBy: ExpenseSortField, order) => updateFilters({ sortBy, order })}
+              hasMore={!!hasNextPage}
+              isFetchingMore={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function ExpensesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      }
+    >
+      <ExpensesView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { Income } from '@/types/api.types';
+import { IncomeForm } from '@/components/features/income/IncomeForm';
+import { IncomeList } from '@/components/features/income/IncomeList';
+import { CashFlowCard } from '@/components/features/dashboard/CashFlowCard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Plus, X } from 'lucide-react';
+
+const INCOME_PAGE_SIZE = 25;
+
+export default function IncomePage() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingIncome, setEditingIncome] = useState<Income | undefined>();
+  const queryClient = useQueryClient();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['income'],
+    queryFn: ({ pageParam }) => ApiService.getIncome({ limit: INCOME_PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined,
+  });
+
+  const income = data?.pages.flatMap((page) => page.income) || [];
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => ApiService.deleteIncome(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['income'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-flow'] });
+    },
+  });
+
+  const handleEdit = (entry: Income) => {
+    setEditingIncome(entry);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this income?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingIncome(undefined);
+  };
+
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-5xl mx-auto space-y-8">
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Income</h1>
+            <p className="text-muted-foreground mt-1">
+              Salary, freelance work, refunds and other money coming in
+            </p>
+          </div>
+          <Button
+            size="lg"
+            onClick={() => {
+              setEditingIncome(undefined);
+              setShowForm(!showForm);
+            }}
+          >
+            {showForm ? (
+              <>
+                <X className="h-5 w-5 mr-2" />
+                Cancel
+              </>
+            ) : (
+              <>
+                <Plus className="h-5 w-5 mr-2" />
+                Add Income
+              </>
+            )}
+          </Button>
+        </div>
+
+        {showForm && (
+          <div className="animate-in slide-in-from-top-4 duration-300">
+            <IncomeForm
+              key={editingIncome?.id || 'new'}
+              income={editingIncome}
+              onSuccess={closeForm}
+              onCancel={closeForm}
+            />
+          </div>
+        )}
+
+        <CashFlowCard />
+
+        <Card className="border-2">
+          <CardHeader>
+            <CardTitle className="text-2xl">History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <IncomeList
+              income={income}
+              isLoading={isLoading}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+
+            {hasNextPage && (
+              <div className="flex justify-center pt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    'Load More'
+                  )}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { ProtectedRoute } from '@/components/common/ProtectedRoute';
+import { UserPreferencesLoader } from '@/components/common/UserPreferencesLoader';
 import { Header } from '@/components/layout/Header';
 
 export default function DashboardLayout({
@@ -10,12 +11,14 @@ export default function DashboardLayout({
 }) {
   return (
     <ProtectedRoute>
-      <div className="min-h-screen bg-background">
-        <Header />
-        <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          {children}
-        </main>
-      </div>
+      <UserPreferencesLoader>
+        <div className="min-h-screen bg-background">
+          <Header />
+          <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {children}
+          </main>
+        </div>
+      </UserPreferencesLoader>
     </ProtectedRoute>
   );
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+'use client'
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { RecurringLedger } from '@/components/features/recurring/RecurringLedger';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { describeRecurrence, getTemplateRule } from '@/utils/recurrence';
+import { ArrowLeft, CalendarRange, Hash, Wallet, TrendingUp } from 'lucide-react';
+
+export default function RecurringHistoryPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['recurring-history', id],
+    queryFn: () => ApiService.getRecurringHistory(id),
+  });
+
+  const template = data?.recurringExpense;
+  const summary = data?.summary;
+  const isIncome = template?.type === 'income';
+
+  const cards = summary && template ? [
+    {
+      title: isIncome ? 'Received Since Start' : 'Spent Since Start',
+      value: formatCurrency(summary.totalSinceStart),
+      detail: `since ${formatDate(template.startDate)}`,
+      icon: Wallet,
+      gradient: 'from-blue-500 to-blue-600',
+    },
+    {
+      title: 'Total To Date',
+      value: formatCurrency(summary.totalToDate),
+      detail: summary.pendingCount > 0 ? `${summary.pendingCount} pending not included` : 'all linked entries',
+      icon: Hash,
+      gradient: 'from-green-500 to-green-600',
+    },
+    {
+      title: 'Entries',
+      value: summary.count,
+      detail: summary.firstDate ? `first on ${formatDate(summary.firstDate)}` : 'none yet',
+      icon: CalendarRange,
+      gradient: 'from-gray-500 to-gray-600',
+    },
+    {
+      title: 'Yearly Cost',
+      value: formatCurrency(summary.yearlyCost),
+      detail: template.isActive ? 'at the current amount' : 'template is paused',
+      icon: TrendingUp,
+      gradient: 'from-purple-500 to-purple-600',
+    },
+  ] : [];
+
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-7xl mx-auto space-y-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{template?.templateName || 'Recurring History'}</h1>
+            <p className="text-muted-foreground mt-1">
+              {template
+                ? `${formatCurrency(template.amount)} • ${describeRecurrence(getTemplateRule(template), template.startDate)}`
+                : 'Everything this template has produced'}
+            </p>
+          </div>
+          <Link href="/recurring">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-12">Loading history...</p>
+        ) : isError || !data || !template ? (
+          <p className="text-destructive text-center py-12">Could not load this recurring expense</p>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {cards.map((card, index) => (
+                <Card
+                  key={index}
+                  className={`bg-gradient-to-br ${card.gradient} text-white border-0 shadow-lg`}
+                >
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                    <CardTitle className="text-sm font-medium opacity-90">
+                      {card.title}
+                    </CardTitle>
+                    <card.icon className="h-5 w-5 opacity-90" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold tracking-tight">{card.value}</div>
+                    <p className="text-xs opacity-80 mt-1">{card.detail}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Per-year totals */}
+            {data.summary.byYear.length > 1 && (
+              <div className="flex flex-wrap gap-3">
+                {data.summary.byYear.map((year) => (
+                  <div key={year.year} className="px-4 py-2 rounded-lg bg-muted text-sm">
+                    <span className="font-medium">{year.year}</span>{' '}
+                    <span className="text-muted-foreground">
+                      {formatCurrency(year.total)} ({year.count})
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <RecurringLedger templateId={id} type={template.type || 'expense'} entries={data.entries} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { RecurringStatsCards } from '@/components/features/recurring/RecurringSt
 import { RecurringExpenseForm } from '@/components/features/recurring/RecurringExpenseForm';
 import { RecurringExpenseList } from '@/components/features/recurring/RecurringExpenseList';
 import { UpcomingRecurring } from '@/components/features/recurring/UpcomingRecurring';
+import { PendingConfirmations } from '@/components/features/recurring/PendingConfirmations';
+import { SubscriptionDetection } from '@/components/features/recurring/SubscriptionDetection';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Plus, X } from 'lucide-react';
@@ -41,11 +43,14 @@ export default function RecurringExpensesPage() {
 
   const generateMutation = useMutation({
     mutationFn: (id: string) => ApiService.generateRecurringExpense(id),
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['income'] });
       queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-flow'] });
       queryClient.invalidateQueries({ queryKey: ['recurring-expenses'] });
-      alert('Expense generated successfully!');
+      queryClient.invalidateQueries({ queryKey: ['pending-confirmations'] });
+      alert(data.message);
     },
   });
 
@@ -98,9 +103,15 @@ export default function RecurringExpensesPage() {
         {/* Stats Cards */}
         <RecurringStatsCards data={data || null} />
 
+        {/* Estimated bills waiting for their real amount */}
+        <PendingConfirmations />
+
         {/* Upcoming Expenses */}
         <UpcomingRecurring />
 
+        {/* Repeating charges without a template */}
+        <SubscriptionDetection />
+
         {/* Add Button */}
         <div className="sticky top-20 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 py-4 -mx-4 px-4 md:mx-0 md:px-0 md:static md:bg-transparent">
           <Button
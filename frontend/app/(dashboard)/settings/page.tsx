@@ -0,0 +1,42 @@
+'use client'
+
+import Link from 'next/link';
+import { PreferencesForm } from '@/components/features/settings/PreferencesForm';
+import { CalendarFeedCard } from '@/components/features/settings/CalendarFeedCard';
+import { AlertDeliveryCard } from '@/components/features/settings/AlertDeliveryCard';
+import { DeliveryLogCard } from '@/components/features/settings/DeliveryLogCard';
+import { Button } from '@/components/ui/button';
+import { ArrowRightLeft } from 'lucide-react';
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen pb-20">
+      <div className="max-w-3xl mx-auto space-y-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Settings</h1>
+            <p className="text-muted-foreground mt-1">
+              Currency, regional formats, your start page, notifications and calendar feed
+            </p>
+          </div>
+          <Link href="/exchange-rates">
+            <Button variant="outline">
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Exchange Rates
+            </Button>
+          </Link>
+        </div>
+
+        <PreferencesForm />
+
+        <AlertDeliveryCard />
+
+        <DeliveryLogCard />
+
+        <CalendarFeedCard />
+      </div>
+    </div>
+  );
+}
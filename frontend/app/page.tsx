@@ -2,26 +2,41 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { useAuthStore } from '@/store';
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore, usePreferencesStore } from '@/store';
+import { ApiService } from '@/services/api.service';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 
 export default function Home() {
   const { user, isLoading } = useAuthStore();
   const router = useRouter();
+  const setPreferences = usePreferencesStore((state) => state.setPreferences);
+
+  // Shares the loader's cache entry, so it must fill the store the same way
+  const { data: preferencesData, isError } = useQuery({
+    queryKey: ['user-preferences'],
+    queryFn: async () => {
+      const data = await ApiService.getPreferences();
+      setPreferences(data.preferences);
+      return data;
+    },
+    enabled: !!user,
+    staleTime: Infinity,
+  });
 
   useEffect(() => {
-    if (!isLoading) {
-      if (user) {
-        router.push('/dashboard');
-      } else {
-        router.push('/login');
-      }
+    if (isLoading) return;
+
+    if (!user) {
+      router.push('/login');
+    } else if (preferencesData || isError) {
+      router.push(preferencesData?.preferences.landingPage || '/dashboard');
     }
-  }, [user, isLoading, router]);
+  }, [user, isLoading, preferencesData, isError, router]);
 
   return (
     <div className="flex min-h-screen items-center justify-center">
       <LoadingSpinner size="lg" />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { usePreferencesStore } from '@/store';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface UserPreferencesLoaderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Loads the user's preferences before rendering the app, so amounts and
+ * dates are formatted the user's way from the first paint
+ */
+export const UserPreferencesLoader = ({ children }: UserPreferencesLoaderProps) => {
+  const setPreferences = usePreferencesStore((state) => state.setPreferences);
+
+  const { isLoading } = useQuery({
+    queryKey: ['user-preferences'],
+    queryFn: async () => {
+      const data = await ApiService.getPreferences();
+      // Update the store before the query resolves so children never render with the default
+      setPreferences(data.preferences);
+      return data;
+    },
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // On error fall back to the default preferences rather than blocking the app
+  return <>{children}</>;
+};
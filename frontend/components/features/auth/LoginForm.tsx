@@ -32,7 +32,7 @@ export const LoginForm = () => {
 
     try {
       await signInWithEmailAndPassword(auth, data.email, data.password);
-      router.push('/dashboard');
+      router.push('/');
     } catch (err: any) {
       setError(err.message || 'Failed to login');
     } finally {
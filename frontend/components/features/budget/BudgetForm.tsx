@@ -16,11 +16,36 @@ import {
   BUDGET_TYPES,
   ALERT_THRESHOLDS,
   CATEGORY_ICONS,
+  BUDGET_ROLLOVER_MODES,
 } from "@/utils/constants";
 import { Loader2, Plus, Trash2, Bell } from "lucide-react";
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
 import { Budget } from "@/types/api.types";
+import { usePreferencesStore } from "@/store";
+import { getToday } from "@/utils/formatters";
 import { cn } from "@/lib/utils";
 
+// Period containing today (in the user's timezone), honouring their first day of week
+const getPeriodForType = (type: string) => {
+  const { weekStartsOn } = usePreferencesStore.getState().preferences;
+  const today = parseISO(getToday());
+  const [start, end] =
+    type === "weekly"
+      ? [startOfWeek(today, { weekStartsOn }), endOfWeek(today, { weekStartsOn })]
+      : [startOfMonth(today), endOfMonth(today)];
+  return {
+    startDate: format(start, "yyyy-MM-dd"),
+    endDate: format(end, "yyyy-MM-dd"),
+  };
+};
+
 interface BudgetFormProps {
   budget?: Budget;
   onSuccess?: () => void;
@@ -47,15 +72,11 @@ export const BudgetForm = ({
     defaultValues: budget || {
       name: "",
       type: "monthly",
-      period: {
-        startDate: new Date().toISOString().split("T")[0],
-        endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-          .toISOString()
-          .split("T")[0],
-      },
-      categoryBudgets: [{ category: "", limit: 0 }],
+      period: getPeriodForType("monthly"),
+      categoryBudgets: [{ category: "", limit: 0, rollover: "none", rolloverCap: null }],
       alerts: [],
       isActive: true,
+      autoRenew: false,
     },
   });
 
@@ -114,19 +135,13 @@ export const BudgetForm = ({
     setSelectedType(type as any);
     setValue("type", type as any);
 
-    const today = new Date();
-    if (type === "monthly") {
-      const start = new Date(today.getFullYear(), today.getMonth(), 1);
-      const end = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      setValue("period.startDate", start.toISOString().split("T")[0]);
-      setValue("period.endDate", end.toISOString().split("T")[0]);
-    } else if (type === "weekly") {
-      const start = new Date(today);
-      start.setDate(today.getDate() - today.getDay());
-      const end = new Date(start);
-      end.setDate(start.getDate() + 6);
-      setValue("period.startDate", start.toISOString().split("T")[0]);
-      setValue("period.endDate", end.toISOString().split("T")[0]);
+    if (type === "monthly" || type === "weekly") {
+      const period = getPeriodForType(type);
+      setValue("period.startDate", period.startDate);
+      setValue("period.endDate", period.endDate);
+    } else {
+      // Custom periods have no next period to renew into
+      setValue("autoRenew", false);
     }
   };
 
@@ -220,7 +235,7 @@ export const BudgetForm = ({
                 type="button"
                 variant="outline"
                 size="sm"
-                onClick={() => appendCategory({ category: "", limit: 0 })}
+                onClick={() => appendCategory({ category: "", limit: 0, rollover: "none", rolloverCap: null })}
               >
                 <Plus className="h-4 w-4 mr-1" />
                 Add Category
@@ -286,6 +301,36 @@ export const BudgetForm = ({
                     />
                   </div>
 
+                  {/* Rollover into the next period */}
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Rollover</Label>
+                      <select
+                        {...register(`categoryBudgets.${index}.rollover`)}
+                        className="w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                      >
+                        {BUDGET_ROLLOVER_MODES.map((mode) => (
+                          <option key={mode.value} value={mode.value}>
+                            {mode.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Rollover Cap</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="No cap"
+                        disabled={(watch(`categoryBudgets.${index}.rollover`) || "none") === "none"}
+                        {...register(`categoryBudgets.${index}.rolloverCap`, {
+                          setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                        })}
+                      />
+                    </div>
+                  </div>
+
                   {selectedCategory && (
                     <p className="text-sm text-muted-foreground">
                       Selected:{" "}
@@ -375,6 +420,24 @@ export const BudgetForm = ({
             <Label htmlFor="isActive">Active Budget</Label>
           </div>
 
+          {selectedType !== "custom" && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="autoRenew"
+                  {...register("autoRenew")}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="autoRenew">Auto-renew</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Start the next {selectedType === "weekly" ? "week" : "month"} with
+                the same limits and alerts when this period ends
+              </p>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
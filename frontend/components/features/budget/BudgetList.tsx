@@ -5,7 +5,7 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency, formatDate } from '@/utils/formatters';
-import { Edit, Trash2, Eye, Calendar } from 'lucide-react';
+import { Edit, Trash2, Eye, Calendar, RefreshCw } from 'lucide-react';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 
 interface BudgetListProps {
@@ -42,8 +42,10 @@ export const BudgetList = ({ budgets, isLoading, onEdit, onDelete, onView }: Bud
   return (
     <div className="space-y-4">
       {budgets.map((budget) => {
-        const percentageUsed = (budget.totalSpent / budget.totalLimit) * 100;
-        const isOverBudget = budget.totalSpent > budget.totalLimit;
+        // Rollovers from the previous period adjust the limit
+        const limit = budget.totalAdjustedLimit ?? budget.totalLimit;
+        const percentageUsed = limit > 0 ? (budget.totalSpent / limit) * 100 : 0;
+        const isOverBudget = budget.totalSpent > limit;
 
         return (
           <Card key={budget.id} className="p-5 hover:shadow-lg transition-all duration-200 border-2">
@@ -56,11 +58,17 @@ export const BudgetList = ({ budgets, isLoading, onEdit, onDelete, onView }: Bud
                       Active
                     </Badge>
                   ) : (
-                    <Badge variant="secondary">Inactive</Badge>
+                    <Badge variant="secondary">{budget.renewedBudgetId ? 'Renewed' : 'Inactive'}</Badge>
                   )}
                   <Badge variant="outline" className="capitalize">
                     {budget.type}
                   </Badge>
+                  {budget.autoRenew && !budget.renewedBudgetId && (
+                    <Badge variant="outline" className="gap-1">
+                      <RefreshCw className="h-3 w-3" />
+                      Auto-renews
+                    </Badge>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
@@ -73,7 +81,7 @@ export const BudgetList = ({ budgets, isLoading, onEdit, onDelete, onView }: Bud
                 <div className="grid grid-cols-3 gap-4 mb-3">
                   <div>
                     <p className="text-xs text-muted-foreground">Total Limit</p>
-                    <p className="text-lg font-semibold">{formatCurrency(budget.totalLimit)}</p>
+                    <p className="text-lg font-semibold">{formatCurrency(limit)}</p>
                   </div>
                   <div>
                     <p className="text-xs text-muted-foreground">Spent</p>
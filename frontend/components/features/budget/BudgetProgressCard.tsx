@@ -5,7 +5,7 @@ import { ApiService } from '@/services/api.service';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, formatPercentage, getBudgetStatus, getOverallBudgetStatus } from '@/utils/formatters';
 import { BUDGET_STATUS_COLORS, CATEGORY_ICONS } from '@/utils/constants';
-import { AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
+import { AlertTriangle, TrendingUp, TrendingDown, Gauge } from 'lucide-react';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils';
 
@@ -40,7 +40,7 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
     );
   }
 
-  if (!data || !data.overall) {
+  if (!data?.progress) {
     return (
       <Card>
         <CardContent className="p-6">
@@ -50,8 +50,11 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
     );
   }
 
-  const { overall, categoryProgress, triggeredAlerts } = data;
-  const overallStatus = getOverallBudgetStatus(overall.percentageUsed);
+  const { progress } = data;
+  const { forecast } = progress;
+  const triggeredAlerts = progress.alerts;
+  const overallStatus = getOverallBudgetStatus(progress.overallPercentage);
+  const categoryForecasts = new Map(forecast.categories.map((cat) => [cat.category, cat]));
 
   return (
     <div className="space-y-4">
@@ -74,21 +77,29 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
                 <p className="text-sm text-muted-foreground">Total Limit</p>
-                <p className="text-2xl font-bold">{formatCurrency(overall.totalLimit)}</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(progress.totalAdjustedLimit)}
+                </p>
+                {!!progress.totalCarriedOver && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(progress.totalLimit)} {progress.totalCarriedOver > 0 ? '+' : '−'}{' '}
+                    {formatCurrency(Math.abs(progress.totalCarriedOver))} rolled over
+                  </p>
+                )}
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Spent</p>
                 <p className="text-2xl font-bold text-orange-600">
-                  {formatCurrency(overall.totalSpent)}
+                  {formatCurrency(progress.totalSpent)}
                 </p>
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Remaining</p>
                 <p className={cn(
                   "text-2xl font-bold",
-                  overall.totalRemaining >= 0 ? "text-green-600" : "text-red-600"
+                  progress.totalRemaining >= 0 ? "text-green-600" : "text-red-600"
                 )}>
-                  {formatCurrency(overall.totalRemaining)}
+                  {formatCurrency(progress.totalRemaining)}
                 </p>
               </div>
             </div>
@@ -97,20 +108,59 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Progress</span>
-                <span className="font-medium">{formatPercentage(overall.percentageUsed)}</span>
+                <span className="font-medium">{formatPercentage(progress.overallPercentage)}</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-4 overflow-hidden">
                 <div
                   className={cn(
                     "h-full transition-all duration-500 rounded-full",
-                    overall.percentageUsed < 70 ? "bg-green-500" :
-                    overall.percentageUsed < 90 ? "bg-yellow-500" :
-                    overall.percentageUsed < 100 ? "bg-orange-500" : "bg-red-500"
+                    progress.overallPercentage < 70 ? "bg-green-500" :
+                    progress.overallPercentage < 90 ? "bg-yellow-500" :
+                    progress.overallPercentage < 100 ? "bg-orange-500" : "bg-red-500"
                   )}
-                  style={{ width: `${Math.min(overall.percentageUsed, 100)}%` }}
+                  style={{ width: `${Math.min(progress.overallPercentage, 100)}%` }}
                 />
               </div>
             </div>
+
+            {/* End-of-period forecast */}
+            <div className="grid grid-cols-2 gap-4 pt-2 border-t">
+              <div>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <Gauge className="h-4 w-4" />
+                  Projected
+                </p>
+                <p className="text-lg font-semibold">
+                  {formatCurrency(forecast.projected)}
+                  {forecast.overBy > 0 && (
+                    <span className="text-sm font-medium text-red-600"> (over by {formatCurrency(forecast.overBy)})</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {forecast.upcomingRecurring > 0
+                    ? `incl. ${formatCurrency(forecast.upcomingRecurring)} of upcoming recurring`
+                    : 'at your current pace'}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Safe to Spend</p>
+                {forecast.dailySafeToSpend === null ? (
+                  <p className="text-lg font-semibold text-muted-foreground">Period ended</p>
+                ) : (
+                  <>
+                    <p className={cn(
+                      "text-lg font-semibold",
+                      forecast.dailySafeToSpend > 0 ? "text-green-600" : "text-red-600"
+                    )}>
+                      {formatCurrency(forecast.dailySafeToSpend)}/day
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      for the {forecast.daysLeft} day{forecast.daysLeft === 1 ? '' : 's'} left
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -140,15 +190,16 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
       )}
 
       {/* Category Breakdown */}
-      {categoryProgress && categoryProgress.length > 0 && (
+      {progress.categoryBudgets.length > 0 && (
         <Card className="border-2">
           <CardHeader>
             <CardTitle>Category Breakdown</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {categoryProgress.map((cat, index) => {
+              {progress.categoryBudgets.map((cat, index) => {
                 const status = getBudgetStatus(cat.percentage);
+                const catForecast = categoryForecasts.get(cat.category);
                 return (
                   <div key={index} className="space-y-2">
                     <div className="flex items-center justify-between">
@@ -158,14 +209,27 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
                       </div>
                       <div className="text-right">
                         <p className="text-sm font-medium">
-                          {formatCurrency(cat.spent)} / {formatCurrency(cat.limit)}
+                          {formatCurrency(cat.spent)} / {formatCurrency(cat.adjustedLimit ?? cat.limit)}
                         </p>
+                        {!!cat.carriedOver && (
+                          <p className={cn("text-xs", cat.carriedOver > 0 ? "text-green-600" : "text-red-600")}>
+                            {cat.carriedOver > 0
+                              ? `+${formatCurrency(cat.carriedOver)} unspent last period`
+                              : `−${formatCurrency(Math.abs(cat.carriedOver))} overspent last period`}
+                          </p>
+                        )}
                         <p className={cn(
                           "text-xs",
                           BUDGET_STATUS_COLORS[status as keyof typeof BUDGET_STATUS_COLORS]
                         )}>
                           {formatPercentage(cat.percentage)}
                         </p>
+                        {catForecast && catForecast.projected > cat.spent && (
+                          <p className={cn("text-xs", catForecast.overBy > 0 ? "text-red-600" : "text-muted-foreground")}>
+                            Projected: {formatCurrency(catForecast.projected)}
+                            {catForecast.overBy > 0 && ` (over by ${formatCurrency(catForecast.overBy)})`}
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -183,7 +247,10 @@ export const BudgetProgressCard = ({ budgetId }: BudgetProgressCardProps) => {
                     </div>
 
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
-                      <span>{formatCurrency(cat.remaining)} remaining</span>
+                      <span>
+                        {formatCurrency(cat.remaining)} remaining
+                        {catForecast && catForecast.dailySafeToSpend !== null && ` • ${formatCurrency(catForecast.dailySafeToSpend)}/day`}
+                      </span>
                       {cat.percentage >= 100 ? (
                         <span className="text-red-600 font-medium flex items-center gap-1">
                           <TrendingDown className="h-3 w-3" />
@@ -4,7 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import { ApiService } from '@/services/api.service';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, formatDate } from '@/utils/formatters';
-import { TrendingUp, Calendar } from 'lucide-react';
+import { TrendingUp, Calendar, Gauge } from 'lucide-react';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
@@ -15,6 +15,14 @@ export const CurrentBudgetWidget = () => {
     queryFn: () => ApiService.getCurrentBudget(),
   });
 
+  const budgetId = data?.budget?.id;
+  const { data: progressData } = useQuery({
+    queryKey: ['budget-progress', budgetId],
+    queryFn: () => ApiService.getBudgetProgress(budgetId!),
+    enabled: !!budgetId,
+  });
+  const forecast = progressData?.progress.forecast;
+
   if (isLoading) {
     return (
       <Card>
@@ -44,7 +52,8 @@ export const CurrentBudgetWidget = () => {
   }
 
   const { budget } = data;
-  const percentageUsed = (budget.totalSpent / budget.totalLimit) * 100;
+  const limit = budget.totalAdjustedLimit ?? budget.totalLimit;
+  const percentageUsed = limit > 0 ? (budget.totalSpent / limit) * 100 : 0;
 
   return (
     <Card className="border-2">
@@ -97,11 +106,36 @@ export const CurrentBudgetWidget = () => {
             </div>
           </div>
 
+          {forecast && (
+            <div className="flex items-start justify-between gap-4 p-3 rounded-lg border text-sm">
+              <div>
+                <p className="text-muted-foreground flex items-center gap-1">
+                  <Gauge className="h-4 w-4" />
+                  Projected
+                </p>
+                <p className="font-semibold">
+                  {formatCurrency(forecast.projected)}
+                  {forecast.overBy > 0 && (
+                    <span className="text-red-600 font-medium"> (over by {formatCurrency(forecast.overBy)})</span>
+                  )}
+                </p>
+              </div>
+              {forecast.dailySafeToSpend !== null && (
+                <div className="text-right">
+                  <p className="text-muted-foreground">Safe to spend</p>
+                  <p className={`font-semibold ${forecast.dailySafeToSpend > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(forecast.dailySafeToSpend)}/day
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {budget.categoryBudgets.slice(0, 3).map((cat, idx) => (
             <div key={idx} className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">{cat.category}</span>
               <span className="font-medium">
-                {formatCurrency(cat.spent)} / {formatCurrency(cat.limit)}
+                {formatCurrency(cat.spent)} / {formatCurrency(cat.adjustedLimit ?? cat.limit)}
               </span>
             </div>
           ))}
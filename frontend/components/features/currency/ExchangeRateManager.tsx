@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CURRENCIES } from '@/utils/constants';
+import { formatDate, getToday } from '@/utils/formatters';
+import { usePreferencesStore } from '@/store';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+const selectClassName = 'w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+export const ExchangeRateManager = () => {
+  const homeCurrency = usePreferencesStore((state) => state.homeCurrency);
+  const [base, setBase] = useState(CURRENCIES.find((code) => code !== homeCurrency) || 'EUR');
+  const [quote, setQuote] = useState(homeCurrency);
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(getToday());
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: () => ApiService.getExchangeRates(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => ApiService.createExchangeRate({ base, quote, rate: parseFloat(rate), date }),
+    onSuccess: () => {
+      setRate('');
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rate'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => ApiService.deleteExchangeRate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rate'] });
+    },
+  });
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Delete this exchange rate?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Exchange Rate</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Foreign-currency expenses are converted into {homeCurrency} using the rate for their date.
+            {data?.provider && data.provider !== 'none'
+              ? ` Missing rates are fetched from ${data.provider}; manual rates take priority.`
+              : ' Add a rate for each currency you spend in.'}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rateBase">1 unit of</Label>
+              <select id="rateBase" value={base} onChange={(e) => setBase(e.target.value)} className={selectClassName}>
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rateValue">equals</Label>
+              <Input
+                id="rateValue"
+                type="number"
+                step="0.000001"
+                min="0"
+                placeholder="0.00"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rateQuote">Currency</Label>
+              <select id="rateQuote" value={quote} onChange={(e) => setQuote(e.target.value)} className={selectClassName}>
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rateDate">On</Label>
+              <Input id="rateDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !rate || parseFloat(rate) <= 0 || base === quote}
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Save Rate
+            </Button>
+          </div>
+          {createMutation.isError && (
+            <p className="text-sm text-destructive mt-3">{getErrorMessage(createMutation.error)}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !data || data.rates.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No exchange rates yet</p>
+          ) : (
+            <div className="border rounded-lg overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr className="text-left">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Pair</th>
+                    <th className="p-2 text-right">Rate</th>
+                    <th className="p-2">Source</th>
+                    <th className="p-2 sr-only">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rates.map((entry) => (
+                    <tr key={entry.id} className="border-t">
+                      <td className="p-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                      <td className="p-2">1 {entry.base} → {entry.quote}</td>
+                      <td className="p-2 text-right font-medium">{entry.rate}</td>
+                      <td className="p-2 capitalize text-muted-foreground">{entry.source}</td>
+                      <td className="p-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(entry.id)}
+                          className="hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
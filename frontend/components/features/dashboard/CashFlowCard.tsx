@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { parseISO } from 'date-fns';
+import { ApiService } from '@/services/api.service';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate, formatPercentage } from '@/utils/formatters';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowDownCircle, ArrowUpCircle, PiggyBank } from 'lucide-react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+
+const MONTH_OPTIONS = [3, 6, 12];
+
+export const CashFlowCard = () => {
+  const [months, setMonths] = useState(6);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['cash-flow', months],
+    queryFn: () => ApiService.getCashFlow(months),
+  });
+
+  if (isLoading || !data) return null;
+
+  const { summary } = data;
+  const chartData = data.monthly.map((month) => ({
+    ...month,
+    label: formatDate(parseISO(`${month.month}-01`), 'MMM yy'),
+  }));
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-2xl">Cash Flow</CardTitle>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Months"
+              value={months}
+              onChange={(e) => setMonths(Number(e.target.value))}
+              className="px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring text-sm"
+            >
+              {MONTH_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  Last {option} months
+                </option>
+              ))}
+            </select>
+            <Link href="/income" className="text-sm text-primary underline">
+              Income
+            </Link>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <ArrowDownCircle className="h-4 w-4 text-green-600" />
+              Income
+            </p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(summary.totalIncome)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <ArrowUpCircle className="h-4 w-4 text-red-600" />
+              Expenses
+            </p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(summary.totalExpenses)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Net</p>
+            <p className={cn('text-2xl font-bold', summary.net >= 0 ? 'text-green-600' : 'text-red-600')}>
+              {formatCurrency(summary.net)}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <PiggyBank className="h-4 w-4" />
+              Savings Rate
+            </p>
+            <p className="text-2xl font-bold">
+              {summary.savingsRate === null ? '—' : formatPercentage(summary.savingsRate)}
+            </p>
+          </div>
+        </div>
+
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis />
+            <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+            <Legend />
+            <Bar dataKey="income" name="Income" fill="#10b981" />
+            <Bar dataKey="expenses" name="Expenses" fill="#ef4444" />
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2">Month</th>
+                <th className="py-2 text-right">Income</th>
+                <th className="py-2 text-right">Expenses</th>
+                <th className="py-2 text-right">Net</th>
+                <th className="py-2 text-right">Savings Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...chartData].reverse().map((month) => (
+                <tr key={month.month} className="border-t">
+                  <td className="py-2 font-medium">{month.label}</td>
+                  <td className="py-2 text-right">{formatCurrency(month.income)}</td>
+                  <td className="py-2 text-right">{formatCurrency(month.expenses)}</td>
+                  <td className={cn('py-2 text-right font-medium', month.net >= 0 ? 'text-green-600' : 'text-red-600')}>
+                    {formatCurrency(month.net)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {month.savingsRate === null ? '—' : formatPercentage(month.savingsRate)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
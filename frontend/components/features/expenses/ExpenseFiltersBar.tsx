@@ -0,0 +1,166 @@
+'use client'
+
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { ExpenseFilters } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CATEGORIES, CATEGORY_ICONS } from '@/utils/constants';
+import { ChevronDown, Search, X } from 'lucide-react';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+interface ExpenseFiltersBarProps {
+  filters: ExpenseFilters;
+  onChange: (changes: Partial<ExpenseFilters>) => void;
+  onClear: () => void;
+}
+
+export const ExpenseFiltersBar = ({ filters, onChange, onClear }: ExpenseFiltersBarProps) => {
+  const [search, setSearch] = useState(filters.search || '');
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const selectedCategories = filters.categories || [];
+
+  const { data: tagStats } = useQuery({
+    queryKey: ['stats', 'tags'],
+    queryFn: () => ApiService.getTagStats(),
+  });
+  const tags = tagStats?.tags.map((stat) => stat.tag) || [];
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => {
+      onChange({ search: value.trim() || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedCategories, category]
+      : selectedCategories.filter((c) => c !== category);
+    onChange({ categories: next.length > 0 ? next : undefined });
+  };
+
+  const hasFilters =
+    selectedCategories.length > 0 || filters.tag || filters.startDate || filters.endDate || filters.search;
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+      <div className="flex-1 space-y-1">
+        <Label htmlFor="expenseSearch" className="text-xs">Search</Label>
+        <div className="relative">
+          <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="expenseSearch"
+            placeholder="Search descriptions..."
+            value={search}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Categories</Label>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full lg:w-48 justify-between">
+              <span className="truncate">
+                {selectedCategories.length === 0
+                  ? 'All categories'
+                  : selectedCategories.length === 1
+                    ? selectedCategories[0]
+                    : `${selectedCategories.length} categories`}
+              </span>
+              <ChevronDown className="h-4 w-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuLabel>Filter by category</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {CATEGORIES.map((category) => (
+              <DropdownMenuCheckboxItem
+                key={category}
+                checked={selectedCategories.includes(category)}
+                onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span>{CATEGORY_ICONS[category]}</span>
+                {category}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {(tags.length > 0 || filters.tag) && (
+        <div className="space-y-1">
+          <Label htmlFor="filterTag" className="text-xs">Tag</Label>
+          <select
+            id="filterTag"
+            value={filters.tag || ''}
+            onChange={(e) => onChange({ tag: e.target.value || undefined })}
+            className="w-full lg:w-40 h-9 px-3 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring text-sm"
+          >
+            <option value="">All tags</option>
+            {filters.tag && !tags.includes(filters.tag) && (
+              <option value={filters.tag}>#{filters.tag}</option>
+            )}
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="filterStart" className="text-xs">From</Label>
+          <Input
+            id="filterStart"
+            type="date"
+            value={filters.startDate || ''}
+            max={filters.endDate}
+            onChange={(e) => onChange({ startDate: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterEnd" className="text-xs">To</Label>
+          <Input
+            id="filterEnd"
+            type="date"
+            value={filters.endDate || ''}
+            min={filters.startDate}
+            onChange={(e) => onChange({ endDate: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setSearch('');
+            onClear();
+          }}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,23 @@
 'use client'
 
 import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { expenseSchema, type ExpenseFormData } from '@/utils/validators';
 import { ApiService } from '@/services/api.service';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { CATEGORIES, CATEGORY_ICONS } from '@/utils/constants';
-import { Sparkles, Loader2 } from 'lucide-react';
+import { CATEGORIES, CATEGORY_ICONS, CURRENCIES } from '@/utils/constants';
+import { Sparkles, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Expense } from '@/types/api.types';
+import { TagInput } from '@/components/features/expenses/TagInput';
+import { formatCurrency, getToday } from '@/utils/formatters';
+import { usePreferencesStore } from '@/store';
 import { cn } from '@/lib/utils';
+import Link from 'next/link';
 
 interface ExpenseFormProps {
   expense?: Expense;
@@ -25,6 +29,7 @@ export const ExpenseForm = ({ expense, onSuccess, onCancel }: ExpenseFormProps)
   const [selectedCategory, setSelectedCategory] = useState(expense?.category || '');
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState('');
+  const homeCurrency = usePreferencesStore((state) => state.homeCurrency);
   const queryClient = useQueryClient();
 
   const {
@@ -32,16 +37,51 @@ export const ExpenseForm = ({ expense, onSuccess, onCancel }: ExpenseFormProps)
     handleSubmit,
     watch,
     setValue,
+    control,
     formState: { errors },
   } = useForm<ExpenseFormData>({
     resolver: zodResolver(expenseSchema),
-    defaultValues: expense || {
-      date: new Date().toISOString().split('T')[0],
-      category: '',
-    },
+    // Foreign-currency expenses are edited in the currency they were entered in
+    defaultValues: expense
+      ? {
+          ...expense,
+          amount: expense.originalAmount ?? expense.amount,
+          currency: expense.currency || homeCurrency,
+        }
+      : {
+          date: getToday(),
+          category: '',
+          currency: homeCurrency,
+          tags: [],
+          splits: [],
+        },
+  });
+
+  const {
+    fields: splitFields,
+    append: appendSplit,
+    remove: removeSplit,
+  } = useFieldArray({
+    control,
+    name: 'splits',
   });
 
   const description = watch('description');
+  const amount = watch('amount');
+  const splits = watch('splits');
+  const tags = watch('tags');
+  const currency = watch('currency') || homeCurrency;
+  const date = watch('date');
+  const isForeignCurrency = currency !== homeCurrency;
+
+  // Preview the home-currency amount the server will store
+  const { data: rateLookup, isError: rateMissing } = useQuery({
+    queryKey: ['exchange-rate', currency, date],
+    queryFn: () => ApiService.lookupExchangeRate(currency, date),
+    enabled: isForeignCurrency && !!date,
+    retry: false,
+  });
+  const splitRemaining = (amount || 0) - (splits || []).reduce((sum, split) => sum + (split.amount || 0), 0);
 
   const createMutation = useMutation({
     mutationFn: (data: ExpenseFormData) => ApiService.createExpense(data),
@@ -98,10 +138,33 @@ export const ExpenseForm = ({ expense, onSuccess, onCancel }: ExpenseFormProps)
     setAiError(''); // Clear any AI errors
   };
 
+  const handleAddSplit = () => {
+    if (splitFields.length === 0) {
+      // Start with the whole amount on the selected category plus an empty line
+      appendSplit([
+        { amount: amount || 0, category: selectedCategory, note: '' },
+        { amount: 0, category: '', note: '' },
+      ]);
+    } else {
+      appendSplit({ amount: 0, category: '', note: '' });
+    }
+  };
+
+  const handleRemoveSplit = (index: number) => {
+    // A single split line is meaningless, so removing down to one clears the split
+    if (splitFields.length <= 2) {
+      removeSplit();
+    } else {
+      removeSplit(index);
+    }
+  };
+
   const onSubmit = (data: ExpenseFormData) => {
     const submitData = {
       ...data,
       category: selectedCategory,
+      tags: data.tags || [],
+      splits: data.splits || [],
     };
 
     if (expense) {
@@ -121,17 +184,45 @@ export const ExpenseForm = ({ expense, onSuccess, onCancel }: ExpenseFormProps)
       <CardContent>
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount ($)</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              placeholder="0.00"
-              {...register('amount', { valueAsNumber: true })}
-            />
+            <Label htmlFor="amount">Amount</Label>
+            <div className="flex gap-2">
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                className="flex-1"
+                {...register('amount', { valueAsNumber: true })}
+              />
+              <select
+                aria-label="Currency"
+                {...register('currency')}
+                className="w-28 px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+              >
+                {[homeCurrency, ...CURRENCIES.filter((code) => code !== homeCurrency)].map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
             {errors.amount && (
               <p className="text-sm text-destructive">{errors.amount.message}</p>
             )}
+            {isForeignCurrency && rateLookup && amount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                ≈ {formatCurrency(amount * rateLookup.rate)} at 1 {currency} = {rateLookup.rate.toFixed(4)} {homeCurrency}
+                {rateLookup.date !== date && ` (rate from ${rateLookup.date})`}
+              </p>
+            )}
+            {isForeignCurrency && rateMissing && (
+              <p className="text-sm text-destructive">
+                No {currency} → {homeCurrency} rate for this date.{' '}
+                <Link href="/exchange-rates" className="underline">
+                  Add an exchange rate
+                </Link>
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -215,6 +306,84 @@ export const ExpenseForm = ({ expense, onSuccess, onCancel }: ExpenseFormProps)
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagInput
+              id="tags"
+              value={tags || []}
+              onChange={(value) => setValue('tags', value, { shouldValidate: true })}
+            />
+            {errors.tags && (
+              <p className="text-sm text-destructive">{errors.tags.message}</p>
+            )}
+          </div>
+
+          {/* Split Lines */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Split</Label>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddSplit}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add split
+              </Button>
+            </div>
+
+            {splitFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+                <select
+                  {...register(`splits.${index}.category`)}
+                  className="col-span-4 w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Category</option>
+                  {CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {CATEGORY_ICONS[category]} {category}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  className="col-span-3"
+                  {...register(`splits.${index}.amount`, { valueAsNumber: true })}
+                />
+                <Input
+                  placeholder="Note (optional)"
+                  className="col-span-4"
+                  {...register(`splits.${index}.note`)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1"
+                  onClick={() => handleRemoveSplit(index)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                  <span className="sr-only">Remove split</span>
+                </Button>
+              </div>
+            ))}
+
+            {splitFields.length > 0 && (
+              <p className={cn(
+                'text-sm',
+                Math.round(splitRemaining * 100) === 0 ? 'text-muted-foreground' : 'text-destructive'
+              )}>
+                {Math.round(splitRemaining * 100) === 0
+                  ? 'Splits add up to the total'
+                  : `${formatCurrency(Math.abs(splitRemaining), currency)} ${splitRemaining > 0 ? 'left to allocate' : 'over the total'}`}
+              </p>
+            )}
+
+            {errors.splits && (
+              <p className="text-sm text-destructive">
+                {errors.splits.message || errors.splits.root?.message || 'Check the split lines'}
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="date">Date</Label>
             <Input
@@ -5,6 +5,7 @@ import { formatCurrency, formatDate } from '@/utils/formatters';
 import { CATEGORY_ICONS } from '@/utils/constants';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { ReceiptAttachments } from '@/components/features/expenses/ReceiptAttachments';
 import { Edit, Trash2, Sparkles } from 'lucide-react';
 
 interface ExpenseItemProps {
@@ -31,6 +32,11 @@ export const ExpenseItem = ({ expense, onEdit, onDelete }: ExpenseItemProps) =>
               <span className="text-2xl font-bold text-foreground">
                 {formatCurrency(expense.amount)}
               </span>
+              {expense.currency && expense.currency !== expense.homeCurrency && expense.originalAmount !== undefined && (
+                <span className="text-sm text-muted-foreground" title={`Rate: ${expense.exchangeRate}`}>
+                  {formatCurrency(expense.originalAmount, expense.currency)}
+                </span>
+              )}
               <span className="px-3 py-1 bg-primary/10 text-primary rounded-full text-sm font-medium">
                 {expense.category}
               </span>
@@ -40,10 +46,43 @@ export const ExpenseItem = ({ expense, onEdit, onDelete }: ExpenseItemProps) =>
                   AI Suggested
                 </span>
               )}
+              {expense.status === 'pending' && (
+                <span
+                  className="px-3 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded-full text-xs font-medium"
+                  title="Estimated amount, confirm it on the Recurring page"
+                >
+                  Pending
+                </span>
+              )}
             </div>
             <p className="text-base text-foreground/90 mb-2 line-clamp-2">
               {expense.description}
             </p>
+            {expense.tags && expense.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {expense.tags.map((tag) => (
+                  <span key={tag} className="text-xs font-medium text-primary">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {expense.splits && expense.splits.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {expense.splits.map((split, index) => (
+                  <span
+                    key={index}
+                    className="px-2 py-1 bg-muted rounded-md text-xs flex items-center gap-1"
+                    title={split.note}
+                  >
+                    <span>{CATEGORY_ICONS[split.category] || '📌'}</span>
+                    <span className="font-medium">{split.category}</span>
+                    <span>{formatCurrency(split.amount, expense.currency)}</span>
+                    {split.note && <span className="text-muted-foreground">• {split.note}</span>}
+                  </span>
+                ))}
+              </div>
+            )}
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <span>{formatDate(expense.date)}</span>
               <span>•</span>
@@ -51,6 +90,9 @@ export const ExpenseItem = ({ expense, onEdit, onDelete }: ExpenseItemProps) =>
                 Added {formatDate(expense.createdAt)}
               </span>
             </div>
+            <div className="mt-3">
+              <ReceiptAttachments expense={expense} />
+            </div>
           </div>
         </div>
 
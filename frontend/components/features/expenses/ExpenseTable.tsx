@@ -0,0 +1,197 @@
+'use client'
+
+import { useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Expense, ExpenseSortField } from '@/types/api.types';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { CATEGORY_ICONS } from '@/utils/constants';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, ArrowUpDown, Edit, Trash2, Sparkles, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const ROW_HEIGHT = 56;
+// Start fetching the next page when this many rows remain below the viewport
+const PREFETCH_THRESHOLD = 20;
+const GRID_COLUMNS = 'grid grid-cols-[120px_minmax(0,1fr)_160px_120px_96px] items-center gap-4 px-4';
+
+interface SortHeaderProps {
+  field: ExpenseSortField;
+  label: string;
+  sortBy: ExpenseSortField;
+  order: 'asc' | 'desc';
+  onSort: (field: ExpenseSortField) => void;
+  className?: string;
+}
+
+const SortHeader = ({ field, label, sortBy, order, onSort, className }: SortHeaderProps) => {
+  const Icon = sortBy !== field ? ArrowUpDown : order === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(field)}
+      className={cn(
+        'flex items-center gap-1 font-medium hover:text-foreground transition',
+        sortBy === field && 'text-foreground',
+        className
+      )}
+    >
+      {label}
+      <Icon className="h-3 w-3" />
+    </button>
+  );
+};
+
+interface ExpenseTableProps {
+  expenses: Expense[];
+  isLoading: boolean;
+  sortBy: ExpenseSortField;
+  order: 'asc' | 'desc';
+  onSortChange: (sortBy: ExpenseSortField, order: 'asc' | 'desc') => void;
+  hasMore: boolean;
+  isFetchingMore: boolean;
+  onLoadMore: () => void;
+  onEdit: (expense: Expense) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ExpenseTable = ({
+  expenses,
+  isLoading,
+  sortBy,
+  order,
+  onSortChange,
+  hasMore,
+  isFetchingMore,
+  onLoadMore,
+  onEdit,
+  onDelete,
+}: ExpenseTableProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: expenses.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  const virtualRows = virtualizer.getVirtualItems();
+
+  const handleScroll = () => {
+    const lastRow = virtualRows[virtualRows.length - 1];
+    if (!lastRow || !hasMore || isFetchingMore) return;
+    if (lastRow.index >= expenses.length - PREFETCH_THRESHOLD) {
+      onLoadMore();
+    }
+  };
+
+  const handleSort = (field: ExpenseSortField) => {
+    if (field === sortBy) {
+      onSortChange(field, order === 'asc' ? 'desc' : 'asc');
+    } else {
+      // Newest dates and largest amounts first, categories alphabetically
+      onSortChange(field, field === 'category' ? 'asc' : 'desc');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <div className="min-w-[720px]">
+        {/* Header */}
+        <div className={cn(GRID_COLUMNS, 'h-11 bg-muted text-sm text-muted-foreground border-b')}>
+          <SortHeader field="date" label="Date" sortBy={sortBy} order={order} onSort={handleSort} />
+          <span className="font-medium">Description</span>
+          <SortHeader field="category" label="Category" sortBy={sortBy} order={order} onSort={handleSort} />
+          <SortHeader
+            field="amount"
+            label="Amount"
+            sortBy={sortBy}
+            order={order}
+            onSort={handleSort}
+            className="justify-end"
+          />
+          <span className="sr-only">Actions</span>
+        </div>
+
+        {expenses.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No expenses match these filters
+          </div>
+        ) : (
+          <div ref={scrollRef} onScroll={handleScroll} className="h-[600px] overflow-y-auto">
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualRows.map((row) => {
+                const expense = expenses[row.index];
+                return (
+                  <div
+                    key={expense.id}
+                    className={cn(GRID_COLUMNS, 'absolute left-0 top-0 w-full border-b text-sm hover:bg-muted/50')}
+                    style={{ height: row.size, transform: `translateY(${row.start}px)` }}
+                  >
+                    <span className="whitespace-nowrap">{formatDate(expense.date)}</span>
+                    <span className="truncate flex items-center gap-2" title={expense.description}>
+                      <span className="truncate">{expense.description}</span>
+                      {expense.aiSuggested && (
+                        <Sparkles className="h-3 w-3 flex-shrink-0 text-purple-600" />
+                      )}
+                      {expense.tags?.map((tag) => (
+                        <span key={tag} className="text-xs text-primary flex-shrink-0">
+                          #{tag}
+                        </span>
+                      ))}
+                    </span>
+                    <span
+                      className="truncate"
+                      title={expense.splits?.map((split) => split.category).join(', ')}
+                    >
+                      {CATEGORY_ICONS[expense.category] || '📌'} {expense.category}
+                      {expense.splits && expense.splits.length > 0 && (
+                        <span className="text-xs text-muted-foreground"> +{expense.splits.length - 1} split</span>
+                      )}
+                    </span>
+                    <span className="text-right">
+                      <span className="block font-semibold">{formatCurrency(expense.amount)}</span>
+                      {expense.currency && expense.currency !== expense.homeCurrency && expense.originalAmount !== undefined && (
+                        <span className="block text-xs text-muted-foreground">
+                          {formatCurrency(expense.originalAmount, expense.currency)}
+                        </span>
+                      )}
+                    </span>
+                    <div className="flex justify-end gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => onEdit(expense)}>
+                        <Edit className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onDelete(expense.id)}
+                        className="hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {isFetchingMore && (
+              <div className="flex justify-center py-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import {
+  ImportAmountSign,
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportPreviewResponse,
+  ImportResult,
+} from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { IMPORT_DATE_FORMATS } from '@/utils/constants';
+import { Upload, Loader2, CheckCircle, AlertTriangle, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const MAPPING_FIELDS: { key: keyof Omit<ImportColumnMapping, 'dateFormat' | 'amountSign'>; label: string; required: boolean }[] = [
+  { key: 'amount', label: 'Amount', required: true },
+  { key: 'date', label: 'Date', required: true },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'category', label: 'Category', required: false },
+];
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+interface ImportWizardProps {
+  onComplete?: (result: ImportResult) => void;
+}
+
+export const ImportWizard = ({ onComplete }: ImportWizardProps) => {
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ImportPreviewResponse | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: ({ text, columns }: { text: string; columns?: ImportColumnMapping }) =>
+      ApiService.previewExpenseImport(text, columns),
+    onSuccess: (data) => {
+      setPreview(data);
+      setHeaders(data.headers);
+      setMapping({ dateFormat: 'YYYY-MM-DD', ...data.mapping });
+    },
+    onError: (error) => {
+      setPreview(null);
+      // Unmappable files still return their headers so columns can be picked manually
+      const data = isAxiosError(error) ? error.response?.data : null;
+      if (data?.headers) {
+        setHeaders(data.headers);
+        setMapping({ dateFormat: 'YYYY-MM-DD', ...data.mapping });
+      }
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => ApiService.importExpenses(csv, mapping!),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['current-budget'] });
+      setResult(data);
+      onComplete?.(data);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setResult(null);
+    setPreview(null);
+    setHeaders([]);
+    setMapping(null);
+    previewMutation.mutate({ text });
+  };
+
+  const handleMappingChange = (changes: Partial<ImportColumnMapping>) => {
+    if (!mapping) return;
+    const updated = { ...mapping, ...changes };
+    setMapping(updated);
+    previewMutation.mutate({ text: csv, columns: updated });
+  };
+
+  if (result) {
+    return (
+      <Card className="border-2">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <CheckCircle className="h-8 w-8 text-green-600" />
+            <div>
+              <p className="text-lg font-semibold">{result.message}</p>
+              <p className="text-sm text-muted-foreground">
+                {result.aiCategorized} categorized by AI • {result.skipped.length} rows skipped
+              </p>
+            </div>
+          </div>
+
+          {result.skipped.length > 0 && (
+            <div className="space-y-1 text-sm">
+              {result.skipped.map((row) => (
+                <p key={row.rowNumber} className="text-destructive">
+                  Row {row.rowNumber}: {row.errors.join(', ')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={() => {
+              setResult(null);
+              setPreview(null);
+              setHeaders([]);
+              setMapping(null);
+              setCsv('');
+              setFileName('');
+            }}
+          >
+            Import another file
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Step 1: Upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Upload CSV Statement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Label
+            htmlFor="csvFile"
+            className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer hover:border-primary/50 transition"
+          >
+            <Upload className="h-8 w-8 text-muted-foreground" />
+            <span className="text-sm font-medium">
+              {fileName || 'Choose a .csv file exported from your bank'}
+            </span>
+          </Label>
+          <Input
+            id="csvFile"
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {previewMutation.isError && (
+            <p className="text-sm text-destructive">{getErrorMessage(previewMutation.error)}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step 2: Column mapping */}
+      {mapping && headers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {field.label} {field.required && '*'}
+                  </Label>
+                  <select
+                    id={`map-${field.key}`}
+                    value={mapping[field.key] || ''}
+                    onChange={(e) => handleMappingChange({ [field.key]: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                  >
+                    <option value="">{field.required ? 'Select column' : 'None (use AI)'}</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="map-dateFormat">Date Format</Label>
+                <select
+                  id="map-dateFormat"
+                  value={mapping.dateFormat}
+                  onChange={(e) => handleMappingChange({ dateFormat: e.target.value as ImportDateFormat })}
+                  className="w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                >
+                  {IMPORT_DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="map-amountSign">Expenses Are</Label>
+                <select
+                  id="map-amountSign"
+                  value={mapping.amountSign || 'positive'}
+                  onChange={(e) => handleMappingChange({ amountSign: e.target.value as ImportAmountSign })}
+                  className="w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                >
+                  <option value="positive">Positive amounts (negatives are refunds)</option>
+                  <option value="negative">Negative amounts (positives are refunds)</option>
+                </select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Step 3: Preview */}
+      {preview && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>3. Preview</CardTitle>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-green-600">{preview.summary.valid} valid</span>
+                <span className="text-destructive">{preview.summary.invalid} with errors</span>
+                {preview.summary.credits > 0 && (
+                  <span className="text-muted-foreground">{preview.summary.credits} refunds skipped</span>
+                )}
+                <span className="text-purple-600">{preview.summary.needsCategory} need AI category</span>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-h-[480px] overflow-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="p-2">Row</th>
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Description</th>
+                    <th className="p-2">Category</th>
+                    <th className="p-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className={cn('border-t align-top', !row.isValid && 'bg-red-50 dark:bg-red-900/10')}
+                    >
+                      <td className="p-2 text-muted-foreground">{row.rowNumber}</td>
+                      <td className="p-2 whitespace-nowrap">
+                        {row.isValid ? formatDate(row.data.date) : row.data.date}
+                      </td>
+                      <td className="p-2">
+                        <p>{row.data.description}</p>
+                        {row.errors.map((err) => (
+                          <p key={err} className="text-xs text-destructive flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            {err}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="p-2">
+                        {row.needsCategory ? (
+                          <span className="text-xs text-purple-600 flex items-center gap-1">
+                            <Sparkles className="h-3 w-3" />
+                            AI
+                          </span>
+                        ) : (
+                          row.data.category
+                        )}
+                      </td>
+                      <td className="p-2 text-right font-medium">
+                        {typeof row.data.amount === 'number'
+                          ? formatCurrency(row.data.amount)
+                          : row.data.amount}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {importMutation.isError && (
+              <p className="text-sm text-destructive">{getErrorMessage(importMutation.error)}</p>
+            )}
+
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isPending || previewMutation.isPending || preview.summary.valid === 0}
+              className="w-full md:w-auto"
+            >
+              {importMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                `Import ${preview.summary.valid} Expenses`
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
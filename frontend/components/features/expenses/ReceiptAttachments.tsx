@@ -0,0 +1,258 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { Expense, ExpenseAttachment } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ATTACHMENT_MIME_TYPES, MAX_ATTACHMENT_SIZE_MB } from '@/utils/constants';
+import { formatDate } from '@/utils/formatters';
+import { Download, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+
+const isImage = (attachment: ExpenseAttachment) => attachment.contentType.startsWith('image/');
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+/**
+ * Fetch an attachment with the auth header and expose it as an object URL
+ */
+const useAttachmentUrl = (expenseId: string, attachment: ExpenseAttachment, enabled = true) => {
+  const { data: blob, isLoading } = useQuery({
+    queryKey: ['attachment', expenseId, attachment.id],
+    queryFn: () => ApiService.getAttachment(expenseId, attachment.id),
+    staleTime: Infinity,
+    enabled,
+  });
+
+  const url = useMemo(() => (blob ? URL.createObjectURL(blob) : null), [blob]);
+
+  useEffect(() => {
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [url]);
+
+  return { url, isLoading };
+};
+
+const AttachmentThumbnail = ({
+  expenseId,
+  attachment,
+  onClick,
+}: {
+  expenseId: string;
+  attachment: ExpenseAttachment;
+  onClick: () => void;
+}) => {
+  // PDFs get an icon, so only images are downloaded up front
+  const { url } = useAttachmentUrl(expenseId, attachment, isImage(attachment));
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={attachment.fileName}
+      className="w-14 h-14 rounded-md border bg-muted overflow-hidden flex items-center justify-center hover:ring-2 hover:ring-primary transition"
+    >
+      {isImage(attachment) && url ? (
+        <Image
+          src={url}
+          alt={attachment.fileName}
+          width={56}
+          height={56}
+          unoptimized
+          className="w-full h-full object-cover"
+        />
+      ) : isImage(attachment) ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <FileText className="h-6 w-6 text-muted-foreground" />
+      )}
+    </button>
+  );
+};
+
+const AttachmentViewer = ({
+  expenseId,
+  attachment,
+  onDelete,
+  isDeleting,
+}: {
+  expenseId: string;
+  attachment: ExpenseAttachment;
+  onDelete: () => void;
+  isDeleting: boolean;
+}) => {
+  const { url, isLoading } = useAttachmentUrl(expenseId, attachment);
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="truncate pr-6">{attachment.fileName}</DialogTitle>
+        <DialogDescription>
+          Uploaded {formatDate(attachment.uploadedAt)} • {(attachment.size / 1024).toFixed(0)} KB
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="flex items-center justify-center min-h-[300px] max-h-[70vh] overflow-auto rounded-lg bg-muted">
+        {isLoading || !url ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : isImage(attachment) ? (
+          <Image
+            src={url}
+            alt={attachment.fileName}
+            width={800}
+            height={1000}
+            unoptimized
+            className="max-h-[70vh] w-auto h-auto object-contain"
+          />
+        ) : (
+          <iframe src={url} title={attachment.fileName} className="w-full h-[70vh]" />
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="outline"
+          onClick={onDelete}
+          disabled={isDeleting}
+          className="hover:bg-destructive hover:text-destructive-foreground"
+        >
+          {isDeleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+          Delete
+        </Button>
+        {url && (
+          <Button asChild>
+            <a href={url} download={attachment.fileName}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        )}
+      </DialogFooter>
+    </>
+  );
+};
+
+interface ReceiptAttachmentsProps {
+  expense: Expense;
+}
+
+export const ReceiptAttachments = ({ expense }: ReceiptAttachmentsProps) => {
+  const [viewing, setViewing] = useState<ExpenseAttachment | null>(null);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const attachments = expense.attachments || [];
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => ApiService.uploadAttachments(expense.id, files),
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (attachmentId: string) => ApiService.deleteAttachment(expense.id, attachmentId),
+    onSuccess: () => {
+      setViewing(null);
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    // Catch obvious mistakes before uploading; the server re-checks everything
+    const invalid = files.find(
+      (file) => !ATTACHMENT_MIME_TYPES.includes(file.type) || file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024
+    );
+    if (invalid) {
+      setError(`${invalid.name}: upload JPEG, PNG, WebP, GIF or PDF files up to ${MAX_ATTACHMENT_SIZE_MB} MB`);
+      return;
+    }
+
+    uploadMutation.mutate(files);
+  };
+
+  const handleDelete = () => {
+    if (viewing && window.confirm('Delete this receipt?')) {
+      deleteMutation.mutate(viewing.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        {attachments.map((attachment) => (
+          <AttachmentThumbnail
+            key={attachment.id}
+            expenseId={expense.id}
+            attachment={attachment}
+            onClick={() => setViewing(attachment)}
+          />
+        ))}
+
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => fileInput.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="text-muted-foreground"
+        >
+          {uploadMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Paperclip className="h-4 w-4 mr-1" />
+          )}
+          {attachments.length > 0 ? 'Add' : 'Attach receipt'}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept={ATTACHMENT_MIME_TYPES.join(',')}
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          {viewing && (
+            <AttachmentViewer
+              expenseId={expense.id}
+              attachment={viewing}
+              onDelete={handleDelete}
+              isDeleting={deleteMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
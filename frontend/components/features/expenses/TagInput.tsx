@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ApiService } from '@/services/api.service';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+const MAX_TAGS = 10;
+const MAX_SUGGESTIONS = 6;
+
+// Mirrors the backend normalization so chips show what will be stored
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+}
+
+export const TagInput = ({ value, onChange, id }: TagInputProps) => {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  // Existing tags power the autocomplete, most used first
+  const { data: tagStats } = useQuery({
+    queryKey: ['stats', 'tags'],
+    queryFn: () => ApiService.getTagStats(),
+  });
+
+  const query = normalizeTag(input);
+  const suggestions = (tagStats?.tags || [])
+    .map((stat) => stat.tag)
+    .filter((tag) => !value.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag) && value.length < MAX_TAGS) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 p-2 border border-input rounded-lg bg-background focus-within:ring-2 focus-within:ring-ring">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="px-2 py-1 bg-primary/10 text-primary rounded-full text-xs font-medium flex items-center gap-1"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+              className="hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+              <span className="sr-only">Remove {tag}</span>
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          placeholder={value.length === 0 ? 'e.g. trip-goa-2026, wedding' : ''}
+          disabled={value.length >= MAX_TAGS}
+          className="flex-1 min-w-[120px] border-0 shadow-none focus-visible:ring-0 h-7 px-1"
+        />
+      </div>
+
+      {focused && suggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full rounded-lg border bg-popover shadow-md py-1">
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
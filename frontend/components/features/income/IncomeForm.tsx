@@ -0,0 +1,203 @@
+'use client'
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { incomeSchema, type IncomeFormData } from '@/utils/validators';
+import { ApiService } from '@/services/api.service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CURRENCIES, INCOME_CATEGORIES, INCOME_CATEGORY_ICONS } from '@/utils/constants';
+import { Loader2 } from 'lucide-react';
+import { Income } from '@/types/api.types';
+import { getToday } from '@/utils/formatters';
+import { usePreferencesStore } from '@/store';
+import { cn } from '@/lib/utils';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+interface IncomeFormProps {
+  income?: Income;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export const IncomeForm = ({ income, onSuccess, onCancel }: IncomeFormProps) => {
+  const homeCurrency = usePreferencesStore((state) => state.homeCurrency);
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    setValue,
+    formState: { errors },
+  } = useForm<IncomeFormData>({
+    resolver: zodResolver(incomeSchema),
+    // Foreign-currency income is edited in the currency it was entered in
+    defaultValues: income
+      ? {
+          amount: income.originalAmount ?? income.amount,
+          category: income.category,
+          description: income.description,
+          date: income.date,
+          currency: income.currency || homeCurrency,
+        }
+      : {
+          date: getToday(),
+          category: '',
+          currency: homeCurrency,
+        },
+  });
+
+  const selectedCategory = useWatch({ control, name: 'category' });
+
+  const onMutationSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['income'] });
+    queryClient.invalidateQueries({ queryKey: ['cash-flow'] });
+    onSuccess?.();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: IncomeFormData) => ApiService.createIncome(data),
+    onSuccess: onMutationSuccess,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: IncomeFormData) => ApiService.updateIncome(income!.id, data),
+    onSuccess: onMutationSuccess,
+  });
+
+  const onSubmit = (data: IncomeFormData) => {
+    if (income) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const isLoading = createMutation.isPending || updateMutation.isPending;
+  const mutationError = createMutation.error || updateMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{income ? 'Edit Income' : 'Add Income'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="incomeAmount">Amount</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="incomeAmount"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  className="flex-1"
+                  {...register('amount', { valueAsNumber: true })}
+                />
+                <select
+                  aria-label="Currency"
+                  {...register('currency')}
+                  className="w-28 px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+                >
+                  {[homeCurrency, ...CURRENCIES.filter((code) => code !== homeCurrency)].map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {errors.amount && (
+                <p className="text-sm text-destructive">{errors.amount.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="incomeDate">Date</Label>
+              <Input id="incomeDate" type="date" {...register('date')} />
+              {errors.date && (
+                <p className="text-sm text-destructive">{errors.date.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="incomeDescription">Description</Label>
+            <Input
+              id="incomeDescription"
+              placeholder="e.g., March salary"
+              {...register('description')}
+            />
+            {errors.description && (
+              <p className="text-sm text-destructive">{errors.description.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {INCOME_CATEGORIES.map((category) => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => setValue('category', category, { shouldValidate: true })}
+                  className={cn(
+                    "flex flex-col items-center justify-center p-3 rounded-lg border-2 transition-all hover:scale-105",
+                    selectedCategory === category
+                      ? "border-primary bg-primary/10 shadow-md"
+                      : "border-border bg-background hover:border-primary/50"
+                  )}
+                >
+                  <span className="text-2xl mb-1">{INCOME_CATEGORY_ICONS[category]}</span>
+                  <span className="text-xs font-medium">{category}</span>
+                </button>
+              ))}
+            </div>
+            {errors.category && (
+              <p className="text-sm text-destructive">{errors.category.message}</p>
+            )}
+          </div>
+
+          {mutationError && (
+            <p className="text-sm text-destructive">{getErrorMessage(mutationError)}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              onClick={handleSubmit(onSubmit)}
+              className="flex-1"
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                income ? 'Update Income' : 'Add Income'
+              )}
+            </Button>
+            {onCancel && (
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
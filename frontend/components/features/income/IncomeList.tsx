@@ -0,0 +1,91 @@
+'use client'
+
+import { Income } from '@/types/api.types';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { INCOME_CATEGORY_ICONS } from '@/utils/constants';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { Edit, Repeat, Trash2 } from 'lucide-react';
+
+interface IncomeListProps {
+  income: Income[];
+  isLoading: boolean;
+  onEdit: (income: Income) => void;
+  onDelete: (id: string) => void;
+}
+
+export const IncomeList = ({ income, isLoading, onEdit, onDelete }: IncomeListProps) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (income.length === 0) {
+    return (
+      <div className="text-center py-16 bg-muted/50 rounded-lg border-2 border-dashed">
+        <div className="mx-auto max-w-md">
+          <div className="text-6xl mb-4">💰</div>
+          <h3 className="text-lg font-semibold mb-2">No income yet</h3>
+          <p className="text-muted-foreground">
+            Record your salary, freelance work or refunds to see your cash flow.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {income.map((entry) => (
+        <Card key={entry.id} className="p-4 border-2">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="w-10 h-10 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center text-xl flex-shrink-0">
+                {INCOME_CATEGORY_ICONS[entry.category] || '💰'}
+              </div>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-lg font-bold text-green-600">
+                    +{formatCurrency(entry.amount)}
+                  </span>
+                  {entry.currency && entry.currency !== entry.homeCurrency && entry.originalAmount !== undefined && (
+                    <span className="text-sm text-muted-foreground" title={`Rate: ${entry.exchangeRate}`}>
+                      {formatCurrency(entry.originalAmount, entry.currency)}
+                    </span>
+                  )}
+                  <span className="px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-full text-xs font-medium">
+                    {entry.category}
+                  </span>
+                  {entry.recurringExpenseId && (
+                    <span title="Generated from a recurring template">
+                      <Repeat className="h-3 w-3 text-muted-foreground" />
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-foreground/90 truncate">{entry.description}</p>
+                <p className="text-xs text-muted-foreground">{formatDate(entry.date)}</p>
+              </div>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button variant="ghost" size="icon" onClick={() => onEdit(entry)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDelete(entry.id)}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+'use client'
+
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ApiService } from '@/services/api.service';
+import { AppNotification } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, BellRing, CheckCheck, Repeat, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const TYPE_ICONS = {
+  'budget-alert': TrendingUp,
+  'recurring-reminder': Repeat,
+};
+
+// Bell in the header with the latest notifications; opening one marks it read
+export const NotificationBell = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => ApiService.getNotifications({ limit: 20 }),
+    refetchInterval: 60000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: (id: string) => ApiService.updateNotification(id, true),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: () => ApiService.markAllNotificationsRead(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.read) {
+      readMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          {unreadCount > 0 ? <BellRing className="h-5 w-5" /> : <Bell className="h-5 w-5" />}
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => readAllMutation.mutate()}
+              disabled={readAllMutation.isPending}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-sm text-center text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        ) : (
+          notifications.map((notification) => {
+            const Icon = TYPE_ICONS[notification.type] || Bell;
+            return (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => handleSelect(notification)}
+                className={cn('items-start gap-3 py-2', !notification.read && 'bg-primary/5')}
+              >
+                <Icon className="h-4 w-4 mt-0.5" />
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <p className={cn('text-sm leading-snug', !notification.read && 'font-semibold')}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!notification.read && (
+                  <span className="mt-1.5 h-2 w-2 rounded-full bg-primary shrink-0" aria-label="Unread" />
+                )}
+              </DropdownMenuItem>
+            );
+          })
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { Expense } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { CATEGORY_ICONS } from '@/utils/constants';
+import { Check, Inbox } from 'lucide-react';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+// Expenses generated by estimated templates, waiting for the real amount
+export const PendingConfirmations = () => {
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['pending-confirmations'],
+    queryFn: () => ApiService.getPendingConfirmations(),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: ({ id, amount }: { id: string; amount: number }) =>
+      ApiService.confirmGeneratedAmount(id, amount),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['pending-confirmations'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-flow'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['current-budget'] });
+      setAmounts((current) => {
+        const next = { ...current };
+        delete next[id];
+        return next;
+      });
+    },
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  // Nothing to confirm: keep the page uncluttered
+  if (!data || data.count === 0) {
+    return null;
+  }
+
+  const getValue = (expense: Expense) => amounts[expense.id] ?? String(expense.amount);
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Confirm Amounts ({data.count})
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          These bills were generated with an estimate and don&apos;t count toward budgets until you enter the real amount
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {data.pending.map((expense) => {
+            const value = getValue(expense);
+            const amount = parseFloat(value);
+
+            return (
+              <div
+                key={expense.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg bg-muted/50"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">{CATEGORY_ICONS[expense.category] || '📌'}</span>
+                  <div>
+                    <p className="font-medium">{expense.description}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(expense.date)} • estimated {formatCurrency(expense.estimatedAmount ?? expense.amount)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={value}
+                    onChange={(e) => setAmounts({ ...amounts, [expense.id]: e.target.value })}
+                    className="h-8 w-32"
+                    aria-label={`Actual amount for ${expense.description}`}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => confirmMutation.mutate({ id: expense.id, amount })}
+                    disabled={confirmMutation.isPending || !(amount > 0)}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,41 @@
+'use client'
+
+import { PriceHistoryEntry } from '@/types/api.types';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { LineChart, Line, Tooltip, YAxis } from 'recharts';
+
+interface PriceSparklineProps {
+  history: PriceHistoryEntry[];
+}
+
+// Tiny chart of a template's price changes; flagged changes get a dot
+export const PriceSparkline = ({ history }: PriceSparklineProps) => {
+  if (history.length < 2) return null;
+
+  const rising = history[history.length - 1].amount > history[0].amount;
+
+  return (
+    <LineChart width={120} height={32} data={history} aria-label="Price history">
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <Tooltip
+        cursor={false}
+        formatter={(value) => [formatCurrency(Number(value)), 'Amount']}
+        labelFormatter={(_, payload) => (payload?.[0] ? formatDate(payload[0].payload.date) : '')}
+        wrapperStyle={{ zIndex: 10 }}
+      />
+      <Line
+        type="stepAfter"
+        dataKey="amount"
+        stroke={rising ? '#dc2626' : '#16a34a'}
+        strokeWidth={2}
+        isAnimationActive={false}
+        dot={(props) => {
+          const { cx, cy, index, payload } = props;
+          return payload.flagged
+            ? <circle key={index} cx={cx} cy={cy} r={3} fill={rising ? '#dc2626' : '#16a34a'} />
+            : <g key={index} />;
+        }}
+      />
+    </LineChart>
+  );
+};
@@ -0,0 +1,232 @@
+'use client'
+
+import { useState } from 'react';
+import { RecurrenceRule, Weekday } from '@/types/api.types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FREQUENCIES, RECURRENCE_UNITS, SET_POSITIONS, WEEKDAYS } from '@/utils/constants';
+import { describeRecurrence, getFrequencyLabel, ordinal, ruleFromFrequency } from '@/utils/recurrence';
+import { Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const MONTH_DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+type MonthlyMode = 'start' | 'days' | 'position';
+
+const getMonthlyMode = (rule: RecurrenceRule): MonthlyMode => {
+  if (rule.bySetPos) return 'position';
+  if (rule.byMonthDay) return 'days';
+  return 'start';
+};
+
+const toggleItem = <T,>(items: T[] | undefined, item: T): T[] | undefined => {
+  const next = items?.includes(item) ? items.filter((i) => i !== item) : [...(items || []), item];
+  return next.length > 0 ? next : undefined;
+};
+
+const chipClass = (selected: boolean) => cn(
+  "px-2 py-1 rounded-md border-2 text-xs font-medium transition-all",
+  selected
+    ? "border-primary bg-primary/10 shadow-md"
+    : "border-border bg-background hover:border-primary/50"
+);
+
+const selectClass = 'w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring';
+
+interface RecurrenceRuleBuilderProps {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  startDate?: string;
+}
+
+export const RecurrenceRuleBuilder = ({ value, onChange, startDate }: RecurrenceRuleBuilderProps) => {
+  const [isCustom, setIsCustom] = useState(getFrequencyLabel(value) === 'custom');
+  const selectedPreset = isCustom ? 'custom' : getFrequencyLabel(value);
+  const monthlyMode = getMonthlyMode(value);
+
+  // Presets replace the whole rule but keep the occurrence limit
+  const handlePresetSelect = (preset: typeof FREQUENCIES[number]['value']) => {
+    if (preset === 'custom') {
+      setIsCustom(true);
+      return;
+    }
+    setIsCustom(false);
+    onChange({ ...ruleFromFrequency(preset), count: value.count });
+  };
+
+  const handleUnitChange = (freq: RecurrenceRule['freq']) => {
+    onChange({ freq, interval: value.interval, count: value.count });
+  };
+
+  const handleMonthlyModeChange = (mode: MonthlyMode) => {
+    const base = { freq: value.freq, interval: value.interval, count: value.count };
+    if (mode === 'days') onChange({ ...base, byMonthDay: [1] });
+    else if (mode === 'position') onChange({ ...base, byDay: BUSINESS_DAYS, bySetPos: [-1] });
+    else onChange(base);
+  };
+
+  const positionDay = value.byDay && value.byDay.length === 1 ? value.byDay[0] : 'business';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
+        {FREQUENCIES.map((freq) => (
+          <button
+            key={freq.value}
+            type="button"
+            onClick={() => handlePresetSelect(freq.value)}
+            className={cn(
+              "flex flex-col items-center justify-center p-3 rounded-lg border-2 transition-all hover:scale-105",
+              selectedPreset === freq.value
+                ? "border-primary bg-primary/10 shadow-md"
+                : "border-border bg-background hover:border-primary/50"
+            )}
+          >
+            <span className="text-xl mb-1">{freq.icon}</span>
+            <span className="text-xs font-medium text-center">{freq.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {isCustom && (
+        <div className="space-y-3 p-3 rounded-lg border bg-muted/30">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="recurrenceInterval" className="shrink-0">Every</Label>
+            <Input
+              id="recurrenceInterval"
+              type="number"
+              min="1"
+              max="365"
+              className="w-20"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+            <select
+              value={value.freq}
+              onChange={(e) => handleUnitChange(e.target.value as RecurrenceRule['freq'])}
+              className={selectClass}
+            >
+              {RECURRENCE_UNITS.map((unit) => (
+                <option key={unit.value} value={unit.value}>
+                  {value.interval > 1 ? unit.plural : unit.singular}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {value.freq === 'WEEKLY' && (
+            <div className="space-y-2">
+              <Label>On</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => onChange({ ...value, byDay: toggleItem(value.byDay, day.value) })}
+                    className={chipClass(!!value.byDay?.includes(day.value))}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+              {!value.byDay && (
+                <p className="text-xs text-muted-foreground">Repeats on the start date&apos;s weekday</p>
+              )}
+            </div>
+          )}
+
+          {value.freq === 'MONTHLY' && (
+            <div className="space-y-2">
+              <select
+                value={monthlyMode}
+                onChange={(e) => handleMonthlyModeChange(e.target.value as MonthlyMode)}
+                className={selectClass}
+              >
+                <option value="start">On the start date&apos;s day of the month</option>
+                <option value="days">On specific days of the month</option>
+                <option value="position">On a weekday of the month</option>
+              </select>
+
+              {monthlyMode === 'days' && (
+                <div className="flex flex-wrap gap-1">
+                  {MONTH_DAYS.map((day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => onChange({ ...value, byMonthDay: toggleItem(value.byMonthDay, day) })}
+                      className={chipClass(!!value.byMonthDay?.includes(day))}
+                    >
+                      {ordinal(day)}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, byMonthDay: toggleItem(value.byMonthDay, -1) })}
+                    className={chipClass(!!value.byMonthDay?.includes(-1))}
+                  >
+                    Last day
+                  </button>
+                </div>
+              )}
+
+              {monthlyMode === 'position' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={value.bySetPos?.[0] ?? -1}
+                    onChange={(e) => onChange({ ...value, bySetPos: [Number(e.target.value)] })}
+                    className={selectClass}
+                  >
+                    {SET_POSITIONS.map((pos) => (
+                      <option key={pos.value} value={pos.value}>
+                        {pos.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={positionDay}
+                    onChange={(e) => onChange({
+                      ...value,
+                      byDay: e.target.value === 'business' ? BUSINESS_DAYS : [e.target.value as Weekday],
+                    })}
+                    className={selectClass}
+                  >
+                    <option value="business">Business day</option>
+                    {WEEKDAYS.map((day) => (
+                      <option key={day.value} value={day.value}>
+                        {day.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor="recurrenceCount" className="shrink-0">Stop after</Label>
+        <Input
+          id="recurrenceCount"
+          type="number"
+          min="1"
+          max="1000"
+          placeholder="∞"
+          className="w-24"
+          value={value.count ?? ''}
+          onChange={(e) => {
+            const count = parseInt(e.target.value);
+            onChange({ ...value, count: count > 0 ? count : undefined });
+          }}
+        />
+        <span className="text-sm text-muted-foreground">occurrences (optional)</span>
+      </div>
+
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Repeat className="h-4 w-4" />
+        {describeRecurrence(value, startDate)}
+      </p>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { recurringExpenseSchema, type RecurringExpenseFormData } from '@/utils/validators';
@@ -10,9 +10,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { CATEGORIES, FREQUENCIES, CATEGORY_ICONS } from '@/utils/constants';
+import { CATEGORIES, CATEGORY_ICONS, INCOME_CATEGORIES, INCOME_CATEGORY_ICONS } from '@/utils/constants';
 import { Sparkles, Loader2 } from 'lucide-react';
-import { RecurringExpense } from '@/types/api.types';
+import { RecurrenceRule, RecurringAmountMode, RecurringExpense, RecurringType } from '@/types/api.types';
+import { RecurrenceRuleBuilder } from './RecurrenceRuleBuilder';
+import { SchedulePreview } from './SchedulePreview';
+import { getTemplateRule, ruleFromFrequency } from '@/utils/recurrence';
+import { usePreferencesStore } from '@/store';
+import { getToday } from '@/utils/formatters';
 import { cn } from '@/lib/utils';
 
 interface RecurringExpenseFormProps {
@@ -22,41 +27,50 @@ interface RecurringExpenseFormProps {
 }
 
 export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: RecurringExpenseFormProps) => {
+  const [selectedType, setSelectedType] = useState<RecurringType>(expense?.type || 'expense');
+  const [amountMode, setAmountMode] = useState<RecurringAmountMode>(expense?.amountMode || 'fixed');
   const [selectedCategory, setSelectedCategory] = useState(expense?.category || '');
-  const [selectedFrequency, setSelectedFrequency] = useState<any>(expense?.frequency || 'monthly');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(
+    expense ? getTemplateRule(expense) : ruleFromFrequency('monthly')
+  );
   const [aiLoading, setAiLoading] = useState(false);
+  const homeCurrency = usePreferencesStore((state) => state.homeCurrency);
   const queryClient = useQueryClient();
 
   const {
     register,
     handleSubmit,
     watch,
+    control,
     setValue,
     formState: { errors },
   } = useForm<RecurringExpenseFormData>({
     resolver: zodResolver(recurringExpenseSchema),
     defaultValues: expense || {
       templateName: '', // ✅ Changed from 'name'
+      type: 'expense',
       amount: 0,
       description: '',
       category: '',
-      frequency: 'monthly',
-      startDate: new Date().toISOString().split('T')[0],
+      startDate: getToday(),
       endDate: '',
       isActive: true,
       autoGenerate: true,
       reminderDays: 0, // ✅ Added
+      priceAlertPercent: 10,
     },
   });
 
   const description = watch('description');
+  const startDate = useWatch({ control, name: 'startDate' });
+  const endDate = useWatch({ control, name: 'endDate' });
+  const amount = useWatch({ control, name: 'amount' });
 
   useEffect(() => {
     if (expense) {
       setSelectedCategory(expense.category);
-      setSelectedFrequency(expense.frequency);
+      setRecurrence(getTemplateRule(expense));
       setValue('category', expense.category);
-      setValue('frequency', expense.frequency);
     }
   }, [expense, setValue]);
 
@@ -112,18 +126,27 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
     setValue('category', category);
   };
 
-  const handleFrequencySelect = (frequency: string) => {
-    setSelectedFrequency(frequency);
-    setValue('frequency', frequency as any);
+  // Expense and income templates use different category sets
+  const handleTypeSelect = (type: RecurringType) => {
+    if (type === selectedType) return;
+    setSelectedType(type);
+    setValue('type', type);
+    setAmountMode('fixed');
+    setSelectedCategory('');
+    setValue('category', '');
   };
 
   const onSubmit = (data: RecurringExpenseFormData) => {
     const submitData = {
       ...data,
+      type: selectedType,
+      amountMode: selectedType === 'income' ? 'fixed' : amountMode,
       category: selectedCategory,
-      frequency: selectedFrequency,
+      frequency: undefined, // derived from the rule by the backend
+      recurrence,
       endDate: data.endDate && data.endDate.trim() ? data.endDate : undefined,
       reminderDays: data.reminderDays || 0, // ✅ Default to 0
+      priceAlertPercent: Number.isFinite(data.priceAlertPercent) ? data.priceAlertPercent : undefined,
     };
 
     console.log('📋 Submitting:', submitData);
@@ -146,16 +169,34 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
     <Card>
       <CardHeader>
         <CardTitle>
-          {expense ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+          {expense ? 'Edit Recurring' : 'Add Recurring'} {selectedType === 'income' ? 'Income' : 'Expense'}
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['expense', 'income'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => handleTypeSelect(type)}
+                className={cn(
+                  "p-2 rounded-lg border-2 text-sm font-medium transition-all",
+                  selectedType === type
+                    ? "border-primary bg-primary/10 shadow-md"
+                    : "border-border bg-background hover:border-primary/50"
+                )}
+              >
+                {type === 'expense' ? 'Money out (expense)' : 'Money in (income)'}
+              </button>
+            ))}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="templateName">Template Name *</Label>
             <Input
               id="templateName"
-              placeholder="e.g., Netflix Subscription"
+              placeholder={selectedType === 'income' ? 'e.g., Monthly Salary' : 'e.g., Netflix Subscription'}
               {...register('templateName')} // ✅ Changed from 'name'
             />
             {errors.templateName && (
@@ -165,7 +206,9 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount ($) *</Label>
+              <Label htmlFor="amount">
+                {amountMode === 'estimated' ? 'Starting estimate' : 'Amount'} ({homeCurrency}) *
+              </Label>
               <Input
                 id="amount"
                 type="number"
@@ -191,6 +234,34 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
             </div>
           </div>
 
+          {selectedType === 'expense' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                {(['fixed', 'estimated'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setAmountMode(mode)}
+                    className={cn(
+                      "p-2 rounded-lg border-2 text-sm font-medium transition-all",
+                      amountMode === mode
+                        ? "border-primary bg-primary/10 shadow-md"
+                        : "border-border bg-background hover:border-primary/50"
+                    )}
+                  >
+                    {mode === 'fixed' ? 'Same amount every time' : 'Amount varies (estimate)'}
+                  </button>
+                ))}
+              </div>
+              {amountMode === 'estimated' && (
+                <p className="text-xs text-muted-foreground">
+                  Each bill is estimated from the last 3 amounts and waits for you to confirm the real figure
+                  before it counts toward budgets
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="description">Description *</Label>
             <Input
@@ -206,24 +277,26 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>Category *</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={handleAISuggest}
-                disabled={aiLoading || !description}
-              >
-                {aiLoading ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Sparkles className="h-4 w-4 mr-2" />
-                )}
-                AI
-              </Button>
+              {selectedType === 'expense' && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAISuggest}
+                  disabled={aiLoading || !description}
+                >
+                  {aiLoading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4 mr-2" />
+                  )}
+                  AI
+                </Button>
+              )}
             </div>
             
             <div className="grid grid-cols-4 gap-2">
-              {CATEGORIES.map((category) => (
+              {(selectedType === 'income' ? INCOME_CATEGORIES : CATEGORIES).map((category) => (
                 <button
                   key={category}
                   type="button"
@@ -235,7 +308,7 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
                       : "border-border bg-background hover:border-primary/50"
                   )}
                 >
-                  <span className="text-2xl mb-1">{CATEGORY_ICONS[category]}</span>
+                  <span className="text-2xl mb-1">{CATEGORY_ICONS[category] || INCOME_CATEGORY_ICONS[category]}</span>
                   <span className="text-xs font-medium">{category}</span>
                 </button>
               ))}
@@ -246,25 +319,8 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
           </div>
 
           <div className="space-y-2">
-            <Label>Frequency *</Label>
-            <div className="grid grid-cols-5 gap-2">
-              {FREQUENCIES.map((freq) => (
-                <button
-                  key={freq.value}
-                  type="button"
-                  onClick={() => handleFrequencySelect(freq.value)}
-                  className={cn(
-                    "flex flex-col items-center justify-center p-3 rounded-lg border-2 transition-all hover:scale-105",
-                    selectedFrequency === freq.value
-                      ? "border-primary bg-primary/10 shadow-md"
-                      : "border-border bg-background hover:border-primary/50"
-                  )}
-                >
-                  <span className="text-xl mb-1">{freq.icon}</span>
-                  <span className="text-xs font-medium text-center">{freq.label}</span>
-                </button>
-              ))}
-            </div>
+            <Label>Repeats *</Label>
+            <RecurrenceRuleBuilder value={recurrence} onChange={setRecurrence} startDate={startDate} />
           </div>
 
           <div className="space-y-2">
@@ -276,6 +332,16 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
             />
           </div>
 
+          <SchedulePreview
+            template={{
+              startDate,
+              endDate: endDate || undefined,
+              recurrence,
+              amount: Number.isFinite(amount) ? amount : undefined,
+              after: expense?.lastGenerated || undefined,
+            }}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="reminderDays">Reminder Days Before (Optional)</Label>
             <Input
@@ -291,6 +357,22 @@ export const RecurringExpenseForm = ({ expense, onSuccess, onCancel }: Recurring
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="priceAlertPercent">Price Change Alert (%)</Label>
+            <Input
+              id="priceAlertPercent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              placeholder="10"
+              {...register('priceAlertPercent', { valueAsNumber: true })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Flag a charge that differs from the previous one by more than this
+            </p>
+          </div>
+
           <div className="flex items-center gap-4">
             <label className="flex items-center gap-2 cursor-pointer">
               <input
@@ -1,12 +1,16 @@
 'use client'
 
+import Link from 'next/link';
 import { RecurringExpense } from '@/types/api.types';
 import { formatCurrency, formatDate } from '@/utils/formatters';
-import { CATEGORY_ICONS } from '@/utils/constants';
+import { CATEGORY_ICONS, INCOME_CATEGORY_ICONS } from '@/utils/constants';
+import { describeRecurrence, getTemplateRule } from '@/utils/recurrence';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Edit, Trash2, Play, Pause, Calendar } from 'lucide-react';
+import { Edit, Trash2, Play, Pause, Calendar, Repeat, Bell, History } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { PriceSparkline } from './PriceSparkline';
 
 interface RecurringExpenseItemProps {
   expense: RecurringExpense;
@@ -23,13 +27,16 @@ export const RecurringExpenseItem = ({
   onToggleActive,
   onGenerate,
 }: RecurringExpenseItemProps) => {
+  const priceHistory = expense.priceHistory || [];
+  const lastChange = priceHistory.length > 1 ? priceHistory[priceHistory.length - 1] : null;
+
   return (
     <Card className="p-5 hover:shadow-lg transition-all duration-200 border-2">
       <div className="flex items-start justify-between gap-4">
         <div className="flex gap-4 flex-1 min-w-0">
           <div className="flex-shrink-0">
             <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center text-2xl">
-              {CATEGORY_ICONS[expense.category] || '📌'}
+              {CATEGORY_ICONS[expense.category] || INCOME_CATEGORY_ICONS[expense.category] || '📌'}
             </div>
           </div>
 
@@ -48,11 +55,23 @@ export const RecurringExpenseItem = ({
                   Auto-generate
                 </Badge>
               )}
+              {expense.type === 'income' && (
+                <Badge className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30">
+                  Income
+                </Badge>
+              )}
+              {expense.amountMode === 'estimated' && (
+                <Badge variant="outline" className="text-xs">
+                  Estimated
+                </Badge>
+              )}
             </div>
 
             <div className="space-y-1 mb-3">
               <div className="flex items-center gap-2">
-                <span className="text-2xl font-bold text-foreground">
+                <span className={cn('text-2xl font-bold', expense.type === 'income' ? 'text-green-600' : 'text-foreground')}>
+                  {expense.type === 'income' && '+'}
+                  {expense.amountMode === 'estimated' && '~'}
                   {formatCurrency(expense.amount)}
                 </span>
                 <span className="px-2 py-1 bg-primary/10 text-primary rounded-full text-xs font-medium">
@@ -62,13 +81,38 @@ export const RecurringExpenseItem = ({
                   {expense.category}
                 </span>
               </div>
+              {lastChange && (
+                <div className="flex items-center gap-2">
+                  <PriceSparkline history={priceHistory} />
+                  {lastChange.changePercent !== null && (
+                    <span
+                      className={cn(
+                        'text-xs font-medium',
+                        lastChange.flagged
+                          ? lastChange.changePercent > 0 ? 'text-red-600' : 'text-green-600'
+                          : 'text-muted-foreground'
+                      )}
+                      title={`Was ${formatCurrency(lastChange.previousAmount ?? 0)} until ${formatDate(lastChange.date)}`}
+                    >
+                      {lastChange.changePercent > 0 ? '↑' : '↓'}
+                      {Math.abs(lastChange.changePercent)}% on {formatDate(lastChange.date)}
+                    </span>
+                  )}
+                </div>
+              )}
               <p className="text-sm text-foreground/90">{expense.description}</p>
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Repeat className="h-4 w-4" />
+                {describeRecurrence(getTemplateRule(expense), expense.startDate)}
+              </p>
             </div>
 
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
               <div className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
-                <span>Next: {formatDate(expense.nextOccurrence)}</span>
+                <span>
+                  {expense.nextOccurrence ? `Next: ${formatDate(expense.nextOccurrence)}` : 'Schedule ended'}
+                </span>
               </div>
               {expense.lastGenerated && (
                 <span>Last: {formatDate(expense.lastGenerated)}</span>
@@ -76,6 +120,12 @@ export const RecurringExpenseItem = ({
               {expense.endDate && (
                 <span>Ends: {formatDate(expense.endDate)}</span>
               )}
+              {!!expense.reminderDays && (
+                <span className="flex items-center gap-1">
+                  <Bell className="h-4 w-4" />
+                  {expense.reminderDays} {expense.reminderDays === 1 ? 'day' : 'days'} before
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -112,11 +162,18 @@ export const RecurringExpenseItem = ({
             size="sm"
             variant="outline"
             onClick={() => onGenerate(expense.id)}
+            disabled={!expense.nextOccurrence}
             className="w-full"
           >
             <Play className="h-4 w-4 mr-1" />
             Generate
           </Button>
+          <Link href={`/recurring/${expense.id}`}>
+            <Button size="sm" variant="outline" className="w-full">
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Button>
+          </Link>
           <Button
             size="sm"
             variant="outline"
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { RecurringHistoryEntry, RecurringType } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { CATEGORIES, INCOME_CATEGORIES } from '@/utils/constants';
+import { cn } from '@/lib/utils';
+import { Tags, Unlink } from 'lucide-react';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+interface RecurringLedgerProps {
+  templateId: string;
+  type: RecurringType;
+  entries: RecurringHistoryEntry[];
+}
+
+// Everything a template produced, with bulk re-categorize and unlink
+export const RecurringLedger = ({ templateId, type, entries }: RecurringLedgerProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [category, setCategory] = useState('');
+  const queryClient = useQueryClient();
+
+  const categories: readonly string[] = type === 'income' ? INCOME_CATEGORIES : CATEGORIES;
+  const allSelected = entries.length > 0 && selected.length === entries.length;
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['recurring-history', templateId] });
+    queryClient.invalidateQueries({ queryKey: [type === 'income' ? 'income' : 'expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['stats'] });
+    queryClient.invalidateQueries({ queryKey: ['cash-flow'] });
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['current-budget'] });
+    setSelected([]);
+    alert(data.message);
+  };
+
+  const recategorizeMutation = useMutation({
+    mutationFn: () => ApiService.recategorizeRecurringHistory(templateId, selected, category),
+    onSuccess,
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: () => ApiService.unlinkRecurringHistory(templateId, selected),
+    onSuccess,
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const isBusy = recategorizeMutation.isPending || unlinkMutation.isPending;
+
+  const toggle = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter((item) => item !== id) : [...selected, id]);
+  };
+
+  const handleUnlink = () => {
+    if (window.confirm(`Unlink ${selected.length} entries? They stay as regular ${type === 'income' ? 'income' : 'expenses'}.`)) {
+      unlinkMutation.mutate();
+    }
+  };
+
+  return (
+    <Card className="border-2">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl">Ledger</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {entries.length} {type === 'income' ? 'income entries' : 'expenses'} from this template
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selected.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg bg-muted/50">
+            <span className="text-sm font-medium">{selected.length} selected</span>
+            <div className="flex items-center gap-2 flex-1">
+              <select
+                aria-label="New category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring"
+              >
+                <option value="">Move to category</option>
+                {categories.map((cat) => (
+                  <option key={cat} value={cat}>
+                    {cat}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                onClick={() => recategorizeMutation.mutate()}
+                disabled={!category || isBusy}
+              >
+                <Tags className="h-4 w-4 mr-1" />
+                Re-categorize
+              </Button>
+            </div>
+            <Button size="sm" variant="outline" onClick={handleUnlink} disabled={isBusy}>
+              <Unlink className="h-4 w-4 mr-1" />
+              Unlink
+            </Button>
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nothing generated from this template yet
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-3 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? [] : entries.map((entry) => entry.id))}
+                      className="w-4 h-4"
+                    />
+                  </th>
+                  <th className="py-2 pr-3 font-medium">Date</th>
+                  <th className="py-2 pr-3 font-medium">Description</th>
+                  <th className="py-2 pr-3 font-medium">Category</th>
+                  <th className="py-2 text-right font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    className={cn('border-b last:border-0', selected.includes(entry.id) && 'bg-primary/5')}
+                  >
+                    <td className="py-2 pr-3">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${formatDate(entry.date)}`}
+                        checked={selected.includes(entry.id)}
+                        onChange={() => toggle(entry.id)}
+                        className="w-4 h-4"
+                      />
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {formatDate(entry.date)}
+                      {entry.occurrenceDate && entry.occurrenceDate !== entry.date && (
+                        <span className="block text-xs text-muted-foreground">
+                          moved from {formatDate(entry.occurrenceDate)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">{entry.description}</td>
+                    <td className="py-2 pr-3">{entry.category}</td>
+                    <td className="py-2 text-right whitespace-nowrap font-medium">
+                      {entry.status === 'pending' && (
+                        <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700 dark:bg-amber-900/30">
+                          Pending
+                        </span>
+                      )}
+                      {entry.status === 'pending' && '~'}
+                      {formatCurrency(entry.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,8 +2,8 @@
 
 import { RecurringExpensesResponse } from '@/types/api.types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { formatCurrency } from '@/utils/formatters';
-import { Repeat, CheckCircle, XCircle, TrendingUp } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { Repeat, CheckCircle, XCircle, TrendingUp, AlertTriangle } from 'lucide-react';
 
 interface RecurringStatsCardsProps {
   data: RecurringExpensesResponse | null;
@@ -33,32 +33,59 @@ export const RecurringStatsCards = ({ data }: RecurringStatsCardsProps) => {
     },
     {
       title: 'Est. Monthly Cost',
-      value: formatCurrency(data.summary.estimatedMonthly),
+      value: formatCurrency(data.summary.estimatedMonthlyTotal),
       icon: TrendingUp,
       gradient: 'from-purple-500 to-purple-600',
     },
   ];
 
+  const priceIncreases = data.summary.priceIncreases || [];
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      {cards.map((card, index) => (
-        <Card
-          key={index}
-          className={`bg-gradient-to-br ${card.gradient} text-white border-0 shadow-lg hover:shadow-xl transition-shadow`}
-        >
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-            <CardTitle className="text-sm font-medium opacity-90">
-              {card.title}
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {cards.map((card, index) => (
+          <Card
+            key={index}
+            className={`bg-gradient-to-br ${card.gradient} text-white border-0 shadow-lg hover:shadow-xl transition-shadow`}
+          >
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-sm font-medium opacity-90">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-5 w-5 opacity-90" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-4xl font-bold tracking-tight">
+                {card.value}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {priceIncreases.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50 dark:bg-amber-900/20">
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0 pb-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            <CardTitle className="text-base">
+              {priceIncreases.length === 1 ? '1 price increase' : `${priceIncreases.length} price increases`} in the last 90 days
             </CardTitle>
-            <card.icon className="h-5 w-5 opacity-90" />
           </CardHeader>
-          <CardContent>
-            <div className="text-4xl font-bold tracking-tight">
-              {card.value}
-            </div>
+          <CardContent className="space-y-2">
+            {priceIncreases.map((increase) => (
+              <div key={increase.id} className="flex items-center justify-between gap-4 text-sm">
+                <span className="font-medium truncate">{increase.templateName}</span>
+                <span className="text-muted-foreground flex-shrink-0">
+                  <span className="font-semibold text-red-600">↑ {increase.changePercent}%</span>{' '}
+                  {formatCurrency(increase.previousAmount)} → {formatCurrency(increase.amount)} since{' '}
+                  {formatDate(increase.date)}
+                </span>
+              </div>
+            ))}
           </CardContent>
         </Card>
-      ))}
+      )}
     </div>
   );
 };
\ No newline at end of file
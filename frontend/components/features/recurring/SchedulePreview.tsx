@@ -0,0 +1,67 @@
+'use client'
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { SchedulePreviewDto } from '@/types/api.types';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { CalendarDays, Loader2 } from 'lucide-react';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+interface SchedulePreviewProps {
+  template: SchedulePreviewDto;
+  count?: number;
+}
+
+// Live list of the dates a template will produce, refreshed as the form changes
+export const SchedulePreview = ({ template, count = 12 }: SchedulePreviewProps) => {
+  const { data, isFetching, isError, error } = useQuery({
+    queryKey: ['recurring-schedule-preview', template, count],
+    queryFn: () => ApiService.previewRecurringSchedule(template, count),
+    enabled: !!template.startDate,
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border bg-muted/30">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <CalendarDays className="h-4 w-4" />
+          Upcoming dates
+        </p>
+        {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {isError ? (
+        <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+      ) : !data ? (
+        <p className="text-sm text-muted-foreground">Pick a start date to see the schedule</p>
+      ) : data.occurrences.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This schedule produces no dates before its end</p>
+      ) : (
+        <>
+          <ul className="max-h-48 overflow-y-auto divide-y text-sm">
+            {data.occurrences.map((occurrence) => (
+              <li key={occurrence.date} className="flex items-center justify-between py-1">
+                <span>{formatDate(occurrence.date, 'EEE, MMM d, yyyy')}</span>
+                <span className="text-muted-foreground">{formatCurrency(occurrence.amount)}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {data.occurrences.length} {data.occurrences.length === 1 ? 'occurrence' : 'occurrences'} •{' '}
+            {formatCurrency(data.total)}
+            {data.hasMore ? ' • continues after this' : ' • schedule ends here'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
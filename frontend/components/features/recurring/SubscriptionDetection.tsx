@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { DetectedSubscription } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { CATEGORY_ICONS, FREQUENCIES } from '@/utils/constants';
+import { Check, Loader2, Radar, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+const confidenceClass = (confidence: number) => {
+  if (confidence >= 0.8) return 'bg-green-100 text-green-700 dark:bg-green-900/30';
+  if (confidence >= 0.65) return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30';
+  return 'bg-muted text-muted-foreground';
+};
+
+// Repeating charges with no template yet, accepted in one click
+export const SubscriptionDetection = () => {
+  const [isScanning, setIsScanning] = useState(false);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+
+  const { data, isFetching, isError, error } = useQuery({
+    queryKey: ['detected-subscriptions'],
+    queryFn: () => ApiService.detectSubscriptions(),
+    enabled: isScanning,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (candidate: DetectedSubscription) =>
+      ApiService.acceptDetectedSubscription({
+        templateName: candidate.templateName,
+        type: 'expense',
+        amount: candidate.amount,
+        amountMode: candidate.amountMode,
+        category: candidate.category,
+        description: candidate.description,
+        recurrence: candidate.recurrence,
+        startDate: candidate.startDate,
+        expenseIds: candidate.expenseIds,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['detected-subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring-expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['upcoming-recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const candidates = data?.candidates.filter((candidate) => !dismissed.includes(candidate.merchant)) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            <Radar className="h-5 w-5" />
+            Detected Subscriptions
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Find repeating charges in your expenses that aren&apos;t set up as recurring yet
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => (isScanning ? queryClient.invalidateQueries({ queryKey: ['detected-subscriptions'] }) : setIsScanning(true))}
+          disabled={isFetching}
+        >
+          {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {isScanning ? 'Scan again' : 'Scan expenses'}
+        </Button>
+      </CardHeader>
+
+      {isScanning && (
+        <CardContent>
+          {isError ? (
+            <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+          ) : !data ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Scanning your expenses...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No new subscriptions found in {data.analyzed} expenses since {formatDate(data.from)}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {candidates.map((candidate) => (
+                <div
+                  key={candidate.merchant}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg bg-muted/50"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-2xl">{CATEGORY_ICONS[candidate.category] || '📌'}</span>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-medium truncate">{candidate.templateName}</p>
+                        <Badge className={cn('text-xs', confidenceClass(candidate.confidence))}>
+                          {Math.round(candidate.confidence * 100)}% match
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {FREQUENCIES.find((f) => f.value === candidate.frequency)?.label} •{' '}
+                        {candidate.amountMode === 'estimated' ? '~' : ''}
+                        {formatCurrency(candidate.amount)} • {candidate.occurrences} charges since{' '}
+                        {formatDate(candidate.startDate)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Last {formatDate(candidate.lastDate)}
+                        {candidate.nextOccurrence && ` • next expected ${formatDate(candidate.nextOccurrence)}`}
+                        {candidate.amountMode === 'estimated' && ` • amount varies (avg ${formatCurrency(candidate.averageAmount)})`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      onClick={() => acceptMutation.mutate(candidate)}
+                      disabled={acceptMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDismissed([...dismissed, candidate.merchant])}
+                      aria-label={`Dismiss ${candidate.templateName}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -1,19 +1,86 @@
 'use client'
 
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import { ApiService } from '@/services/api.service';
+import { OccurrenceException, UpcomingRecurringExpense } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, formatDate } from '@/utils/formatters';
-import { CATEGORY_ICONS } from '@/utils/constants';
-import { Calendar, Clock } from 'lucide-react';
+import { CATEGORY_ICONS, INCOME_CATEGORY_ICONS } from '@/utils/constants';
+import { Calendar, Clock, SkipForward, CalendarClock, Pencil, RotateCcw } from 'lucide-react';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { cn } from '@/lib/utils';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+type EditMode = 'move' | 'amount';
+
+interface EditState {
+  key: string;
+  mode: EditMode;
+  value: string;
+}
+
+const occurrenceKey = (expense: UpcomingRecurringExpense) => `${expense.id}_${expense.occurrenceDate}`;
 
 export const UpcomingRecurring = () => {
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const queryClient = useQueryClient();
+
   const { data, isLoading } = useQuery({
     queryKey: ['upcoming-recurring'],
     queryFn: () => ApiService.getUpcomingRecurringExpenses(),
   });
 
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['upcoming-recurring'] });
+    queryClient.invalidateQueries({ queryKey: ['recurring-expenses'] });
+    setEditing(null);
+  };
+
+  const onError = (error: unknown) => alert(`Error: ${getErrorMessage(error)}`);
+
+  const exceptionMutation = useMutation({
+    mutationFn: ({ expense, exception }: { expense: UpcomingRecurringExpense; exception: OccurrenceException }) =>
+      ApiService.setOccurrenceException(expense.id, expense.occurrenceDate, exception),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (expense: UpcomingRecurringExpense) =>
+      ApiService.removeOccurrenceException(expense.id, expense.occurrenceDate),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const isSaving = exceptionMutation.isPending || restoreMutation.isPending;
+
+  const startEditing = (expense: UpcomingRecurringExpense, mode: EditMode) => {
+    setEditing({
+      key: occurrenceKey(expense),
+      mode,
+      value: mode === 'move' ? expense.nextOccurrence : String(expense.amount),
+    });
+  };
+
+  const saveEditing = (expense: UpcomingRecurringExpense) => {
+    if (!editing?.value) return;
+    const exception: OccurrenceException = editing.mode === 'move'
+      ? { date: editing.value }
+      : { amount: parseFloat(editing.value) };
+    exceptionMutation.mutate({ expense, exception });
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -54,26 +121,112 @@ export const UpcomingRecurring = () => {
         <div className="space-y-3">
           {data.upcoming.map((expense) => (
             <div
-              key={expense.id}
-              className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted transition"
+              key={occurrenceKey(expense)}
+              className={cn(
+                'p-3 rounded-lg bg-muted/50 hover:bg-muted transition space-y-2',
+                expense.skipped && 'opacity-60'
+              )}
             >
-              <div className="flex items-center gap-3">
-                <span className="text-2xl">
-                  {CATEGORY_ICONS[expense.category] || '📌'}
-                </span>
-                <div>
-                  <p className="font-medium">{expense.name}</p>
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Clock className="h-3 w-3" />
-                    <span>{formatDate(expense.nextOccurrence)}</span>
-                    <span>({expense.daysUntil} days)</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">
+                    {CATEGORY_ICONS[expense.category] || INCOME_CATEGORY_ICONS[expense.category] || '📌'}
+                  </span>
+                  <div>
+                    <p className="font-medium">{expense.name}</p>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      <span className={cn(expense.skipped && 'line-through')}>{formatDate(expense.nextOccurrence)}</span>
+                      <span>({expense.daysUntil} days)</span>
+                      {expense.skipped && <span className="text-xs font-medium">Skipped</span>}
+                      {expense.moved && (
+                        <span className="text-xs font-medium">Moved from {formatDate(expense.occurrenceDate)}</span>
+                      )}
+                    </div>
                   </div>
                 </div>
+                <div className="text-right">
+                  <p className={cn(
+                    'text-lg font-bold',
+                    expense.type === 'income' && 'text-green-600',
+                    expense.skipped && 'line-through'
+                  )}>
+                    {expense.type === 'income' && '+'}
+                    {formatCurrency(expense.amount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {expense.overridden ? 'This time only' : expense.category}
+                  </p>
+                </div>
               </div>
-              <div className="text-right">
-                <p className="text-lg font-bold">{formatCurrency(expense.amount)}</p>
-                <p className="text-xs text-muted-foreground">{expense.category}</p>
-              </div>
+
+              {editing?.key === occurrenceKey(expense) ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type={editing.mode === 'move' ? 'date' : 'number'}
+                    step={editing.mode === 'amount' ? '0.01' : undefined}
+                    min={editing.mode === 'amount' ? '0' : undefined}
+                    value={editing.value}
+                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                    className="h-8"
+                  />
+                  <Button size="sm" onClick={() => saveEditing(expense)} disabled={isSaving || !editing.value}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap justify-end gap-1">
+                  {!expense.skipped && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-xs"
+                        disabled={isSaving}
+                        onClick={() => exceptionMutation.mutate({ expense, exception: { skip: true } })}
+                      >
+                        <SkipForward className="h-3 w-3 mr-1" />
+                        Skip
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-xs"
+                        disabled={isSaving}
+                        onClick={() => startEditing(expense, 'move')}
+                      >
+                        <CalendarClock className="h-3 w-3 mr-1" />
+                        Move
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-xs"
+                        disabled={isSaving}
+                        onClick={() => startEditing(expense, 'amount')}
+                      >
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Amount
+                      </Button>
+                    </>
+                  )}
+                  {(expense.skipped || expense.moved || expense.overridden) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-xs"
+                      disabled={isSaving}
+                      onClick={() => restoreMutation.mutate(expense)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,247 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { AlertChannel, Webhook } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BellRing, Check, Copy, Loader2, Plus, Send, Trash2 } from 'lucide-react';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details?.join(', ') || data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+const CHANNELS: { value: AlertChannel; label: string; description: string }[] = [
+  { value: 'in-app', label: 'In-app', description: 'Under the bell in the header' },
+  { value: 'smtp', label: 'Email', description: 'To your account email address' },
+  { value: 'webhook', label: 'Webhooks', description: 'Signed JSON POST to the URLs below' },
+];
+
+// Where notifications are sent: channels and outgoing webhooks
+export const AlertDeliveryCard = () => {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<{ id: string; ok: boolean; message: string } | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notification-settings'],
+    queryFn: () => ApiService.getNotificationSettings(),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['notification-settings'] });
+
+  const channelsMutation = useMutation({
+    mutationFn: (alertChannels: AlertChannel[]) => ApiService.updateNotificationSettings(alertChannels),
+    onSuccess: invalidate,
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => ApiService.createWebhook({ url: url.trim(), description: description.trim() || undefined }),
+    onSuccess: () => {
+      invalidate();
+      setUrl('');
+      setDescription('');
+    },
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (webhook: Webhook) => ApiService.updateWebhook(webhook.id, { enabled: !webhook.enabled }),
+    onSuccess: invalidate,
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => ApiService.deleteWebhook(id),
+    onSuccess: invalidate,
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => ApiService.testWebhook(id),
+    onSuccess: (result, id) => setTestResult({ id, ok: true, message: result.message }),
+    onError: (error, id) => setTestResult({ id, ok: false, message: getErrorMessage(error) }),
+  });
+
+  const alertChannels = data?.alertChannels || [];
+  const availableChannels = data?.availableChannels || [];
+  const webhooks = data?.webhooks || [];
+
+  const handleChannelToggle = (channel: AlertChannel) => {
+    channelsMutation.mutate(
+      alertChannels.includes(channel)
+        ? alertChannels.filter((value) => value !== channel)
+        : [...alertChannels, channel]
+    );
+  };
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopiedId(webhook.id);
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (window.confirm(`Delete the webhook to ${webhook.url}?`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Notification Channels
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Choose how you hear about budget alerts, bill reminders and price increases
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {CHANNELS.map((channel) => {
+                const available = availableChannels.includes(channel.value);
+                return (
+                  <div key={channel.value} className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      id={`channel-${channel.value}`}
+                      checked={available && alertChannels.includes(channel.value)}
+                      disabled={!available || channelsMutation.isPending}
+                      onChange={() => handleChannelToggle(channel.value)}
+                      className="w-4 h-4 mt-0.5"
+                    />
+                    <div>
+                      <Label htmlFor={`channel-${channel.value}`}>{channel.label}</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {available ? channel.description : 'Not set up on this server'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {availableChannels.includes('webhook') && (
+              <div className="space-y-3 border-t pt-4">
+                <h3 className="text-sm font-medium">Webhooks</h3>
+
+                {webhooks.map((webhook) => (
+                  <div key={webhook.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{webhook.description || webhook.url}</p>
+                        {webhook.description && (
+                          <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>
+                        )}
+                      </div>
+                      <Badge variant={webhook.enabled ? 'default' : 'secondary'}>
+                        {webhook.enabled ? 'Enabled' : 'Disabled'}
+                      </Badge>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => testMutation.mutate(webhook.id)}
+                        disabled={testMutation.isPending}
+                      >
+                        {testMutation.isPending && testMutation.variables === webhook.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <Send className="h-4 w-4 mr-1" />}
+                        Send test
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleCopySecret(webhook)}>
+                        {copiedId === webhook.id ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                        Copy secret
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => toggleMutation.mutate(webhook)}
+                        disabled={toggleMutation.isPending}
+                      >
+                        {webhook.enabled ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(webhook)}
+                        disabled={deleteMutation.isPending}
+                        className="hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+
+                    {testResult?.id === webhook.id && (
+                      <p className={testResult.ok ? 'text-xs text-green-600' : 'text-xs text-red-600'}>
+                        {testResult.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    createMutation.mutate();
+                  }}
+                >
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      type="url"
+                      placeholder="https://example.com/hooks/paisa"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      aria-label="Webhook URL"
+                      required
+                    />
+                    <Input
+                      placeholder="Description (optional)"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      aria-label="Webhook description"
+                      maxLength={100}
+                      className="sm:w-48"
+                    />
+                    <Button type="submit" disabled={createMutation.isPending || !url.trim()}>
+                      {createMutation.isPending
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Plus className="h-4 w-4 mr-2" />}
+                      Add
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each request carries <code>X-Paisa-Signature: sha256=…</code>, the HMAC-SHA256 of
+                    {' '}<code>&lt;X-Paisa-Timestamp&gt;.&lt;body&gt;</code> with the webhook&apos;s secret.
+                    URLs must be https on a public host. Failed deliveries are retried for about 5 hours.
+                  </p>
+                </form>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatDate } from '@/utils/formatters';
+import { CalendarDays, Check, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+// Subscription link for calendar apps: upcoming bills and budget period ends
+export const CalendarFeedCard = () => {
+  const [copied, setCopied] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['calendar-feed'],
+    queryFn: () => ApiService.getCalendarFeed(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => ApiService.createCalendarFeed(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+      setCopied(false);
+    },
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => ApiService.revokeCalendarFeed(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['calendar-feed'] }),
+    onError: (error) => alert(`Error: ${getErrorMessage(error)}`),
+  });
+
+  const feed = data?.calendarFeed;
+  const url = feed ? ApiService.getCalendarFeedUrl(feed.token) : '';
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  const handleRegenerate = () => {
+    if (window.confirm('Create a new link? Calendars subscribed to the current one will stop updating.')) {
+      createMutation.mutate();
+    }
+  };
+
+  const handleRevoke = () => {
+    if (window.confirm('Revoke the calendar link? Calendars subscribed to it will stop updating.')) {
+      revokeMutation.mutate();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see upcoming bills, with reminders, and budget end dates
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !feed ? (
+          <Button onClick={() => createMutation.mutate()} disabled={isBusy}>
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create calendar link
+          </Button>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={url} aria-label="Calendar feed URL" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={handleCopy} aria-label="Copy calendar feed URL">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your bills. Created {formatDate(feed.createdAt)}.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <a href={url.replace(/^https?:/, 'webcal:')}>
+                <Button size="sm">
+                  <CalendarDays className="h-4 w-4 mr-1" />
+                  Subscribe
+                </Button>
+              </a>
+              <Button size="sm" variant="outline" onClick={handleRegenerate} disabled={isBusy}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                New link
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleRevoke}
+                disabled={isBusy}
+                className="hover:bg-destructive hover:text-destructive-foreground"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ApiService } from '@/services/api.service';
+import { DeliveryStatus } from '@/types/api.types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { History } from 'lucide-react';
+
+const CHANNEL_LABELS = {
+  'in-app': 'In-app',
+  smtp: 'Email',
+  webhook: 'Webhook',
+};
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'default',
+  pending: 'outline',
+  sending: 'outline',
+  retrying: 'secondary',
+  failed: 'destructive',
+};
+
+// Recent notification deliveries with their outcome per channel
+export const DeliveryLogCard = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['notification-deliveries'],
+    queryFn: () => ApiService.getNotificationDeliveries(20),
+  });
+
+  const deliveries = data?.deliveries || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Delivery Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notifications sent yet</p>
+        ) : (
+          <ul className="divide-y">
+            {deliveries.map((delivery) => (
+              <li key={delivery.id} className="py-2 flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm truncate">{delivery.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {CHANNEL_LABELS[delivery.channel]}
+                    {delivery.target && ` · ${delivery.target}`}
+                    {' · '}
+                    {formatDistanceToNow(parseISO(delivery.createdAt), { addSuffix: true })}
+                  </p>
+                  {delivery.lastError && (
+                    <p className="text-xs text-red-600 truncate">
+                      {delivery.lastError}
+                      {delivery.status === 'retrying' && delivery.nextAttemptAt &&
+                        ` · retrying ${formatDistanceToNow(parseISO(delivery.nextAttemptAt), { addSuffix: true })}`}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={STATUS_VARIANTS[delivery.status]} className="capitalize shrink-0">
+                  {delivery.status}
+                  {delivery.attempts > 1 && ` (${delivery.attempts})`}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { ApiService } from '@/services/api.service';
+import { UserPreferences, WeekStartsOn } from '@/types/api.types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CURRENCIES, DATE_FORMATS, LANDING_PAGES, LOCALES, WEEK_START_DAYS } from '@/utils/constants';
+import { formatDate } from '@/utils/formatters';
+import { usePreferencesStore } from '@/store';
+import { CheckCircle, Loader2 } from 'lucide-react';
+
+const selectClassName = 'w-full px-3 py-2 border border-input bg-background rounded-lg focus:ring-2 focus:ring-ring';
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+const getErrorMessage = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    const message = data?.message || data?.error || error.message;
+    return data?.details ? `${message}: ${data.details.join(', ')}` : message;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+export const PreferencesForm = () => {
+  const { preferences, setPreferences } = usePreferencesStore();
+  const [draft, setDraft] = useState<UserPreferences>(preferences);
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: () => ApiService.updatePreferences(draft),
+    onSuccess: (data) => {
+      setPreferences(data.preferences);
+      setDraft(data.preferences);
+      // Amounts are re-expressed when the home currency changes, so refetch everything
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const update = (changes: Partial<UserPreferences>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    updateMutation.reset();
+  };
+
+  const currencyChanged = draft.currency !== preferences.currency;
+  const isDirty = (Object.keys(draft) as (keyof UserPreferences)[]).some(
+    (key) => draft[key] !== preferences[key]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preferences</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          How amounts and dates are shown, and where budgets and weeks begin
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="prefCurrency">Home Currency</Label>
+            <select
+              id="prefCurrency"
+              value={draft.currency}
+              onChange={(e) => update({ currency: e.target.value })}
+              className={selectClassName}
+            >
+              {CURRENCIES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+            {currencyChanged && (
+              <p className="text-xs text-yellow-600">
+                Existing expenses, budgets and recurring amounts will be converted from {preferences.currency} to {draft.currency}.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prefLocale">Number Format</Label>
+            <select
+              id="prefLocale"
+              value={draft.locale}
+              onChange={(e) => update({ locale: e.target.value })}
+              className={selectClassName}
+            >
+              {LOCALES.map((locale) => (
+                <option key={locale.value} value={locale.value}>{locale.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prefTimezone">Timezone</Label>
+            <select
+              id="prefTimezone"
+              value={draft.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              className={selectClassName}
+            >
+              {!TIMEZONES.includes(draft.timezone) && <option value={draft.timezone}>{draft.timezone}</option>}
+              {TIMEZONES.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prefWeekStart">First Day of Week</Label>
+            <select
+              id="prefWeekStart"
+              value={draft.weekStartsOn}
+              onChange={(e) => update({ weekStartsOn: Number(e.target.value) as WeekStartsOn })}
+              className={selectClassName}
+            >
+              {WEEK_START_DAYS.map((day) => (
+                <option key={day.value} value={day.value}>{day.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prefDateFormat">Date Format</Label>
+            <select
+              id="prefDateFormat"
+              value={draft.dateFormat}
+              onChange={(e) => update({ dateFormat: e.target.value })}
+              className={selectClassName}
+            >
+              {DATE_FORMATS.map((dateFormat) => (
+                <option key={dateFormat} value={dateFormat}>
+                  {formatDate(new Date(), dateFormat)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prefLanding">Start Page</Label>
+            <select
+              id="prefLanding"
+              value={draft.landingPage}
+              onChange={(e) => update({ landingPage: e.target.value })}
+              className={selectClassName}
+            >
+              {LANDING_PAGES.map((page) => (
+                <option key={page.value} value={page.value}>{page.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="rounded-lg bg-muted p-4 text-sm">
+          <p className="text-muted-foreground">Preview</p>
+          <p className="font-medium">
+            {new Intl.NumberFormat(draft.locale, { style: 'currency', currency: draft.currency }).format(1234.5)}
+            {' • '}
+            {formatDate(new Date(), draft.dateFormat)}
+          </p>
+        </div>
+
+        {updateMutation.isError && (
+          <p className="text-sm text-destructive">{getErrorMessage(updateMutation.error)}</p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={() => updateMutation.mutate()} disabled={!isDirty || updateMutation.isPending}>
+            {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Preferences
+          </Button>
+          {updateMutation.isSuccess && (
+            <span className="text-sm text-green-600 flex items-center gap-1">
+              <CheckCircle className="h-4 w-4" />
+              Saved
+              {updateMutation.data.converted &&
+                ` — converted ${updateMutation.data.converted.expenses} expenses`}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
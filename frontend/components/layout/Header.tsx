@@ -1,10 +1,11 @@
 'use client'
 
-import { LogOut, Menu, Moon, Sun, Home, Repeat, TrendingUp, X } from 'lucide-react';
+import { LogOut, Menu, Moon, Sun, Home, Receipt, Wallet, Repeat, TrendingUp, Settings, X } from 'lucide-react';
 import { useAuthStore } from '@/store';
 import { auth } from '@/lib/firebase';
 import { signOut } from 'firebase/auth';
 import { Button } from '@/components/ui/button';
+import { NotificationBell } from '@/components/features/notifications/NotificationBell';
 import { useRouter, usePathname } from 'next/navigation';
 import { useState } from 'react';
 import Link from 'next/link';
@@ -34,8 +35,11 @@ export const Header = () => {
 
   const navLinks = [
     { href: '/dashboard', label: 'Dashboard', icon: Home },
+    { href: '/expenses', label: 'Expenses', icon: Receipt },
+    { href: '/income', label: 'Income', icon: Wallet },
     { href: '/recurring', label: 'Recurring', icon: Repeat },
     { href: '/budgets', label: 'Budgets', icon: TrendingUp },
+    { href: '/settings', label: 'Settings', icon: Settings },
   ];
 
   const handleNavClick = () => {
@@ -83,6 +87,9 @@ export const Header = () => {
               {user?.email}
             </span>
 
+            {/* Notifications */}
+            <NotificationBell />
+
             {/* Dark Mode Toggle */}
             <Button variant="ghost" size="icon" onClick={toggleDark}>
               {isDark ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
@@ -1,9 +1,14 @@
 import { apiClient } from "@/lib/axios";
 import {
   Expense,
+  ExpenseAttachment,
   CreateExpenseDto,
   ExpensesResponse,
   ExpenseStats,
+  TagStatsResponse,
+  ExpenseFilters,
+  ExpenseListParams,
+  ExportFormat,
   RecurringExpense,
   CreateRecurringExpenseDto,
   UpdateRecurringExpenseDto,
@@ -13,13 +18,50 @@ import {
   CreateBudgetDto,
   UpdateBudgetDto,
   RecurringExpensesResponse,
+  ImportColumnMapping,
+  ImportPreviewResponse,
+  ImportResult,
+  ExchangeRate,
+  CreateExchangeRateDto,
+  ExchangeRatesResponse,
+  ExchangeRateLookup,
+  UserProfile,
+  UserPreferences,
+  UpdatePreferencesResponse,
+  CalendarFeed,
+  AppNotification,
+  NotificationsResponse,
+  AlertChannel,
+  Webhook,
+  NotificationSettings,
+  NotificationDelivery,
+  Income,
+  CreateIncomeDto,
+  IncomeResponse,
+  CashFlowResponse,
+  RecurringType,
+  RecurringScheduleResponse,
+  SchedulePreviewDto,
+  OccurrenceException,
+  PendingConfirmationsResponse,
+  RecurringHistoryResponse,
+  DetectedSubscriptionsResponse,
+  AcceptSubscriptionDto,
 } from "@/types/api.types";
 
+// Multi-value filters are sent comma-separated
+const toExpenseParams = ({ categories, ...filters }: ExpenseListParams = {}) => ({
+  ...filters,
+  categories: categories?.length ? categories.join(",") : undefined,
+});
+
 export class ApiService {
   static async getExpenses(
-    params?: Record<string, any>,
+    params?: ExpenseListParams,
   ): Promise<ExpensesResponse> {
-    const { data } = await apiClient.get("/expenses", { params });
+    const { data } = await apiClient.get("/expenses", {
+      params: toExpenseParams(params),
+    });
     return data;
   }
 
@@ -43,6 +85,43 @@ export class ApiService {
     return data;
   }
 
+  static async uploadAttachments(
+    expenseId: string,
+    files: File[],
+  ): Promise<{ attachments: ExpenseAttachment[] }> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("files", file));
+
+    const { data } = await apiClient.post(
+      `/expenses/${expenseId}/attachments`,
+      formData,
+      { headers: { "Content-Type": "multipart/form-data" }, timeout: 120000 },
+    );
+    return data;
+  }
+
+  // Attachments need the auth header, so they are fetched as blobs rather than linked
+  static async getAttachment(
+    expenseId: string,
+    attachmentId: string,
+  ): Promise<Blob> {
+    const { data } = await apiClient.get(
+      `/expenses/${expenseId}/attachments/${attachmentId}`,
+      { responseType: "blob" },
+    );
+    return data;
+  }
+
+  static async deleteAttachment(
+    expenseId: string,
+    attachmentId: string,
+  ): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(
+      `/expenses/${expenseId}/attachments/${attachmentId}`,
+    );
+    return data;
+  }
+
   static async getExpenseStats(
     params?: Record<string, any>,
   ): Promise<ExpenseStats> {
@@ -50,6 +129,48 @@ export class ApiService {
     return data;
   }
 
+  static async getTagStats(
+    params?: Pick<ExpenseFilters, "tag" | "startDate" | "endDate">,
+  ): Promise<TagStatsResponse> {
+    const { data } = await apiClient.get("/expenses/stats/tags", { params });
+    return data;
+  }
+
+  static async exportExpenses(
+    format: ExportFormat,
+    filters?: ExpenseFilters,
+  ): Promise<Blob> {
+    const { data } = await apiClient.get("/expenses/export", {
+      params: { ...toExpenseParams(filters), format },
+      responseType: "blob",
+      timeout: 120000,
+    });
+    return data;
+  }
+
+  static async previewExpenseImport(
+    csv: string,
+    mapping?: ImportColumnMapping,
+  ): Promise<ImportPreviewResponse> {
+    const { data } = await apiClient.post("/expenses/import/preview", {
+      csv,
+      mapping,
+    });
+    return data;
+  }
+
+  static async importExpenses(
+    csv: string,
+    mapping: ImportColumnMapping,
+  ): Promise<ImportResult> {
+    const { data } = await apiClient.post(
+      "/expenses/import",
+      { csv, mapping },
+      { timeout: 120000 },
+    );
+    return data;
+  }
+
   static async getSuggestedCategory(description: string): Promise<{
     category: string;
     confidence: number;
@@ -70,6 +191,43 @@ export class ApiService {
 
   // Add these methods to your existing ApiService class
 
+  // Income
+  static async getIncome(params: {
+    limit?: number;
+    cursor?: string;
+    category?: string;
+    startDate?: string;
+    endDate?: string;
+  } = {}): Promise<IncomeResponse> {
+    const { data } = await apiClient.get("/income", { params });
+    return data;
+  }
+
+  static async createIncome(income: CreateIncomeDto): Promise<{ income: Income }> {
+    const { data } = await apiClient.post("/income", income);
+    return data;
+  }
+
+  static async updateIncome(
+    id: string,
+    income: Partial<CreateIncomeDto>,
+  ): Promise<{ income: Income }> {
+    const { data } = await apiClient.put(`/income/${id}`, income);
+    return data;
+  }
+
+  static async deleteIncome(id: string): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(`/income/${id}`);
+    return data;
+  }
+
+  static async getCashFlow(months = 6): Promise<CashFlowResponse> {
+    const { data } = await apiClient.get("/income/cash-flow", {
+      params: { months },
+    });
+    return data;
+  }
+
   // Recurring Expenses
   static async getRecurringExpenses(): Promise<RecurringExpensesResponse> {
     const { data } = await apiClient.get("/recurring-expenses");
@@ -115,13 +273,113 @@ export class ApiService {
     return data;
   }
 
+  static async getRecurringSchedule(
+    id: string,
+    count = 12,
+  ): Promise<RecurringScheduleResponse> {
+    const { data } = await apiClient.get(`/recurring-expenses/${id}/schedule`, {
+      params: { count },
+    });
+    return data;
+  }
+
+  static async previewRecurringSchedule(
+    template: SchedulePreviewDto,
+    count = 12,
+  ): Promise<RecurringScheduleResponse> {
+    const { data } = await apiClient.post("/recurring-expenses/schedule", template, {
+      params: { count },
+    });
+    return data;
+  }
+
+  static async setOccurrenceException(
+    id: string,
+    occurrenceDate: string,
+    exception: Omit<OccurrenceException, "generated">,
+  ): Promise<{ message: string; recurringExpense: RecurringExpense }> {
+    const { data } = await apiClient.put(
+      `/recurring-expenses/${id}/exceptions/${occurrenceDate}`,
+      exception,
+    );
+    return data;
+  }
+
+  static async removeOccurrenceException(
+    id: string,
+    occurrenceDate: string,
+  ): Promise<{ message: string; recurringExpense: RecurringExpense }> {
+    const { data } = await apiClient.delete(
+      `/recurring-expenses/${id}/exceptions/${occurrenceDate}`,
+    );
+    return data;
+  }
+
   static async generateRecurringExpense(
     id: string,
-  ): Promise<{ expense: Expense; message: string }> {
+  ): Promise<{ expense: Expense | Income; message: string; type: RecurringType }> {
     const { data } = await apiClient.post(`/recurring-expenses/${id}/generate`);
     return data;
   }
 
+  static async detectSubscriptions(months?: number): Promise<DetectedSubscriptionsResponse> {
+    const { data } = await apiClient.get("/recurring-expenses/detect", {
+      params: { months },
+    });
+    return data;
+  }
+
+  static async acceptDetectedSubscription(
+    subscription: AcceptSubscriptionDto,
+  ): Promise<{ message: string; recurringExpense: RecurringExpense; linked: number }> {
+    const { data } = await apiClient.post("/recurring-expenses/detect/accept", subscription);
+    return data;
+  }
+
+  static async getRecurringHistory(id: string): Promise<RecurringHistoryResponse> {
+    const { data } = await apiClient.get(`/recurring-expenses/${id}/history`);
+    return data;
+  }
+
+  static async recategorizeRecurringHistory(
+    id: string,
+    expenseIds: string[],
+    category: string,
+  ): Promise<{ message: string; updated: number }> {
+    const { data } = await apiClient.post(
+      `/recurring-expenses/${id}/history/recategorize`,
+      { expenseIds, category },
+    );
+    return data;
+  }
+
+  static async unlinkRecurringHistory(
+    id: string,
+    expenseIds: string[],
+  ): Promise<{ message: string; unlinked: number }> {
+    const { data } = await apiClient.post(
+      `/recurring-expenses/${id}/history/unlink`,
+      { expenseIds },
+    );
+    return data;
+  }
+
+  static async getPendingConfirmations(): Promise<PendingConfirmationsResponse> {
+    const { data } = await apiClient.get("/recurring-expenses/pending");
+    return data;
+  }
+
+  static async confirmGeneratedAmount(
+    expenseId: string,
+    amount: number,
+  ): Promise<{ message: string; expense: Expense }> {
+    const { data } = await apiClient.post(
+      `/recurring-expenses/pending/${expenseId}/confirm`,
+      { amount },
+    );
+    return data;
+  }
+
   // Budgets
   static async getBudgets(): Promise<{ budgets: Budget[] }> {
     const { data } = await apiClient.get("/budgets");
@@ -138,7 +396,9 @@ export class ApiService {
     return data;
   }
 
-  static async getBudgetProgress(id: string): Promise<BudgetProgress> {
+  static async getBudgetProgress(
+    id: string,
+  ): Promise<{ progress: BudgetProgress }> {
     const { data } = await apiClient.get(`/budgets/${id}/progress`);
     return data;
   }
@@ -170,4 +430,132 @@ export class ApiService {
     const { data } = await apiClient.post(`/budgets/${id}/alerts`, { alerts });
     return data;
   }
+
+  static async getUserProfile(): Promise<{ user: UserProfile }> {
+    const { data } = await apiClient.get("/user/profile");
+    return data;
+  }
+
+  static async getPreferences(): Promise<{ preferences: UserPreferences }> {
+    const { data } = await apiClient.get("/user/preferences");
+    return data;
+  }
+
+  static async updatePreferences(
+    preferences: Partial<UserPreferences>
+  ): Promise<UpdatePreferencesResponse> {
+    const { data } = await apiClient.patch("/user/preferences", preferences);
+    return data;
+  }
+
+  static async getCalendarFeed(): Promise<{ calendarFeed: CalendarFeed | null }> {
+    const { data } = await apiClient.get("/user/calendar-feed");
+    return data;
+  }
+
+  static async createCalendarFeed(): Promise<{ message: string; calendarFeed: CalendarFeed }> {
+    const { data } = await apiClient.post("/user/calendar-feed");
+    return data;
+  }
+
+  static async revokeCalendarFeed(): Promise<{ message: string }> {
+    const { data } = await apiClient.delete("/user/calendar-feed");
+    return data;
+  }
+
+  // Public URL calendar apps subscribe to (no auth header, the token is in the path)
+  static getCalendarFeedUrl(token: string): string {
+    return apiClient.getUri({ url: `/calendar/${token}.ics` });
+  }
+
+  static async getNotifications(
+    params: { unread?: boolean; limit?: number } = {},
+  ): Promise<NotificationsResponse> {
+    const { data } = await apiClient.get("/notifications", { params });
+    return data;
+  }
+
+  static async updateNotification(
+    id: string,
+    read: boolean,
+  ): Promise<{ notification: AppNotification; unreadCount: number }> {
+    const { data } = await apiClient.patch(`/notifications/${id}`, { read });
+    return data;
+  }
+
+  static async markAllNotificationsRead(): Promise<{ message: string; updated: number }> {
+    const { data } = await apiClient.post("/notifications/read-all");
+    return data;
+  }
+
+  static async getNotificationSettings(): Promise<NotificationSettings> {
+    const { data } = await apiClient.get("/notifications/settings");
+    return data;
+  }
+
+  static async updateNotificationSettings(
+    alertChannels: AlertChannel[],
+  ): Promise<{ message: string; alertChannels: AlertChannel[] }> {
+    const { data } = await apiClient.put("/notifications/settings", { alertChannels });
+    return data;
+  }
+
+  static async createWebhook(
+    webhookData: { url: string; description?: string },
+  ): Promise<{ message: string; webhook: Webhook }> {
+    const { data } = await apiClient.post("/notifications/webhooks", webhookData);
+    return data;
+  }
+
+  static async updateWebhook(
+    id: string,
+    webhookData: Partial<Pick<Webhook, "url" | "description" | "enabled">>,
+  ): Promise<{ message: string; webhook: Webhook }> {
+    const { data } = await apiClient.patch(`/notifications/webhooks/${id}`, webhookData);
+    return data;
+  }
+
+  static async deleteWebhook(id: string): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(`/notifications/webhooks/${id}`);
+    return data;
+  }
+
+  static async testWebhook(id: string): Promise<{ message: string }> {
+    const { data } = await apiClient.post(`/notifications/webhooks/${id}/test`);
+    return data;
+  }
+
+  static async getNotificationDeliveries(
+    limit = 20,
+  ): Promise<{ deliveries: NotificationDelivery[] }> {
+    const { data } = await apiClient.get("/notifications/deliveries", { params: { limit } });
+    return data;
+  }
+
+  static async getExchangeRates(): Promise<ExchangeRatesResponse> {
+    const { data } = await apiClient.get("/exchange-rates");
+    return data;
+  }
+
+  static async createExchangeRate(
+    rateData: CreateExchangeRateDto,
+  ): Promise<{ rate: ExchangeRate }> {
+    const { data } = await apiClient.post("/exchange-rates", rateData);
+    return data;
+  }
+
+  static async deleteExchangeRate(id: string): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(`/exchange-rates/${id}`);
+    return data;
+  }
+
+  static async lookupExchangeRate(
+    from: string,
+    date?: string,
+  ): Promise<ExchangeRateLookup> {
+    const { data } = await apiClient.get("/exchange-rates/lookup", {
+      params: { from, date },
+    });
+    return data;
+  }
 }
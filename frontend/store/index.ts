@@ -1 +1,2 @@
-export { useAuthStore } from './authStore';
\ No newline at end of file
+export { useAuthStore } from './authStore';
+export { usePreferencesStore, DEFAULT_PREFERENCES } from './preferencesStore';
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { UserPreferences } from '@/types/api.types';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  currency: 'USD',
+  locale: 'en-US',
+  timezone: 'UTC',
+  weekStartsOn: 0,
+  dateFormat: 'MMM dd, yyyy',
+  landingPage: '/dashboard',
+};
+
+interface PreferencesState {
+  preferences: UserPreferences;
+  homeCurrency: string;
+  setPreferences: (preferences: Partial<UserPreferences>) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>((set) => ({
+  preferences: DEFAULT_PREFERENCES,
+  homeCurrency: DEFAULT_PREFERENCES.currency,
+  setPreferences: (changes) =>
+    set((state) => {
+      const preferences = { ...state.preferences, ...changes };
+      return { preferences, homeCurrency: preferences.currency };
+    }),
+}));
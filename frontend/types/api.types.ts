@@ -1,3 +1,17 @@
+export interface ExpenseSplit {
+  amount: number;
+  category: string;
+  note?: string;
+}
+
+export interface ExpenseAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
 export interface Expense {
   id: string;
   amount: number;
@@ -6,22 +20,116 @@ export interface Expense {
   date: string;
   userId: string;
   aiSuggested: boolean;
+  currency?: string;
+  originalAmount?: number;  // amount as entered, in `currency`
+  exchangeRate?: number;
+  homeCurrency?: string;
+  tags?: string[];
+  splits?: ExpenseSplit[];
+  attachments?: ExpenseAttachment[];
+  recurringExpenseId?: string; // template that generated it
+  status?: ExpenseStatus; // set on expenses generated by estimated templates
+  estimatedAmount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Pending expenses hold an estimate and do not count toward budgets until confirmed
+export type ExpenseStatus = 'pending' | 'confirmed';
+
 export interface CreateExpenseDto {
   amount: number;
   category: string;
   description: string;
   date: string;
   aiSuggested?: boolean;
+  currency?: string;
+  tags?: string[];
+  splits?: ExpenseSplit[];
 }
 
+export interface Income {
+  id: string;
+  amount: number;
+  category: string;
+  description: string;
+  date: string;
+  userId: string;
+  currency?: string | null;
+  originalAmount?: number;
+  exchangeRate?: number;
+  homeCurrency?: string;
+  recurringExpenseId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateIncomeDto {
+  amount: number;
+  category: string;
+  description: string;
+  date: string;
+  currency?: string;
+}
+
+export interface IncomeResponse {
+  income: Income[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+export interface CashFlowMonth {
+  month: string; // YYYY-MM
+  income: number;
+  expenses: number;
+  net: number;
+  savingsRate: number | null; // null when there was no income
+}
+
+export interface CashFlowResponse {
+  monthly: CashFlowMonth[];
+  summary: {
+    totalIncome: number;
+    totalExpenses: number;
+    net: number;
+    savingsRate: number | null;
+    currency: string;
+  };
+  incomeByCategory: { category: string; total: number }[];
+  dateRange: {
+    start: string;
+    end: string;
+  };
+}
+
+export type ExpenseSortField = 'date' | 'amount' | 'category';
+
+export interface ExpenseFilters {
+  category?: string;
+  categories?: string[];
+  tag?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  sortBy?: ExpenseSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface ExpenseListParams extends ExpenseFilters {
+  limit?: number;
+  cursor?: string;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
 export interface ExpenseStats {
   summary: {
     totalExpenses: number;
     totalAmount: number;
+    currency?: string;
     averageExpense: number;
     dateRange: { start: string; end: string };
   };
@@ -33,33 +141,250 @@ export interface ExpenseStats {
   }[];
 }
 
+export interface TagStat {
+  tag: string;
+  count: number;
+  total: number;
+  firstDate: string;
+  lastDate: string;
+  categoryBreakdown: {
+    category: string;
+    total: number;
+  }[];
+}
+
+export interface TagStatsResponse {
+  tags: TagStat[];
+  dateRange: { start: string; end: string };
+}
+
+export interface ExchangeRate {
+  id: string;
+  base: string;
+  quote: string;
+  rate: number;
+  date: string;
+  source: 'manual' | 'provider';
+  createdAt: string;
+}
+
+export interface CreateExchangeRateDto {
+  base: string;
+  quote: string;
+  rate: number;
+  date: string;
+}
+
+export interface ExchangeRatesResponse {
+  rates: ExchangeRate[];
+  homeCurrency: string;
+  provider: string;
+}
+
+export interface ExchangeRateLookup {
+  from: string;
+  to: string;
+  rate: number;
+  date: string;
+  source: 'manual' | 'provider' | 'identity';
+}
+
+export type WeekStartsOn = 0 | 1 | 6;
+
+export interface UserPreferences {
+  currency: string;
+  locale: string;
+  timezone: string;
+  weekStartsOn: WeekStartsOn;
+  dateFormat: string;
+  landingPage: string;
+}
+
+export interface UserProfile {
+  email: string;
+  createdAt: string;
+  preferences: Partial<UserPreferences> & {
+    defaultCategories?: string[];
+  };
+}
+
+// Secret token of the user's iCalendar feed (anyone with the URL can read it)
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+}
+
+// In-app notification feed (recurring reminders, budget alerts)
+export type NotificationType = 'recurring-reminder' | 'budget-alert';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  data: Record<string, unknown>;
+  read: boolean;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+// Channels notifications are delivered on
+export type AlertChannel = 'in-app' | 'smtp' | 'webhook';
+
+// Outgoing webhook; requests are signed with its secret
+export interface Webhook {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationSettings {
+  alertChannels: AlertChannel[];
+  availableChannels: AlertChannel[];
+  webhooks: Webhook[];
+}
+
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'retrying' | 'failed';
+
+// One notification sent over one channel (one per webhook)
+export interface NotificationDelivery {
+  id: string;
+  type: NotificationType;
+  title: string;
+  channel: AlertChannel;
+  webhookId: string | null;
+  target: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdatePreferencesResponse {
+  message: string;
+  preferences: UserPreferences;
+  converted?: {
+    expenses: number;
+    income: number;
+    budgets: number;
+    recurring: number;
+  };
+}
+
 export interface ExpensesResponse {
   expenses: Expense[];
   pagination: {
-    page: number;
     limit: number;
-    total: number;
-    totalPages: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+    total: number | null; // null when searching descriptions
   };
   summary: {
     totalExpenses: number;
     totalAmount: number;
+  } | null;
+}
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+// Sign expenses carry in the file; the other sign marks credits and refunds
+export type ImportAmountSign = 'negative' | 'positive';
+
+export interface ImportColumnMapping {
+  amount: string | null;
+  date: string | null;
+  description: string | null;
+  category: string | null;
+  dateFormat?: ImportDateFormat;
+  amountSign?: ImportAmountSign;
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  data: {
+    amount: number | string;
+    date: string;
+    description: string;
+    category: string;
+  };
+  isCredit: boolean;
+  needsCategory: boolean;
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface ImportPreviewResponse {
+  headers: string[];
+  mapping: ImportColumnMapping;
+  rows: ImportPreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    credits: number;
+    needsCategory: number;
   };
 }
 
+export interface ImportResult {
+  message: string;
+  imported: number;
+  skipped: { rowNumber: number; errors: string[] }[];
+  aiCategorized: number;
+}
+
 // Update RecurringExpense interface
+export type RecurringType = 'expense' | 'income';
+
+// Estimated templates generate pending expenses priced from recent amounts
+export type RecurringAmountMode = 'fixed' | 'estimated';
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// RRULE-style schedule; the template's startDate is DTSTART and endDate is UNTIL
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[]; // -1 = last day of the month
+  bySetPos?: number[]; // with byDay: 1 = first match in the month, -1 = last
+  count?: number; // stop after N occurrences
+}
+
 export interface RecurringExpense {
   id: string;
   userId: string;
   templateName: string; // ✅ Changed from 'name'
+  type?: RecurringType; // missing on templates created before income support
   amount: number;
+  amountMode?: RecurringAmountMode; // missing means fixed
   category: string;
   description: string;
-  frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+  frequency: RecurringFrequency; // derived from recurrence
+  recurrence?: RecurrenceRule; // missing on templates created before recurrence rules
   startDate: string;
   endDate?: string;
-  nextOccurrence: string;
+  nextOccurrence: string | null; // null once the schedule has ended
   lastGenerated?: string;
+  exceptions?: Record<string, OccurrenceException>; // keyed by scheduled date
+  priceHistory?: PriceHistoryEntry[]; // one entry per amount change, oldest first
+  priceAlertPercent?: number; // flag changes larger than this
   isActive: boolean;
   autoGenerate: boolean;
   reminderDays?: number; // ✅ Added
@@ -70,15 +395,19 @@ export interface RecurringExpense {
 // Update DTO
 export interface CreateRecurringExpenseDto {
   templateName: string; // ✅ Changed from 'name'
+  type?: RecurringType;
   amount: number;
+  amountMode?: RecurringAmountMode;
   category: string;
   description: string;
-  frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+  frequency?: RecurringFrequency;
+  recurrence?: RecurrenceRule; // takes precedence over frequency
   startDate: string;
   endDate?: string;
   isActive?: boolean;
   autoGenerate?: boolean;
   reminderDays?: number; // ✅ Added
+  priceAlertPercent?: number;
 }
 
 export interface UpdateRecurringExpenseDto extends Partial<CreateRecurringExpenseDto> {}
@@ -89,22 +418,142 @@ export interface RecurringExpensesResponse {
     total: number;
     active: number;
     inactive: number;
-    estimatedMonthly: number;
+    estimatedMonthlyTotal: number;
+    estimatedMonthlyIncome: number;
+    priceIncreases: PriceIncrease[]; // flagged rises from the last 90 days, still in effect
+  };
+}
+
+// Template edits and real charges (one-off amounts, confirmed estimates)
+export interface PriceHistoryEntry {
+  date: string;
+  amount: number;
+  previousAmount?: number;
+  source: 'template' | 'charge';
+  changePercent: number | null;
+  flagged: boolean; // change beyond the template's priceAlertPercent
+}
+
+export interface PriceIncrease {
+  id: string;
+  templateName: string;
+  date: string;
+  previousAmount: number;
+  amount: number;
+  changePercent: number;
+}
+
+// Per-occurrence change: skip it, or move it and/or change its amount once
+export interface OccurrenceException {
+  skip?: boolean;
+  date?: string;
+  amount?: number;
+  generated?: boolean; // moved occurrence already generated on its new date
+}
+
+export interface ScheduledOccurrence {
+  date: string;
+  amount: number;
+  occurrenceDate?: string; // scheduled date, when listing a saved template
+}
+
+export interface RecurringScheduleResponse {
+  occurrences: ScheduledOccurrence[];
+  total: number;
+  hasMore: boolean; // the schedule continues past the returned occurrences
+}
+
+export interface PendingConfirmationsResponse {
+  pending: Expense[];
+  count: number;
+}
+
+// Expenses (or income, for income templates) a template generated or was linked to
+export type RecurringHistoryEntry = (Expense | Income) & {
+  occurrenceDate?: string; // scheduled date, when generated
+  status?: ExpenseStatus;
+};
+
+export interface RecurringHistoryResponse {
+  recurringExpense: RecurringExpense;
+  entries: RecurringHistoryEntry[]; // newest first
+  summary: {
+    count: number;
+    pendingCount: number;
+    totalToDate: number; // pending estimates left out
+    totalSinceStart: number;
+    averageAmount: number;
+    firstDate: string | null;
+    lastDate: string | null;
+    yearlyCost: number; // a year of the current schedule and amount (0 when inactive)
+    byYear: { year: string; total: number; count: number }[];
   };
 }
 
+// Repeating charges found in expense history, proposed as a template
+export interface DetectedSubscription {
+  merchant: string; // normalized description the charges were grouped by
+  templateName: string;
+  description: string;
+  category: string;
+  amount: number; // latest charge
+  averageAmount: number;
+  amountMode: RecurringAmountMode; // estimated when the amount varies
+  frequency: Exclude<RecurringFrequency, 'custom'>;
+  recurrence: RecurrenceRule;
+  startDate: string; // first charge
+  lastDate: string; // latest charge
+  nextOccurrence: string | null;
+  occurrences: number;
+  confidence: number; // 0-1
+  expenseIds: string[];
+}
+
+export interface DetectedSubscriptionsResponse {
+  candidates: DetectedSubscription[];
+  count: number;
+  analyzed: number; // expenses scanned
+  from: string;
+}
+
+export interface AcceptSubscriptionDto extends CreateRecurringExpenseDto {
+  expenseIds: string[];
+}
+
+// Unsaved template; `after` is the last generated date when editing a saved one
+export interface SchedulePreviewDto {
+  startDate: string;
+  endDate?: string;
+  recurrence: RecurrenceRule;
+  amount?: number;
+  after?: string;
+}
+
+// One entry per occurrence, exceptions applied
 export interface UpcomingRecurringExpense {
   id: string;
   name: string;
+  type?: RecurringType;
   amount: number;
   category: string;
-  nextOccurrence: string;
+  occurrenceDate: string; // scheduled date, identifies the occurrence
+  nextOccurrence: string; // date it falls on (differs when moved)
+  skipped: boolean;
+  moved: boolean;
+  overridden: boolean;
   daysUntil: number;
 }
 
+// What a category carries into the next budget period
+export type BudgetRollover = 'none' | 'surplus' | 'deficit';
+
 export interface CategoryBudget {
   category: string;
-  limit: number;
+  limit: number; // as configured
+  rollover?: BudgetRollover;
+  rolloverCap?: number | null; // most that can be carried either way
+  carriedOver?: number; // from the previous period; negative for a carried deficit
+  adjustedLimit?: number; // limit + carriedOver, what spent is measured against
   spent: number;
   remaining: number;
   percentage: number;
@@ -128,10 +577,16 @@ export interface Budget {
   };
   categoryBudgets: CategoryBudget[];
   totalLimit: number;
+  totalCarriedOver?: number;
+  totalAdjustedLimit?: number;
   totalSpent: number;
   totalRemaining: number;
   alerts: BudgetAlert[];
   isActive: boolean;
+  autoRenew?: boolean;
+  // Set on renewals and on the budget they were renewed from
+  previousBudgetId?: string;
+  renewedBudgetId?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -146,32 +601,55 @@ export interface CreateBudgetDto {
   categoryBudgets: {
     category: string;
     limit: number;
+    rollover?: BudgetRollover;
+    rolloverCap?: number | null;
   }[];
   alerts?: {
     category: string;
     threshold: number;
   }[];
   isActive?: boolean;
+  autoRenew?: boolean;
 }
 
 export interface UpdateBudgetDto extends Partial<CreateBudgetDto> {}
 
+export interface BudgetCategoryForecast {
+  category: string;
+  // Adjusted for rollovers
+  limit: number;
+  spent: number;
+  // Per day, recurring entries left out
+  burnRate: number;
+  historicalRate: number | null;
+  upcomingRecurring: number;
+  projected: number;
+  overBy: number;
+  dailySafeToSpend: number | null;
+}
+
+export interface BudgetForecast {
+  totalDays: number;
+  daysElapsed: number;
+  daysLeft: number;
+  historyPeriods: number;
+  projected: number;
+  upcomingRecurring: number;
+  overBy: number;
+  // null once the period has ended
+  dailySafeToSpend: number | null;
+  categories: BudgetCategoryForecast[];
+}
+
 export interface BudgetProgress {
-  budget: Budget;
-  overall: {
-    totalLimit: number;
-    totalSpent: number;
-    totalRemaining: number;
-    percentageUsed: number;
-    status: 'on-track' | 'warning' | 'over-budget';
-  };
-  categoryProgress: {
-    category: string;
-    limit: number;
-    spent: number;
-    remaining: number;
-    percentage: number;
-    status: 'safe' | 'warning' | 'critical' | 'exceeded';
-  }[];
-  triggeredAlerts: BudgetAlert[];
+  categoryBudgets: CategoryBudget[];
+  totalLimit: number;
+  totalCarriedOver: number;
+  totalAdjustedLimit: number;
+  totalSpent: number;
+  totalRemaining: number;
+  overallPercentage: number;
+  // Triggered alerts only
+  alerts: BudgetAlert[];
+  forecast: BudgetForecast;
 }
\ No newline at end of file
@@ -31,12 +31,60 @@ export const CATEGORY_ICONS: Record<string, string> = {
   Other: '📌',
 };
 
+// Must match INCOME_CATEGORIES in backend/src/models/incomeModel.js
+export const INCOME_CATEGORIES = [
+  'Salary',
+  'Freelance',
+  'Business',
+  'Investments',
+  'Refunds',
+  'Gifts',
+  'Other Income',
+] as const;
+
+export const INCOME_CATEGORY_ICONS: Record<string, string> = {
+  Salary: '💼',
+  Freelance: '🧑‍💻',
+  Business: '🏪',
+  Investments: '📈',
+  Refunds: '↩️',
+  Gifts: '🎁',
+  'Other Income': '💰',
+};
+
 export const FREQUENCIES = [
   { value: 'daily', label: 'Daily', icon: '📅' },
   { value: 'weekly', label: 'Weekly', icon: '📆' },
   { value: 'biweekly', label: 'Bi-weekly', icon: '🗓️' },
   { value: 'monthly', label: 'Monthly', icon: '📊' },
+  { value: 'quarterly', label: 'Quarterly', icon: '🗂️' },
   { value: 'yearly', label: 'Yearly', icon: '🎂' },
+  { value: 'custom', label: 'Custom', icon: '⚙️' },
+] as const;
+
+export const RECURRENCE_UNITS = [
+  { value: 'DAILY', singular: 'day', plural: 'days' },
+  { value: 'WEEKLY', singular: 'week', plural: 'weeks' },
+  { value: 'MONTHLY', singular: 'month', plural: 'months' },
+  { value: 'YEARLY', singular: 'year', plural: 'years' },
+] as const;
+
+export const WEEKDAYS = [
+  { value: 'SU', label: 'Sun', name: 'Sunday' },
+  { value: 'MO', label: 'Mon', name: 'Monday' },
+  { value: 'TU', label: 'Tue', name: 'Tuesday' },
+  { value: 'WE', label: 'Wed', name: 'Wednesday' },
+  { value: 'TH', label: 'Thu', name: 'Thursday' },
+  { value: 'FR', label: 'Fri', name: 'Friday' },
+  { value: 'SA', label: 'Sat', name: 'Saturday' },
+] as const;
+
+export const SET_POSITIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
 ] as const;
 
 export const BUDGET_TYPES = [
@@ -45,6 +93,61 @@ export const BUDGET_TYPES = [
   { value: 'custom', label: 'Custom Period', icon: '🗓️' },
 ] as const;
 
+// What a category carries into the next budget period
+export const BUDGET_ROLLOVER_MODES = [
+  { value: 'none', label: 'No rollover' },
+  { value: 'surplus', label: 'Carry unspent' },
+  { value: 'deficit', label: 'Carry overspending' },
+] as const;
+
+export const EXPORT_FORMATS = [
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'json', label: 'JSON (.json)' },
+] as const;
+
+export const IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+
+// Must match ALLOWED_MIME_TYPES in backend/src/models/attachmentModel.js
+export const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+export const MAX_ATTACHMENT_SIZE_MB = 10;
+
+export const CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'INR', 'JPY', 'CNY', 'AUD', 'CAD', 'CHF', 'SGD',
+  'AED', 'HKD', 'NZD', 'SEK', 'NOK', 'DKK', 'THB', 'MYR', 'IDR', 'ZAR',
+];
+
+export const LOCALES = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'ja-JP', label: '日本語' },
+];
+
+export const WEEK_START_DAYS = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' },
+] as const;
+
+export const DATE_FORMATS = [
+  'MMM dd, yyyy',
+  'dd MMM yyyy',
+  'yyyy-MM-dd',
+  'dd/MM/yyyy',
+  'MM/dd/yyyy',
+];
+
+export const LANDING_PAGES = [
+  { value: '/dashboard', label: 'Dashboard' },
+  { value: '/expenses', label: 'Expenses' },
+  { value: '/budgets', label: 'Budgets' },
+  { value: '/recurring', label: 'Recurring' },
+];
+
 export const ALERT_THRESHOLDS = [50, 70, 80, 90, 95, 100];
 
 export const BUDGET_STATUS_COLORS = {
@@ -0,0 +1,38 @@
+import { ExpenseFilters, ExpenseSortField } from '@/types/api.types';
+
+const SORT_FIELDS: ExpenseSortField[] = ['date', 'amount', 'category'];
+
+export const DEFAULT_EXPENSE_SORT: Pick<ExpenseFilters, 'sortBy' | 'order'> = {
+  sortBy: 'date',
+  order: 'desc',
+};
+
+export const parseExpenseFilters = (params: URLSearchParams): ExpenseFilters => {
+  const sortBy = params.get('sortBy') as ExpenseSortField | null;
+  const order = params.get('order');
+  const categories = params.get('categories')?.split(',').filter(Boolean) || [];
+
+  return {
+    categories: categories.length > 0 ? categories : undefined,
+    tag: params.get('tag') || undefined,
+    startDate: params.get('startDate') || undefined,
+    endDate: params.get('endDate') || undefined,
+    search: params.get('search') || undefined,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_EXPENSE_SORT.sortBy,
+    order: order === 'asc' || order === 'desc' ? order : DEFAULT_EXPENSE_SORT.order,
+  };
+};
+
+export const expenseFiltersToQueryString = (filters: ExpenseFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters.categories?.length) params.set('categories', filters.categories.join(','));
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.startDate) params.set('startDate', filters.startDate);
+  if (filters.endDate) params.set('endDate', filters.endDate);
+  if (filters.search) params.set('search', filters.search);
+  if (filters.sortBy && filters.sortBy !== DEFAULT_EXPENSE_SORT.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.order && filters.order !== DEFAULT_EXPENSE_SORT.order) params.set('order', filters.order);
+
+  return params.toString();
+};
@@ -1,16 +1,48 @@
 import { format, parseISO } from 'date-fns';
+import { usePreferencesStore } from '@/store';
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Amounts are in the home currency unless another currency is passed
+export const formatCurrency = (amount: number, currency?: string): string => {
+  const { preferences } = usePreferencesStore.getState();
+  return new Intl.NumberFormat(preferences.locale, {
     style: 'currency',
-    currency: 'USD',
+    currency: currency || preferences.currency,
   }).format(amount);
 };
 
-export const formatDate = (date: string | Date, formatStr: string = 'MMM dd, yyyy'): string => {
+// Wall-clock time of an instant in the given IANA timezone, as a local Date for date-fns
+export const toTimeZone = (date: Date, timeZone: string): Date => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+// Today's date (YYYY-MM-DD) in the user's timezone
+export const getToday = (): string => {
+  const { timezone } = usePreferencesStore.getState().preferences;
+  return format(toTimeZone(new Date(), timezone), 'yyyy-MM-dd');
+};
+
+// Calendar dates (YYYY-MM-DD) are shown as-is; timestamps are shifted into the user's timezone
+export const formatDate = (date: string | Date, formatStr?: string): string => {
   try {
-    const dateObj = typeof date === 'string' ? parseISO(date) : date;
-    return format(dateObj, formatStr);
+    const { dateFormat, timezone } = usePreferencesStore.getState().preferences;
+    const dateObj =
+      typeof date === 'string' && DATE_ONLY_PATTERN.test(date)
+        ? parseISO(date)
+        : toTimeZone(typeof date === 'string' ? parseISO(date) : date, timezone);
+    return format(dateObj, formatStr || dateFormat);
   } catch {
     return 'Invalid date';
   }
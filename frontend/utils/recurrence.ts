@@ -0,0 +1,106 @@
+import { RecurrenceRule, RecurringExpense, RecurringFrequency, Weekday } from '@/types/api.types';
+import { RECURRENCE_UNITS, SET_POSITIONS, WEEKDAYS } from '@/utils/constants';
+
+const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const ruleFromFrequency = (frequency: Exclude<RecurringFrequency, 'custom'>): RecurrenceRule => {
+  switch (frequency) {
+    case 'daily':
+      return { freq: 'DAILY', interval: 1 };
+    case 'weekly':
+      return { freq: 'WEEKLY', interval: 1 };
+    case 'biweekly':
+      return { freq: 'WEEKLY', interval: 2 };
+    case 'quarterly':
+      return { freq: 'MONTHLY', interval: 3 };
+    case 'yearly':
+      return { freq: 'YEARLY', interval: 1 };
+    default:
+      return { freq: 'MONTHLY', interval: 1 };
+  }
+};
+
+// Mirrors getFrequencyLabel in the backend's utils/recurrence.js
+export const getFrequencyLabel = (rule: RecurrenceRule): RecurringFrequency => {
+  const simple = !rule.byDay && !rule.byMonthDay && !rule.bySetPos;
+
+  if (rule.freq === 'DAILY' && rule.interval === 1) return 'daily';
+  if (rule.freq === 'WEEKLY' && simple && rule.interval === 1) return 'weekly';
+  if (rule.freq === 'WEEKLY' && simple && rule.interval === 2) return 'biweekly';
+  if (rule.freq === 'MONTHLY' && simple && rule.interval === 1) return 'monthly';
+  if (rule.freq === 'MONTHLY' && simple && rule.interval === 3) return 'quarterly';
+  if (rule.freq === 'YEARLY' && rule.interval === 1) return 'yearly';
+  return 'custom';
+};
+
+// Templates created before recurrence rules only have a frequency
+export const getTemplateRule = (template: Pick<RecurringExpense, 'frequency' | 'recurrence'>): RecurrenceRule => {
+  if (template.recurrence) return template.recurrence;
+  return ruleFromFrequency(template.frequency === 'custom' ? 'monthly' : template.frequency);
+};
+
+export const ordinal = (n: number): string => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+const joinList = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
+const describeMonthDay = (day: number): string => {
+  if (day === -1) return 'last day';
+  if (day < 0) return `${ordinal(-day)} to last day`;
+  return ordinal(day);
+};
+
+const describeWeekdays = (days: Weekday[], long: boolean): string => {
+  if (days.length === 5 && BUSINESS_DAYS.every((day) => days.includes(day))) return 'weekdays';
+  return joinList(days.map((day) => {
+    const weekday = WEEKDAYS.find((w) => w.value === day);
+    return long ? weekday?.name || day : weekday?.label || day;
+  }));
+};
+
+/**
+ * Human-readable summary of a rule, e.g.
+ * "Every month on the 15th and last day" or "Every 2 weeks on Mon and Thu, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, startDate?: string): string => {
+  const unit = RECURRENCE_UNITS.find((u) => u.value === rule.freq) || RECURRENCE_UNITS[2];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit.plural}` : `Every ${unit.singular}`;
+  const [, startMonth, startDay] = (startDate || '').split('-').map(Number);
+  const startWeekday = startDate ? WEEKDAYS[new Date(`${startDate}T00:00:00Z`).getUTCDay()]?.value : undefined;
+
+  let on = '';
+  switch (rule.freq) {
+    case 'WEEKLY': {
+      const days = rule.byDay || (startWeekday ? [startWeekday] : []);
+      if (days.length > 0) on = ` on ${describeWeekdays(days, days.length === 1)}`;
+      break;
+    }
+    case 'MONTHLY': {
+      if (rule.byDay && rule.bySetPos) {
+        const positions = rule.bySetPos.map((pos) => SET_POSITIONS.find((p) => p.value === pos)?.label.toLowerCase() || ordinal(pos));
+        const days = describeWeekdays(rule.byDay, true);
+        on = ` on the ${joinList(positions)} ${days === 'weekdays' ? 'business day' : days}`;
+      } else if (rule.byDay) {
+        on = ` on every ${describeWeekdays(rule.byDay, true)}`;
+      } else if (rule.byMonthDay) {
+        on = ` on the ${joinList(rule.byMonthDay.map(describeMonthDay))}`;
+      } else if (startDay) {
+        on = ` on the ${ordinal(startDay)}`;
+      }
+      break;
+    }
+    case 'YEARLY':
+      if (startMonth && startDay) on = ` on ${MONTH_NAMES[startMonth - 1]} ${startDay}`;
+      break;
+  }
+
+  const times = rule.count ? `, ${rule.count} time${rule.count === 1 ? '' : 's'}` : '';
+  return `${every}${on}${times}`;
+};
@@ -6,6 +6,28 @@ export const expenseSchema = z.object({
   description: z.string().min(1).max(500),
   date: z.string().min(1),
   aiSuggested: z.boolean().optional(),
+  currency: z.string().length(3).optional(),
+  tags: z.array(z.string().max(30)).max(10, 'At most 10 tags').optional(),
+  splits: z.array(
+    z.object({
+      amount: z.number().min(0.01, 'Split amount required'),
+      category: z.string().min(1, 'Split category required'),
+      note: z.string().max(200).optional(),
+    })
+  ).optional(),
+}).refine(
+  // Compare in cents so 33.33 + 66.67 matches 100
+  (data) => !data.splits?.length ||
+    Math.round(data.splits.reduce((sum, split) => sum + split.amount, 0) * 100) === Math.round(data.amount * 100),
+  { message: 'Split amounts must add up to the total', path: ['splits'] }
+);
+
+export const incomeSchema = z.object({
+  amount: z.number().min(0.01).max(10000000),
+  category: z.string().min(1, 'Category is required'),
+  description: z.string().min(1, 'Description is required').max(500),
+  date: z.string().min(1),
+  currency: z.string().length(3).optional(),
 });
 
 export const loginSchema = z.object({
@@ -20,18 +42,31 @@ export const registerSchema = loginSchema.extend({
   path: ['confirmPassword'],
 });
 
+export const recurrenceRuleSchema = z.object({
+  freq: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+  interval: z.number().int().min(1, 'Repeat at least every 1 period').max(365),
+  byDay: z.array(z.enum(['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])).min(1, 'Pick at least one day').optional(),
+  byMonthDay: z.array(z.number().int().min(-31).max(31)).min(1, 'Pick at least one day').optional(),
+  bySetPos: z.array(z.number().int().min(-5).max(5)).min(1).optional(),
+  count: z.number().int().min(1).max(1000).optional(),
+});
+
 // Update schema
 export const recurringExpenseSchema = z.object({
   templateName: z.string().min(1, 'Name is required').max(100, 'Name too long'), // ✅ Changed
+  type: z.enum(['expense', 'income']).optional(),
   amount: z.number().min(0.01).max(1000000),
+  amountMode: z.enum(['fixed', 'estimated']).optional(),
   category: z.string().min(1),
   description: z.string().min(1).max(500),
-  frequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'yearly']),
+  frequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom']).optional(),
+  recurrence: recurrenceRuleSchema.optional(),
   startDate: z.string().min(1),
   endDate: z.string().optional(),
   isActive: z.boolean().optional(),
   autoGenerate: z.boolean().optional(),
   reminderDays: z.number().min(0).max(30).optional(), // ✅ Added
+  priceAlertPercent: z.number().min(0).max(100).optional(),
 });
 
 export const budgetSchema = z.object({
@@ -45,6 +80,8 @@ export const budgetSchema = z.object({
     z.object({
       category: z.string().min(1),
       limit: z.number().min(0.01).max(1000000),
+      rollover: z.enum(['none', 'surplus', 'deficit']).optional(),
+      rolloverCap: z.number().min(0).nullable().optional(),
     })
   ).min(1, 'At least one category budget required'),
   alerts: z.array(
@@ -54,10 +91,12 @@ export const budgetSchema = z.object({
     })
   ).optional(),
   isActive: z.boolean().optional(),
+  autoRenew: z.boolean().optional(),
 });
 
 export type BudgetFormData = z.infer<typeof budgetSchema>;
 export type ExpenseFormData = z.infer<typeof expenseSchema>;
+export type IncomeFormData = z.infer<typeof incomeSchema>;
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type RegisterFormData = z.infer<typeof registerSchema>;
 export type RecurringExpenseFormData = z.infer<typeof recurringExpenseSchema>;
\ No newline at end of file